@@ -0,0 +1,111 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Image from 'next/image';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { CheckCircle, Loader2, XCircle } from 'lucide-react';
+import { acknowledgeAbsence, getAbsenceAcknowledgement, type AbsenceAcknowledgement } from '@/lib/actions';
+
+export default function AcknowledgePage() {
+  const { token } = useParams<{ token: string }>();
+  const [absence, setAbsence] = useState<AbsenceAcknowledgement | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    const loadAbsence = async () => {
+      try {
+        const result = await getAbsenceAcknowledgement(token);
+        if ('error' in result) {
+          setError(result.error);
+        } else {
+          setAbsence(result.absence);
+        }
+      } catch (e: any) {
+        setError(e.message || 'Something went wrong. Please try again later.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadAbsence();
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const result = await acknowledgeAbsence(token, reason);
+      if ('error' in result) {
+        setError(result.error);
+      } else {
+        setSuccessMessage(result.message);
+      }
+    } catch (e: any) {
+      setError(e.message || 'Something went wrong. Please try again later.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen w-full items-center justify-center bg-primary p-4">
+      <Card className="w-full max-w-md shadow-2xl">
+        <CardHeader className="text-center">
+          <Image src="/svcet-logo.png" alt="Logo" width={60} height={60} className="mx-auto" />
+          <CardTitle className="mt-4 text-2xl font-headline">Absence Acknowledgement</CardTitle>
+          <CardDescription>Let the college know you are aware of your ward's absence.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : error ? (
+            <Alert variant="destructive">
+              <XCircle className="h-4 w-4" />
+              <AlertTitle>Unable to continue</AlertTitle>
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          ) : successMessage || absence?.acknowledged ? (
+            <Alert className="border-green-200 bg-green-50 text-green-800 [&>svg]:text-green-600">
+              <CheckCircle className="h-4 w-4" />
+              <AlertTitle>Acknowledged</AlertTitle>
+              <AlertDescription>{successMessage || 'This absence has already been acknowledged. Thank you.'}</AlertDescription>
+            </Alert>
+          ) : absence && (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="rounded-md border p-4 text-sm space-y-1">
+                <p><span className="text-muted-foreground">Student:</span> <span className="font-medium">{absence.studentName}</span></p>
+                <p><span className="text-muted-foreground">Class:</span> {absence.className}</p>
+                <p><span className="text-muted-foreground">Absent on:</span> {absence.date}</p>
+              </div>
+              <div>
+                <Label htmlFor="reason">Reason for Absence</Label>
+                <Textarea
+                  id="reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  maxLength={500}
+                  placeholder="e.g., Fever, family function"
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={isSubmitting || !reason.trim()}>
+                {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                I Acknowledge This Absence
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { getAdminServices } from '@/lib/firebase-admin';
+import { buildIcsCalendar, toIcsEvents } from '@/lib/ics';
+import type { WorkingDay } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * The college holiday calendar as an ICS feed, for staff to subscribe to from their phone calendar.
+ * Holidays are not sensitive, so the feed is public like the acknowledgement page.
+ */
+export async function GET() {
+  try {
+    const { adminDb } = await getAdminServices();
+    const snapshot = await adminDb.collection('workingDays').get();
+    const days = snapshot.docs.map(doc => {
+      const data = doc.data();
+      return { id: doc.id, ...data, timestamp: data.timestamp.toDate() } as WorkingDay;
+    });
+
+    return new Response(buildIcsCalendar('SVCET Holidays', toIcsEvents(days)), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="svcet-holidays.ics"',
+        'Cache-Control': 'public, max-age=3600',
+      },
+    });
+  } catch (error) {
+    console.error('Error building calendar feed:', error);
+    return new Response('Could not load the calendar.', { status: 500 });
+  }
+}
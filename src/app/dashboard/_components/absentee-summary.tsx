@@ -2,10 +2,10 @@
 'use client';
 
 import { useMemo, useState } from 'react';
-import type { AttendanceRecord, Class, Department, Student, WorkingDay } from '@/lib/types';
+import type { AttendanceRecord, AttendanceSettings, Class, Department, Student, WorkingDay } from '@/lib/types';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { format, isSameDay, isSunday } from 'date-fns';
+import { format, isSameDay } from 'date-fns';
 import { Progress } from '@/components/ui/progress';
 import {
   Dialog,
@@ -18,6 +18,7 @@ import { Users, Calendar as CalendarIcon } from 'lucide-react';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import { createCalendarResolver } from '@/lib/calendar';
 import { Calendar } from '@/components/ui/calendar';
 
 type AbsenteeSummaryProps = {
@@ -26,6 +27,7 @@ type AbsenteeSummaryProps = {
   departments: Department[];
   students: Student[];
   workingDays: WorkingDay[];
+  settings: AttendanceSettings;
 };
 
 type SelectedClassInfo = {
@@ -36,33 +38,26 @@ type SelectedClassInfo = {
   absentees: AttendanceRecord[];
 } | null;
 
-export function AbsenteeSummary({ records, classes, departments, students, workingDays }: AbsenteeSummaryProps) {
+export function AbsenteeSummary({ records, classes, departments, students, workingDays, settings }: AbsenteeSummaryProps) {
   const [selectedClass, setSelectedClass] = useState<SelectedClassInfo>(null);
   const [date, setDate] = useState<Date | undefined>(new Date());
   const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
 
-  const workingDaysMap = useMemo(() => {
-    const map = new Map<string, boolean>();
-    workingDays.forEach(wd => {
-        map.set(format(wd.timestamp, 'yyyy-MM-dd'), wd.isWorkingDay);
-    });
-    return map;
-  }, [workingDays]);
-
-  const dailyRecords = useMemo(() => {
+  const workingClasses = useMemo(() => {
     if (!date) return [];
-
     const dateKey = format(date, 'yyyy-MM-dd');
-    if (isSunday(date) || !workingDaysMap.get(dateKey)) {
-        return [];
-    }
-    
+    const calendar = createCalendarResolver(workingDays, classes, settings);
+    return classes.filter(cls => calendar.isInstructional({ classId: cls.id }, dateKey));
+  }, [date, workingDays, classes, settings]);
+
+  const dailyRecords = useMemo(() => {
+    if (!date || workingClasses.length === 0) return [];
     return records.filter(record => isSameDay(new Date(record.timestamp), date));
-  }, [records, date, workingDaysMap]);
+  }, [records, date, workingClasses]);
 
 
   const summaryData = useMemo(() => {
-    const summary = classes.map(cls => {
+    const summary = workingClasses.map(cls => {
       const department = departments.find(d => d.id === cls.departmentId);
       
       const absentRecords = dailyRecords.filter(r => r.className === cls.name && r.departmentName === department?.name);
@@ -91,7 +86,7 @@ export function AbsenteeSummary({ records, classes, departments, students, worki
         return a.className.localeCompare(b.className);
     });
 
-  }, [dailyRecords, classes, departments, students]);
+  }, [dailyRecords, workingClasses, departments, students]);
 
   const handleRowClick = (summaryItem: (typeof summaryData)[0]) => {
     const absentBoys = summaryItem.absentRecords.filter(r => r.gender === 'MALE').length;
@@ -3,8 +3,8 @@
 
 import { Button } from '@/components/ui/button';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import type { AttendanceRecord, Class, Department, Staff, Student } from '@/lib/types';
-import { Download, CalendarIcon, UserCheck } from 'lucide-react';
+import type { AttendanceRecord, AttendanceSettings, Class, ClassAssignment, Department, NotificationDelivery, Staff, Student } from '@/lib/types';
+import { Download, CalendarIcon, UserCheck, PhoneCall, AlertTriangle, MessageSquare, CheckCircle } from 'lucide-react';
 import { format, isSameDay } from 'date-fns';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
@@ -13,24 +13,45 @@ import { Popover, PopoverTrigger, PopoverContent } from '@/components/ui/popover
 import { Calendar } from '@/components/ui/calendar';
 import { cn } from '@/lib/utils';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { isFollowUpOverdue, isSpecialStatus } from '@/lib/attendance';
+import { canTeachClass } from '@/lib/assignments';
+import { FollowUpDialog, followUpStatuses, type FollowUpUpdate } from './follow-up-dialog';
 
 type AbsenteesListProps = {
   records: AttendanceRecord[];
-  onRecordUpdate: (recordId: string, classId: string, date: string) => Promise<void>;
+  onRecordUpdate: (record: AttendanceRecord, classId: string) => Promise<void>;
+  onFollowUp: (record: AttendanceRecord, update: FollowUpUpdate) => Promise<boolean>;
+  settings: AttendanceSettings;
   user: Staff | null;
+  assignments?: ClassAssignment[]; // The user's class assignments; teachers can act on their classes' absences
   departments: Department[];
   classes: Class[];
   students: Student[];
 };
 
-export function AbsenteesList({ records, onRecordUpdate, user, departments, classes, students }: AbsenteesListProps) {
+const notificationLabels: Record<NotificationDelivery['status'], string> = {
+  queued: 'Notifying parent',
+  sent: 'Parent notified',
+  failed: 'Notification failed',
+  skipped: 'No parent number',
+};
+
+export function AbsenteesList({ records, onRecordUpdate, onFollowUp, settings, user, assignments = [], departments, classes, students }: AbsenteesListProps) {
   const [logoBase64, setLogoBase64] = useState<string | null>(null);
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(new Date());
   const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
   const [departmentFilter, setDepartmentFilter] = useState('all');
   const [classFilter, setClassFilter] = useState('all');
+  const [showOverdueOnly, setShowOverdueOnly] = useState(false);
+  const [followUpRecord, setFollowUpRecord] = useState<AttendanceRecord | null>(null);
 
   const isAdmin = user?.role === 'admin';
+  const isHod = user?.role === 'hod';
+  const hodDepartmentName = isHod ? departments.find(d => d.id === user.departmentId)?.name : undefined;
 
   const availableClasses = useMemo(() => {
     if (departmentFilter === 'all') {
@@ -40,8 +61,21 @@ export function AbsenteesList({ records, onRecordUpdate, user, departments, clas
   }, [departmentFilter, classes]);
 
 
+  // HODs only follow up on their own department.
+  const scopedRecords = useMemo(() => {
+    if (!isHod) return records;
+    return records.filter(record => record.departmentName === hodDepartmentName);
+  }, [records, isHod, hodDepartmentName]);
+
+  const overdueCount = useMemo(() => {
+    const now = new Date();
+    return scopedRecords.filter(record => isFollowUpOverdue(record, settings, now)).length;
+  }, [scopedRecords, settings]);
+
   const filteredRecords = useMemo(() => {
-    return records.filter(record => {
+    const now = new Date();
+    return scopedRecords.filter(record => {
+      if (showOverdueOnly) return isFollowUpOverdue(record, settings, now);
       if (!selectedDate) return true;
       const isDateMatch = isSameDay(new Date(record.timestamp), selectedDate);
       const isDeptMatch = departmentFilter === 'all' || record.departmentName === departments.find(d => d.id === departmentFilter)?.name;
@@ -49,7 +83,7 @@ export function AbsenteesList({ records, onRecordUpdate, user, departments, clas
 
       return isDateMatch && isDeptMatch && isClassMatch;
     });
-  }, [records, selectedDate, departmentFilter, classFilter, departments, classes]);
+  }, [scopedRecords, selectedDate, departmentFilter, classFilter, departments, classes, showOverdueOnly, settings]);
 
 
   useEffect(() => {
@@ -92,7 +126,7 @@ export function AbsenteesList({ records, onRecordUpdate, user, departments, clas
         
         autoTable(doc, {
           startY: contentY,
-          head: [['S.No.', 'Student Name', 'Register No', 'Class', 'Department', 'Mentor', 'Date']],
+          head: [['S.No.', 'Student Name', 'Register No', 'Class', 'Department', 'Mentor', 'Date', 'Status', 'Reason']],
           body: filteredRecords.map((record, index) => {
             const student = students.find(s => s.id === record.studentId);
             return [
@@ -103,6 +137,8 @@ export function AbsenteesList({ records, onRecordUpdate, user, departments, clas
                 record.departmentName,
                 student?.mentor || 'N/A',
                 format(new Date(record.timestamp), 'PPP'),
+                record.status,
+                record.reason || '',
             ]
           }),
           headStyles: { fillColor: [30, 58, 138], lineColor: [44, 62, 80], lineWidth: 0.1 },
@@ -143,6 +179,15 @@ export function AbsenteesList({ records, onRecordUpdate, user, departments, clas
 
   return (
     <div className="space-y-4">
+      {(isAdmin || isHod) && overdueCount > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Follow-up Overdue</AlertTitle>
+          <AlertDescription>
+            {overdueCount} absentee{overdueCount === 1 ? ' has' : 's have'} not been followed up by {settings.followUpDeadline} on the day of absence.
+          </AlertDescription>
+        </Alert>
+      )}
       <div className="flex flex-col sm:flex-row gap-4 justify-between items-center">
         <h3 className="text-lg font-medium">Absentees List</h3>
         <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
@@ -200,6 +245,13 @@ export function AbsenteesList({ records, onRecordUpdate, user, departments, clas
               </PopoverContent>
             </Popover>
 
+            {(isAdmin || isHod) && (
+              <div className="flex items-center gap-2">
+                <Switch id="showOverdueOnly" checked={showOverdueOnly} onCheckedChange={setShowOverdueOnly} />
+                <Label htmlFor="showOverdueOnly" className="whitespace-nowrap">Overdue only</Label>
+              </div>
+            )}
+
             <Button onClick={handleExportPdf} size="sm" variant="outline" disabled={filteredRecords.length === 0}>
               <Download className="mr-2 h-4 w-4" />
               Download PDF
@@ -216,6 +268,8 @@ export function AbsenteesList({ records, onRecordUpdate, user, departments, clas
               <TableHead>Department</TableHead>
               <TableHead>Mentor</TableHead>
               <TableHead>Date</TableHead>
+              <TableHead>Session</TableHead>
+              <TableHead>Status</TableHead>
               <TableHead>Action</TableHead>
             </TableRow>
           </TableHeader>
@@ -224,7 +278,8 @@ export function AbsenteesList({ records, onRecordUpdate, user, departments, clas
               filteredRecords.map((record) => {
                 const student = students.find(s => s.id === record.studentId);
                 const cls = classes.find(c => c.name === record.className && c.departmentId === departments.find(d => d.name === record.departmentName)?.id);
-                const canEdit = user?.role === 'admin' || (user?.role === 'teacher' && student?.classId === user.classId);
+                const canEdit = user?.role === 'admin' || (user?.role === 'teacher' && canTeachClass(assignments, record.classId ?? cls?.id, record.date)) || (isHod && record.departmentName === hodDepartmentName);
+                const isOverdue = isFollowUpOverdue(record, settings);
 
                 return (
                     <TableRow key={record.id}>
@@ -234,24 +289,68 @@ export function AbsenteesList({ records, onRecordUpdate, user, departments, clas
                     <TableCell>{record.departmentName}</TableCell>
                     <TableCell>{student?.mentor || 'N/A'}</TableCell>
                     <TableCell>{format(new Date(record.timestamp), 'PPP')}</TableCell>
+                    <TableCell>{record.period ? `Period ${record.period}` : record.session || 'Full Day'}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-col gap-1">
+                        {canEdit && !isSpecialStatus(record.status) ? (
+                          <Select value={record.status} onValueChange={(value) => onFollowUp(record, { status: value as AttendanceRecord['status'] })}>
+                            <SelectTrigger className="h-8 w-[140px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {followUpStatuses.map(status => (
+                                <SelectItem key={status} value={status}>{status}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <span>{record.status}</span>
+                        )}
+                        {record.reason && <span className="text-xs text-muted-foreground">{record.reason}</span>}
+                        {record.notification && (
+                          <span
+                            className={cn("flex items-center text-xs", record.notification.status === 'sent' ? 'text-green-600' : 'text-muted-foreground')}
+                            title={record.notification.error}
+                          >
+                            <MessageSquare className="mr-1 h-3 w-3" />
+                            {notificationLabels[record.notification.status]}
+                          </span>
+                        )}
+                        {record.parentAcknowledgedAt && (
+                          <span className="flex items-center text-xs text-green-600">
+                            <CheckCircle className="mr-1 h-3 w-3" />
+                            Parent acknowledged
+                          </span>
+                        )}
+                        {isOverdue && <Badge variant="destructive" className="w-fit">Overdue</Badge>}
+                      </div>
+                    </TableCell>
                     <TableCell>
-                      {cls && canEdit && (
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => onRecordUpdate(record.id, cls.id, record.date)}
-                        >
-                          <UserCheck className="mr-2 h-4 w-4" />
-                          Mark as Arrived
-                        </Button>
-                      )}
+                      <div className="flex gap-2">
+                        {canEdit && (
+                          <Button variant="outline" size="sm" onClick={() => setFollowUpRecord(record)}>
+                            <PhoneCall className="mr-2 h-4 w-4" />
+                            Follow Up{record.contactLog?.length ? ` (${record.contactLog.length})` : ''}
+                          </Button>
+                        )}
+                        {cls && canEdit && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => onRecordUpdate(record, cls.id)}
+                          >
+                            <UserCheck className="mr-2 h-4 w-4" />
+                            Mark as Arrived
+                          </Button>
+                        )}
+                      </div>
                     </TableCell>
                     </TableRow>
                 )
               })
             ) : (
               <TableRow>
-                <TableCell colSpan={7} className="h-24 text-center">
+                <TableCell colSpan={9} className="h-24 text-center">
                   No absentees found for the selected date and filters.
                 </TableCell>
               </TableRow>
@@ -259,6 +358,14 @@ export function AbsenteesList({ records, onRecordUpdate, user, departments, clas
           </TableBody>
         </Table>
       </div>
+      {followUpRecord && (
+        <FollowUpDialog
+          isOpen={!!followUpRecord}
+          setIsOpen={(open) => !open && setFollowUpRecord(null)}
+          record={followUpRecord}
+          onSave={onFollowUp}
+        />
+      )}
     </div>
   );
 }
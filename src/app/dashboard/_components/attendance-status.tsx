@@ -1,28 +1,34 @@
 'use client';
 
 import { useMemo, useState, useEffect } from 'react';
-import type { AttendanceSubmission, Class, Department, WorkingDay } from '@/lib/types';
+import type { AttendanceSettings, AttendanceSubmission, Class, Department, Staff, WorkingDay } from '@/lib/types';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
-import { format, isSunday } from 'date-fns';
+import { format } from 'date-fns';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
-import { CalendarCheck, Calendar as CalendarIcon, Download } from 'lucide-react';
+import { CalendarCheck, Calendar as CalendarIcon, Download, AlarmClock } from 'lucide-react';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Button } from '@/components/ui/button';
-import { cn } from '@/lib/utils';
+import { cn, toDate } from '@/lib/utils';
 import { Calendar } from '@/components/ui/calendar';
+import type { OutboxEntry } from '@/lib/outbox';
+import { getSubmissionCutoff, isPastTime } from '@/lib/attendance';
+import { createCalendarResolver } from '@/lib/calendar';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 
 type AttendanceStatusProps = {
   submissions: AttendanceSubmission[];
+  pendingSubmissions: OutboxEntry[];
   classes: Class[];
   departments: Department[];
   workingDays: WorkingDay[];
+  settings: AttendanceSettings;
+  user: Staff;
 };
 
-export function AttendanceStatus({ submissions, classes, departments, workingDays }: AttendanceStatusProps) {
+export function AttendanceStatus({ submissions, pendingSubmissions, classes, departments, workingDays, settings, user }: AttendanceStatusProps) {
   const [date, setDate] = useState<Date | undefined>(new Date());
   const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
   const [logoBase64, setLogoBase64] = useState<string | null>(null);
@@ -41,32 +47,57 @@ export function AttendanceStatus({ submissions, classes, departments, workingDay
       });
   }, []);
   
-  const isSelectedDateWorkingDay = useMemo(() => {
-    if (!date) return false;
+  // Classes on a holiday in their own calendar are left out of the status list.
+  const workingClassIds = useMemo(() => {
+    if (!date) return new Set<string>();
     const dateKey = format(date, 'yyyy-MM-dd');
-    if (isSunday(date)) return false;
-    const daySetting = workingDays.find(d => d.id === dateKey);
-    return daySetting?.isWorkingDay ?? false;
-  }, [date, workingDays]);
+    const calendar = createCalendarResolver(workingDays, classes, settings);
+    return new Set(classes.filter(c => calendar.isInstructional({ classId: c.id }, dateKey)).map(c => c.id));
+  }, [date, workingDays, classes, settings]);
+
+  const isSelectedDateWorkingDay = workingClassIds.size > 0;
 
   const statusData = useMemo(() => {
     if (!date) return [];
     
     const selectedDateString = format(date, 'yyyy-MM-dd');
-    const submittedClassIds = new Set(
-        submissions
-            .filter(sub => sub.date === selectedDateString)
-            .map(sub => sub.classId)
+    const now = new Date();
+    // With period-wise attendance a class has several submissions a day; the first one marks when it was taken.
+    const firstSubmissionByClass = new Map<string, AttendanceSubmission>();
+    submissions
+        .filter(sub => sub.date === selectedDateString)
+        .forEach(sub => {
+            const current = firstSubmissionByClass.get(sub.classId);
+            if (!current || toDate(sub.submittedAt) < toDate(current.submittedAt)) {
+                firstSubmissionByClass.set(sub.classId, sub);
+            }
+        });
+    const pendingClassIds = new Set(
+        pendingSubmissions
+            .filter(entry => entry.submission.date === selectedDateString)
+            .map(entry => entry.submission.classId)
     );
     
     const departmentsWithStatus = departments.map(dept => {
+        const cutoff = getSubmissionCutoff(settings, dept.id);
         const classesInDept = classes
-            .filter(c => c.departmentId === dept.id)
-            .map(c => ({
-                id: c.id,
-                name: c.name,
-                status: submittedClassIds.has(c.id) ? 'Submitted' : 'Pending',
-            }))
+            .filter(c => c.departmentId === dept.id && workingClassIds.has(c.id))
+            .map(c => {
+                const submission = firstSubmissionByClass.get(c.id);
+                const submittedAt = submission ? toDate(submission.submittedAt) : null;
+                const status = submission ? 'Submitted' : pendingClassIds.has(c.id) ? 'Pending Sync' : 'Pending';
+                return {
+                    id: c.id,
+                    name: c.name,
+                    status,
+                    submittedAt,
+                    // The strength comes from the submission itself, so past dates show the class as it was then.
+                    strength: submission ? `${submission.presentCount}/${submission.roster?.length ?? submission.presentCount + submission.absentCount}` : '-',
+                    // Older submissions have no flag, so lateness is worked out from the submission time.
+                    isLate: submission ? submission.isLate ?? isPastTime(selectedDateString, cutoff, submittedAt!) : false,
+                    isOverdue: status === 'Pending' && isPastTime(selectedDateString, cutoff, now),
+                };
+            })
             .sort((a,b) => a.name.localeCompare(b.name));
             
         return {
@@ -78,7 +109,7 @@ export function AttendanceStatus({ submissions, classes, departments, workingDay
 
     return departmentsWithStatus;
 
-  }, [submissions, classes, departments, date]);
+  }, [submissions, pendingSubmissions, classes, departments, date, settings, workingClassIds]);
   
   const handleExportPdf = () => {
     const doc = new jsPDF();
@@ -110,14 +141,17 @@ export function AttendanceStatus({ submissions, classes, departments, workingDay
                     });
                 }
                 row.push(cls.name);
+                row.push(cls.strength);
                 row.push(cls.status);
+                row.push(cls.submittedAt ? format(cls.submittedAt, 'hh:mm a') : '-');
+                row.push(getTimeliness(cls));
                 tableData.push(row);
             });
         });
 
         autoTable(doc, {
           startY: contentY,
-          head: [['Department', 'Class', 'Status']],
+          head: [['Department', 'Class', 'Present', 'Status', 'Submitted At', 'On Time / Late']],
           body: tableData,
           headStyles: { fillColor: [30, 58, 138], lineColor: [44, 62, 80], lineWidth: 0.1 },
           styles: { cellPadding: 2, fontSize: 10, lineColor: [44, 62, 80], lineWidth: 0.1 },
@@ -125,14 +159,19 @@ export function AttendanceStatus({ submissions, classes, departments, workingDay
           didParseCell: (data) => {
               if (data.section === 'body') {
                   // Get the status from the raw data of the row
-                  // The status is always the last element in our row array
+                  // The status is always the third-last element in our row array, followed by time and timeliness
                   const rowRaw = data.row.raw as any[];
-                  const status = rowRaw[rowRaw.length - 1];
+                  const status = rowRaw[rowRaw.length - 3];
+                  const timeliness = rowRaw[rowRaw.length - 1];
                   
                   if (status === 'Pending') {
                       // Highlight pending rows with light red background and dark red text
                       data.cell.styles.fillColor = [254, 226, 226];
                       data.cell.styles.textColor = [153, 27, 27];
+                  } else if (timeliness === 'Late') {
+                      // Highlight late submissions with light amber background and dark amber text
+                      data.cell.styles.fillColor = [254, 243, 199];
+                      data.cell.styles.textColor = [146, 64, 14];
                   }
               }
           }
@@ -169,6 +208,13 @@ export function AttendanceStatus({ submissions, classes, departments, workingDay
     }
   };
 
+  // Classes still pending after the cut-off are escalated to their HOD; admins see every department.
+  const overdueClasses = useMemo(() => {
+    return statusData
+      .filter(dept => user.role !== 'hod' || dept.id === user.departmentId)
+      .flatMap(dept => dept.classes.filter(cls => cls.isOverdue).map(cls => ({ ...cls, departmentName: dept.name })));
+  }, [statusData, user]);
+
   const cardDescription = date ? `An overview of which classes submitted attendance on ${format(date, 'PPP')}.` : 'Select a date to see attendance submission status.';
 
   return (
@@ -228,12 +274,25 @@ export function AttendanceStatus({ submissions, classes, departments, workingDay
                   </AlertDescription>
              </Alert>
          ) : (
+          <div className="space-y-4">
+            {overdueClasses.length > 0 && (user.role === 'hod' || user.role === 'admin') && (
+              <Alert variant="destructive">
+                <AlarmClock className="h-4 w-4" />
+                <AlertTitle>{overdueClasses.length} class{overdueClasses.length > 1 ? 'es have' : ' has'} not submitted after the cut-off</AlertTitle>
+                <AlertDescription>
+                  {overdueClasses.map(cls => user.role === 'hod' ? cls.name : `${cls.name} (${cls.departmentName})`).join(', ')}
+                </AlertDescription>
+              </Alert>
+            )}
             <div className="rounded-md border max-h-96 overflow-y-auto">
                 <Table>
                     <TableHeader className="sticky top-0 z-10 bg-background">
                     <TableRow>
                         <TableHead>Department</TableHead>
                         <TableHead>Class</TableHead>
+                        <TableHead>Present</TableHead>
+                        <TableHead>Submitted At</TableHead>
+                        <TableHead>On Time / Late</TableHead>
                         <TableHead className="text-right">Status</TableHead>
                     </TableRow>
                     </TableHeader>
@@ -247,8 +306,20 @@ export function AttendanceStatus({ submissions, classes, departments, workingDay
                                     </TableCell>
                                 )}
                                 <TableCell>{cls.name}</TableCell>
+                                <TableCell>{cls.strength}</TableCell>
+                                <TableCell>{cls.submittedAt ? format(cls.submittedAt, 'hh:mm a') : '-'}</TableCell>
+                                <TableCell>
+                                    {getTimeliness(cls) === '-' ? '-' : (
+                                        <Badge variant={getTimeliness(cls) === 'On Time' ? 'secondary' : 'outline'} className={getTimeliness(cls) === 'On Time' ? '' : 'border-amber-500 text-amber-700'}>
+                                            {getTimeliness(cls)}
+                                        </Badge>
+                                    )}
+                                </TableCell>
                                 <TableCell className="text-right">
-                                    <Badge variant={cls.status === 'Submitted' ? 'default' : 'destructive'} className={cls.status === 'Submitted' ? 'bg-green-600' : ''}>
+                                    <Badge
+                                        variant={cls.status === 'Pending' ? 'destructive' : 'default'}
+                                        className={cls.status === 'Submitted' ? 'bg-green-600' : cls.status === 'Pending Sync' ? 'bg-amber-500' : ''}
+                                    >
                                         {cls.status}
                                     </Badge>
                                 </TableCell>
@@ -258,8 +329,14 @@ export function AttendanceStatus({ submissions, classes, departments, workingDay
                     </TableBody>
                 </Table>
             </div>
+          </div>
          )}
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
+
+function getTimeliness(cls: { status: string; isLate: boolean; isOverdue: boolean }) {
+  if (cls.status === 'Submitted') return cls.isLate ? 'Late' : 'On Time';
+  return cls.isOverdue ? 'Overdue' : '-';
+}
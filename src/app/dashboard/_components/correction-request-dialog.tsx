@@ -0,0 +1,184 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { specialAttendanceStatuses } from '@/lib/attendance';
+import type { AttendanceCorrection, AttendanceRecord, AttendanceSession, AttendanceSubmission, CorrectionType, Student } from '@/lib/types';
+
+export type CorrectionRequest = Pick<AttendanceCorrection, 'type' | 'studentId' | 'studentName' | 'registerNo' | 'gender' | 'recordId' | 'newStatus' | 'session' | 'reason'>;
+
+type CorrectionRequestDialogProps = {
+  isOpen: boolean;
+  setIsOpen: (open: boolean) => void;
+  submission: AttendanceSubmission;
+  students: Student[];
+  records: AttendanceRecord[]; // Absentee records belonging to the submission
+  onSubmit: (request: CorrectionRequest) => Promise<boolean>;
+};
+
+const correctionTypeLabels: Record<CorrectionType, string> = {
+  'add-absentee': 'Mark a present student as absent',
+  'remove-absentee': 'Mark an absentee as present',
+  'change-status': 'Change an absentee\'s status',
+};
+
+const WHOLE_DAY = 'whole-day'; // Select items cannot have an empty value
+
+const recordStatuses: AttendanceRecord['status'][] = ['Not Informed', 'Informed', 'Letter Given', ...specialAttendanceStatuses];
+
+export function CorrectionRequestDialog({ isOpen, setIsOpen, submission, students, records, onSubmit }: CorrectionRequestDialogProps) {
+  const [type, setType] = useState<CorrectionType>('add-absentee');
+  const [targetId, setTargetId] = useState('');
+  const [newStatus, setNewStatus] = useState<AttendanceRecord['status']>('Informed');
+  const [session, setSession] = useState<AttendanceSession | typeof WHOLE_DAY>(WHOLE_DAY);
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const presentStudents = useMemo(() => {
+    const absentIds = new Set(records.map(r => r.studentId));
+    return students.filter(s => !absentIds.has(s.id));
+  }, [students, records]);
+
+  const selectedRecord = records.find(r => r.id === targetId);
+  const selectedStudent = presentStudents.find(s => s.id === targetId);
+
+  const handleTypeChange = (value: string) => {
+    setType(value as CorrectionType);
+    setTargetId('');
+  };
+
+  const handleTargetChange = (value: string) => {
+    setTargetId(value);
+    const record = records.find(r => r.id === value);
+    if (record) {
+      setNewStatus(recordStatuses.find(s => s !== record.status) || 'Informed');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) return;
+
+    let request: CorrectionRequest | null = null;
+    if (type === 'add-absentee' && selectedStudent) {
+      request = {
+        type,
+        studentId: selectedStudent.id,
+        studentName: selectedStudent.name,
+        registerNo: selectedStudent.registerNo || 'N/A',
+        gender: selectedStudent.gender,
+        ...(submission.sessionAbsentCounts && session !== WHOLE_DAY && { session }),
+        reason: reason.trim(),
+      };
+    } else if (type !== 'add-absentee' && selectedRecord) {
+      request = {
+        type,
+        studentId: selectedRecord.studentId,
+        studentName: selectedRecord.studentName,
+        registerNo: selectedRecord.registerNo,
+        gender: selectedRecord.gender,
+        recordId: selectedRecord.id,
+        ...(type === 'change-status' && { newStatus }),
+        reason: reason.trim(),
+      };
+    }
+    if (!request) return;
+
+    setIsSubmitting(true);
+    const success = await onSubmit(request);
+    setIsSubmitting(false);
+    if (success) {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Request Correction</DialogTitle>
+          <DialogDescription>
+            Attendance for {format(parseISO(submission.date), 'PPP')}{submission.period ? ` (Period ${submission.period})` : ''} is locked. An admin or HOD will review your request.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="correctionType">Correction</Label>
+            <Select onValueChange={handleTypeChange} value={type}>
+              <SelectTrigger id="correctionType"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(correctionTypeLabels) as CorrectionType[]).map(t => (
+                  <SelectItem key={t} value={t} disabled={t !== 'add-absentee' && records.length === 0}>{correctionTypeLabels[t]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="correctionStudent">Student</Label>
+            <Select onValueChange={handleTargetChange} value={targetId}>
+              <SelectTrigger id="correctionStudent"><SelectValue placeholder="Select a student" /></SelectTrigger>
+              <SelectContent>
+                {type === 'add-absentee'
+                  ? presentStudents.map(s => (
+                      <SelectItem key={s.id} value={s.id}>{s.name} ({s.registerNo || 'N/A'})</SelectItem>
+                    ))
+                  : records.map(r => (
+                      <SelectItem key={r.id} value={r.id}>{r.studentName} ({r.registerNo || 'N/A'}){r.session ? ` - ${r.session}` : ''}</SelectItem>
+                    ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {type === 'add-absentee' && submission.sessionAbsentCounts && (
+            <div>
+              <Label htmlFor="correctionSession">Absent For</Label>
+              <Select onValueChange={(value) => setSession(value as AttendanceSession | typeof WHOLE_DAY)} value={session}>
+                <SelectTrigger id="correctionSession"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={WHOLE_DAY}>Whole day</SelectItem>
+                  <SelectItem value="FN">FN only</SelectItem>
+                  <SelectItem value="AN">AN only</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {type === 'change-status' && (
+            <div>
+              <Label htmlFor="correctionStatus">New Status</Label>
+              <Select onValueChange={(value) => setNewStatus(value as AttendanceRecord['status'])} value={newStatus}>
+                <SelectTrigger id="correctionStatus"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {recordStatuses.filter(s => s !== selectedRecord?.status).map(s => (
+                    <SelectItem key={s} value={s}>{s}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div>
+            <Label htmlFor="correctionReason">Reason</Label>
+            <Textarea id="correctionReason" value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Why does this attendance need to change?" required />
+          </div>
+          <DialogFooter>
+            <DialogClose asChild><Button type="button" variant="outline">Cancel</Button></DialogClose>
+            <Button type="submit" disabled={isSubmitting || !targetId || !reason.trim()}>
+              {isSubmitting ? 'Submitting...' : 'Submit Request'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
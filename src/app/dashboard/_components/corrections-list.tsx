@@ -0,0 +1,186 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Check, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import type { AttendanceCorrection, Class, Staff } from '@/lib/types';
+
+type CorrectionsListProps = {
+  corrections: AttendanceCorrection[];
+  classes: Class[];
+  user: Staff;
+  onReview?: (correction: AttendanceCorrection, approve: boolean, reviewNote: string) => Promise<void>;
+};
+
+const statusVariants: Record<AttendanceCorrection['status'], 'default' | 'secondary' | 'destructive'> = {
+  Pending: 'secondary',
+  Approved: 'default',
+  Rejected: 'destructive',
+};
+
+function describeCorrection(correction: AttendanceCorrection) {
+  switch (correction.type) {
+    case 'add-absentee':
+      return correction.session ? `Mark absent (${correction.session})` : 'Mark absent';
+    case 'remove-absentee':
+      return 'Mark present';
+    case 'change-status':
+      return `Status → ${correction.newStatus}`;
+  }
+}
+
+export function CorrectionsList({ corrections, classes, user, onReview }: CorrectionsListProps) {
+  const [statusFilter, setStatusFilter] = useState<'Pending' | 'all'>(onReview ? 'Pending' : 'all');
+  const [reviewing, setReviewing] = useState<{ correction: AttendanceCorrection; approve: boolean } | null>(null);
+  const [reviewNote, setReviewNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const canReview = (correction: AttendanceCorrection) =>
+    !!onReview && correction.status === 'Pending' &&
+    (user.role === 'admin' || (user.role === 'hod' && user.departmentId === correction.departmentId));
+
+  const filteredCorrections = useMemo(() => {
+    return statusFilter === 'all' ? corrections : corrections.filter(c => c.status === statusFilter);
+  }, [corrections, statusFilter]);
+
+  const openReview = (correction: AttendanceCorrection, approve: boolean) => {
+    setReviewNote('');
+    setReviewing({ correction, approve });
+  };
+
+  const handleConfirmReview = async () => {
+    if (!reviewing || !onReview) return;
+    setIsSaving(true);
+    await onReview(reviewing.correction, reviewing.approve, reviewNote.trim());
+    setIsSaving(false);
+    setReviewing(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <CardTitle>Attendance Corrections</CardTitle>
+          <CardDescription>
+            {onReview ? 'Review correction requests raised on submitted attendance.' : 'Correction requests you have raised and their review status.'}
+          </CardDescription>
+        </div>
+        <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as 'Pending' | 'all')}>
+          <SelectTrigger className="w-full sm:w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="Pending">Pending</SelectItem>
+            <SelectItem value="all">All Requests</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Class</TableHead>
+                <TableHead>Student</TableHead>
+                <TableHead>Change</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Requested By</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Action</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredCorrections.length > 0 ? (
+                filteredCorrections.map(correction => (
+                  <TableRow key={correction.id}>
+                    <TableCell>
+                      {format(parseISO(correction.date), 'PPP')}
+                      {correction.period && <div className="text-xs text-muted-foreground">Period {correction.period}</div>}
+                    </TableCell>
+                    <TableCell>{classes.find(c => c.id === correction.classId)?.name || correction.classId}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{correction.studentName}</div>
+                      <div className="text-xs text-muted-foreground">{correction.registerNo}</div>
+                    </TableCell>
+                    <TableCell>{describeCorrection(correction)}</TableCell>
+                    <TableCell className="max-w-[240px] whitespace-pre-wrap">{correction.reason}</TableCell>
+                    <TableCell>{correction.requestedByName}</TableCell>
+                    <TableCell>
+                      <Badge variant={statusVariants[correction.status]}>{correction.status}</Badge>
+                      {correction.reviewedBy && (
+                        <div className="text-xs text-muted-foreground mt-1">by {correction.reviewedBy}</div>
+                      )}
+                      {correction.reviewNote && (
+                        <div className="text-xs text-muted-foreground">{correction.reviewNote}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {canReview(correction) && (
+                        <div className="flex gap-2">
+                          <Button variant="outline" size="sm" onClick={() => openReview(correction, true)}>
+                            <Check className="mr-2 h-4 w-4" />
+                            Approve
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => openReview(correction, false)}>
+                            <X className="mr-2 h-4 w-4" />
+                            Reject
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={8} className="h-24 text-center">
+                    No correction requests found.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <Dialog open={!!reviewing} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{reviewing?.approve ? 'Approve Correction' : 'Reject Correction'}</DialogTitle>
+            <DialogDescription>
+              {reviewing?.approve
+                ? 'The attendance record and the class totals will be updated immediately.'
+                : 'The submitted attendance will stay as it is.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="reviewNote">Note (optional)</Label>
+            <Textarea id="reviewNote" value={reviewNote} onChange={(e) => setReviewNote(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <DialogClose asChild><Button type="button" variant="outline">Cancel</Button></DialogClose>
+            <Button onClick={handleConfirmReview} disabled={isSaving} variant={reviewing?.approve ? 'default' : 'destructive'}>
+              {isSaving ? 'Saving...' : reviewing?.approve ? 'Approve' : 'Reject'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -5,7 +5,7 @@ import { useState, useMemo, useEffect } from 'react';
 import { useForm, useFieldArray } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { Info, Users, CalendarX2, CheckCircle, UserCheck, UserX, CalendarIcon } from 'lucide-react';
+import { Info, Users, CalendarX2, CheckCircle, UserCheck, UserX, CalendarIcon, FilePenLine, CloudOff, AlertTriangle, Trash2 } from 'lucide-react';
 import { format, startOfDay } from 'date-fns';
 import { query, collection, where, getDocs, Timestamp } from 'firebase/firestore';
 
@@ -14,38 +14,68 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import type { AttendanceRecord, Department, Class, Student, WorkingDay, AttendanceSubmission } from '@/lib/types';
+import type { AttendanceRecord, Department, Class, Student, WorkingDay, AttendanceSubmission, AttendanceSettings, AttendanceSession, LeaveApplication, ClassAssignment } from '@/lib/types';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { Switch } from '@/components/ui/switch';
 import { useAuth } from '@/context/auth-context';
 import { useFirebase } from '@/firebase';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar } from '@/components/ui/calendar';
 import { cn } from '@/lib/utils';
+import { findApprovedLeave, getSubmissionId, getSubmissionRecords, isSpecialStatus, specialAttendanceStatuses } from '@/lib/attendance';
+import { Badge } from '@/components/ui/badge';
+import type { OutboxEntry } from '@/lib/outbox';
+import { isAssignmentActive } from '@/lib/assignments';
+import { createCalendarResolver } from '@/lib/calendar';
+import { getEnrolledClassId } from '@/lib/enrolment';
+import { CorrectionRequestDialog, type CorrectionRequest } from './correction-request-dialog';
 
 const studentAttendanceSchema = z.object({
   studentId: z.string(),
   studentName: z.string(),
   registerNo: z.string(),
   gender: z.enum(['MALE', 'FEMALE']),
-  status: z.enum(['Present', 'Absent']),
+  status: z.enum(['Present', 'Absent', 'Absent FN', 'Absent AN', 'On Duty', 'Medical Leave', 'Late']),
 });
 
 const formSchema = z.object({
   departmentId: z.string().min(1, 'Please select a department.'),
   classId: z.string().min(1, 'Please select a class.'),
   date: z.date(),
+  period: z.number().int().min(1),
   students: z.array(studentAttendanceSchema),
 });
 
 type EntryFormProps = {
-  onAddRecords: (records: Omit<AttendanceRecord, 'id' | 'timestamp'>[], submissionData: Omit<AttendanceSubmission, 'id'>) => Promise<boolean>;
+  onAddRecords: (records: Omit<AttendanceRecord, 'id' | 'timestamp'>[], submissionData: Omit<AttendanceSubmission, 'id'>) => Promise<'submitted' | 'queued' | false>;
   departments: Department[];
   classes: Class[];
   students: Student[];
   workingDays: WorkingDay[];
   submissions: AttendanceSubmission[];
+  settings: AttendanceSettings;
+  records: AttendanceRecord[];
+  leaves: LeaveApplication[];
+  assignments: ClassAssignment[]; // The teacher's own class assignments; empty for admins
+  pendingSubmissions: OutboxEntry[];
+  onDiscardPending: (id: string) => void;
+  onRequestCorrection: (submission: AttendanceSubmission, request: CorrectionRequest) => Promise<boolean>;
+};
+
+type StudentStatus = z.infer<typeof studentAttendanceSchema>['status'];
+
+const sessionByStatus: Partial<Record<StudentStatus, AttendanceSession>> = {
+  'Absent FN': 'FN',
+  'Absent AN': 'AN',
+};
+
+const statusClassNames: Partial<Record<StudentStatus, string>> = {
+  'Absent': 'text-destructive',
+  'Absent FN': 'text-orange-600',
+  'Absent AN': 'text-orange-600',
+  'On Duty': 'text-purple-600',
+  'Medical Leave': 'text-pink-600',
+  'Late': 'text-teal-600',
 };
 
 type SubmissionDetails = {
@@ -54,16 +84,20 @@ type SubmissionDetails = {
     total: number;
 } | null;
 
-export function EntryForm({ onAddRecords, departments, classes, students, workingDays, submissions }: EntryFormProps) {
+export function EntryForm({ onAddRecords, departments, classes, students, workingDays, submissions, settings, records, leaves, assignments, pendingSubmissions, onDiscardPending, onRequestCorrection }: EntryFormProps) {
   const { staff } = useAuth();
   const { firestore: db } = useFirebase();
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isAlreadySubmitted, setIsAlreadySubmitted] = useState(false);
   const [submissionDetails, setSubmissionDetails] = useState<SubmissionDetails>(null);
+  const [existingSubmission, setExistingSubmission] = useState<AttendanceSubmission | null>(null);
+  const [isCorrectionDialogOpen, setIsCorrectionDialogOpen] = useState(false);
 
   const isAdmin = staff?.role === 'admin';
   const isTeacher = staff?.role === 'teacher';
+  const isPeriodWise = settings.periodsPerDay > 1;
+  const isHalfDay = settings.halfDaySessions && !isPeriodWise;
   
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
@@ -71,6 +105,7 @@ export function EntryForm({ onAddRecords, departments, classes, students, workin
       departmentId: '',
       classId: '',
       date: new Date(),
+      period: 1,
       students: [],
     },
   });
@@ -83,19 +118,23 @@ export function EntryForm({ onAddRecords, departments, classes, students, workin
   const selectedDepartmentId = form.watch('departmentId');
   const selectedClassId = form.watch('classId');
   const selectedDate = form.watch('date');
+  const selectedPeriod = form.watch('period');
+  const selectedDateKey = selectedDate ? format(selectedDate, 'yyyy-MM-dd') : '';
 
   const isSelectedDateWorkingDay = useMemo(() => {
     if (!selectedDate) return false;
     const dateKey = format(selectedDate, 'yyyy-MM-dd');
-    const todaySetting = workingDays.find(d => d.id === dateKey);
-    return todaySetting?.isWorkingDay || false; 
-  }, [workingDays, selectedDate]);
+    // Until a class is picked, the department's calendar decides.
+    const calendar = createCalendarResolver(workingDays, classes, settings);
+    return calendar.isInstructional({ classId: selectedClassId || undefined, departmentId: selectedDepartmentId || undefined }, dateKey);
+  }, [workingDays, classes, settings, selectedDate, selectedClassId, selectedDepartmentId]);
 
   useEffect(() => {
     const checkSubmissionStatus = async () => {
         if (!selectedClassId || !selectedDepartmentId || !selectedDate) {
             setIsAlreadySubmitted(false);
             setSubmissionDetails(null);
+            setExistingSubmission(null);
             return;
         }
 
@@ -104,57 +143,80 @@ export function EntryForm({ onAddRecords, departments, classes, students, workin
         if (!selectedClass || !selectedDept) return;
         
         const dateString = format(selectedDate, 'yyyy-MM-dd');
-        const targetSubmission = submissions.find(s => s.classId === selectedClassId && s.date === dateString);
+        // A daily submission covers every period, so it also locks period-wise entry for that date.
+        const dailySubmissionId = getSubmissionId(selectedClassId, dateString);
+        const periodSubmissionId = isPeriodWise ? getSubmissionId(selectedClassId, dateString, selectedPeriod) : dailySubmissionId;
+        const targetSubmission = submissions.find(s => s.id === periodSubmissionId || s.id === dailySubmissionId);
 
         if (targetSubmission) {
-            const studentsInClass = students.filter(s => s.classId === selectedClass.id).length;
+            const studentsInClass = students.filter(s => getEnrolledClassId(s, dateString) === selectedClass.id).length;
             setSubmissionDetails({ 
                 present: targetSubmission.presentCount, 
                 absent: targetSubmission.absentCount, 
                 total: studentsInClass 
             });
             setIsAlreadySubmitted(true);
+            setExistingSubmission(targetSubmission);
         } else {
             setIsAlreadySubmitted(false);
             setSubmissionDetails(null);
+            setExistingSubmission(null);
         }
     };
     checkSubmissionStatus();
-  }, [selectedClassId, selectedDepartmentId, selectedDate, submissions, classes, departments, students]);
+  }, [selectedClassId, selectedDepartmentId, selectedDate, selectedPeriod, isPeriodWise, submissions, classes, departments, students]);
 
 
+  // A submission saved offline still blocks re-entry for the class and date until it syncs or is discarded.
+  const pendingEntry = useMemo(() => {
+    if (!selectedClassId || !selectedDateKey) return null;
+    const dailySubmissionId = getSubmissionId(selectedClassId, selectedDateKey);
+    const periodSubmissionId = isPeriodWise ? getSubmissionId(selectedClassId, selectedDateKey, selectedPeriod) : dailySubmissionId;
+    return pendingSubmissions.find(e => e.id === periodSubmissionId || e.id === dailySubmissionId) || null;
+  }, [pendingSubmissions, selectedClassId, selectedDateKey, selectedPeriod, isPeriodWise]);
+
+  // Substitute assignments only apply within their dates.
+  const activeAssignments = useMemo(() => {
+    return assignments.filter(a => isAssignmentActive(a, selectedDateKey) && classes.some(c => c.id === a.classId));
+  }, [assignments, selectedDateKey, classes]);
+
+  const selectTeacherClass = (classId: string) => {
+    const teacherClass = classes.find(c => c.id === classId);
+    if (teacherClass) {
+      form.setValue('departmentId', teacherClass.departmentId, { shouldValidate: true });
+      form.setValue('classId', teacherClass.id, { shouldValidate: true });
+    }
+  };
+
   useEffect(() => {
-    if (isTeacher && staff?.classId) {
-      const teacherClass = classes.find(c => c.id === staff.classId);
-      if (teacherClass) {
-        form.setValue('departmentId', teacherClass.departmentId, { shouldValidate: true });
-        form.setValue('classId', teacherClass.id, { shouldValidate: true });
-      }
+    if (isTeacher && activeAssignments.length > 0 && !activeAssignments.some(a => a.classId === form.getValues('classId'))) {
+      selectTeacherClass(activeAssignments[0].classId);
     }
-  }, [isTeacher, classes, staff?.classId, form]);
+  }, [isTeacher, activeAssignments, classes, form]);
 
   const availableClasses = useMemo(() => {
-    if (isTeacher) return classes.filter(c => c.id === staff?.classId);
+    if (isTeacher) return classes.filter(c => activeAssignments.some(a => a.classId === c.id));
     if (!selectedDepartmentId) return [];
     return classes.filter(c => c.departmentId === selectedDepartmentId);
-  }, [selectedDepartmentId, classes, isTeacher, staff?.classId]);
+  }, [selectedDepartmentId, classes, isTeacher, activeAssignments]);
   
+  // The roster for the date: late joiners appear from their joining date, and discontinued or long-absent students drop off.
   const classStudents = useMemo(() => {
-    const classIdToFilter = isTeacher ? staff?.classId : selectedClassId;
-    if (!classIdToFilter) return [];
-    return students.filter(s => s.classId === classIdToFilter).sort((a,b) => (a.registerNo || a.name).localeCompare(b.registerNo || b.name));
-  }, [selectedClassId, students, isTeacher, staff?.classId]);
+    if (!selectedClassId) return [];
+    return students.filter(s => getEnrolledClassId(s, selectedDateKey) === selectedClassId).sort((a,b) => (a.registerNo || a.name).localeCompare(b.registerNo || b.name));
+  }, [selectedClassId, selectedDateKey, students]);
 
+  // Students with an approved leave for the date start out absent; the teacher can still override.
   useEffect(() => {
     const studentData = classStudents.map(student => ({
         studentId: student.id,
         studentName: student.name,
         registerNo: student.registerNo || 'N/A',
         gender: student.gender,
-        status: 'Present' as 'Present' | 'Absent',
+        status: (findApprovedLeave(leaves, student.id, selectedDateKey) ? 'Absent' : 'Present') as StudentStatus,
     }));
     replace(studentData);
-  }, [classStudents, replace]);
+  }, [classStudents, leaves, selectedDateKey, replace]);
 
 
   async function onSubmit(values: z.infer<typeof formSchema>) {
@@ -164,7 +226,7 @@ export function EntryForm({ onAddRecords, departments, classes, students, workin
         return;
     }
     
-    if (isAlreadySubmitted) {
+    if (isAlreadySubmitted || pendingEntry) {
          toast({
             variant: "default",
             title: "Already Submitted",
@@ -174,7 +236,7 @@ export function EntryForm({ onAddRecords, departments, classes, students, workin
     }
     
     setIsSubmitting(true);
-    const absentStudents = values.students.filter(s => s.status === 'Absent');
+    const absentStudents = values.students.filter(s => s.status !== 'Present');
     const presentStudentsCount = values.students.length - absentStudents.length;
     
     const department = departments.find((d) => d.id === values.departmentId);
@@ -188,6 +250,7 @@ export function EntryForm({ onAddRecords, departments, classes, students, workin
 
     const dateString = format(values.date, 'yyyy-MM-dd');
     const now = new Date();
+    const assignment = activeAssignments.find(a => a.classId === cls.id);
     
     const submissionData: Omit<AttendanceSubmission, 'id'> = {
         classId: cls.id,
@@ -197,47 +260,91 @@ export function EntryForm({ onAddRecords, departments, classes, students, workin
         submittedAt: Timestamp.now(),
         presentCount: presentStudentsCount,
         absentCount: absentStudents.length,
+        ...(isPeriodWise && { period: values.period }),
+        ...(assignment && { assignmentId: assignment.id, assignmentRole: assignment.role }),
+        ...(isHalfDay && {
+            sessionAbsentCounts: {
+                FN: absentStudents.filter(s => s.status !== 'Absent AN').length,
+                AN: absentStudents.filter(s => s.status !== 'Absent FN').length,
+            },
+        }),
+        // Past reports count the class as it stood today, not as it is when they are opened.
+        roster: values.students.map(s => {
+            const student = classStudents.find(c => c.id === s.studentId);
+            return {
+                id: s.studentId,
+                name: s.studentName,
+                registerNo: s.registerNo,
+                gender: s.gender,
+                ...(student?.mentor && { mentor: student.mentor }),
+                ...(student?.admissionType && { admissionType: student.admissionType }),
+            };
+        }),
     }
 
-    const newRecords = absentStudents.map(student => ({
+    const newRecords = absentStudents.map(student => {
+      const leave = student.status === 'Absent' ? findApprovedLeave(leaves, student.studentId, dateString) : undefined;
+      return {
         studentId: student.studentId,
         studentName: student.studentName,
         registerNo: student.registerNo,
         gender: student.gender,
         departmentName: department.name,
         className: cls.name,
+        classId: cls.id,
         date: dateString,
+        ...(isPeriodWise && { period: values.period }),
+        ...(sessionByStatus[student.status] && { session: sessionByStatus[student.status] }),
         time: format(now, 'hh:mm:ss a'),
         markedBy: staff?.name || 'Unknown',
-        status: 'Not Informed' as 'Informed' | 'Not Informed' | 'Letter Given',
-    }));
+        // OD, Medical Leave and Late are stored as the record status; absences covered by an approved
+        // leave are already explained, and other absences start as 'Not Informed'.
+        status: isSpecialStatus(student.status) ? student.status : leave ? 'Letter Given' : 'Not Informed' as AttendanceRecord['status'],
+        ...(leave && { leaveId: leave.id, reason: leave.reason }),
+      };
+    });
     
-    const success = await onAddRecords(newRecords, submissionData);
+    const result = await onAddRecords(newRecords, submissionData);
 
-    if (success) {
+    if (result) {
         toast({
-            title: 'Success!',
-            description: `Attendance submitted for ${cls.name} on ${format(values.date, 'PPP')}. ${absentStudents.length} absent, ${presentStudentsCount} present.`,
+            title: result === 'queued' ? 'Saved Offline' : 'Success!',
+            description: result === 'queued'
+                ? `You are offline. Attendance for ${cls.name} on ${format(values.date, 'PPP')} is saved on this device and will sync when the connection returns.`
+                : `Attendance submitted for ${cls.name} on ${format(values.date, 'PPP')}${isPeriodWise ? ` (Period ${values.period})` : ''}. ${absentStudents.length} absent, ${presentStudentsCount} present.`,
         });
         
         if (!isTeacher) {
-            form.reset({ departmentId: '', classId: '', date: values.date, students: [] });
+            form.reset({ departmentId: '', classId: '', date: values.date, period: values.period, students: [] });
             replace([]);
         }
     }
     setIsSubmitting(false);
   }
   
-  const isFormDisabled = isSubmitting || !isSelectedDateWorkingDay || isAlreadySubmitted;
-  const assignedClass = isTeacher ? classes.find(c => c.id === staff?.classId) : null;
-  const assignedDepartment = isTeacher && assignedClass ? departments.find(d => d.id === assignedClass.departmentId) : null;
+  const isFormDisabled = isSubmitting || !isSelectedDateWorkingDay || isAlreadySubmitted || !!pendingEntry;
+  const existingSubmissionClass = existingSubmission ? classes.find(c => c.id === existingSubmission.classId) : null;
+  const currentAssignment = isTeacher ? activeAssignments.find(a => a.classId === selectedClassId) : null;
+  const assignedClass = currentAssignment ? classes.find(c => c.id === currentAssignment.classId) : null;
+  const assignedDepartment = assignedClass ? departments.find(d => d.id === assignedClass.departmentId) : null;
 
   return (
     <Card className="shadow-lg">
       <CardHeader>
-        <CardTitle className="font-headline text-2xl">Mark Class Attendance</CardTitle>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="font-headline text-2xl">Mark Class Attendance</CardTitle>
+          {pendingSubmissions.length > 0 && (
+            <Badge variant="outline" className="border-amber-500 text-amber-700">
+              <CloudOff className="mr-1 h-3 w-3" /> {pendingSubmissions.length} pending sync
+            </Badge>
+          )}
+        </div>
         <CardDescription>
-          {isTeacher && assignedClass ? `You are assigned to class: ${assignedClass.name} (${assignedDepartment?.name})` : 'Select a date, department and class to take attendance.'}
+          {isTeacher && activeAssignments.length > 1
+            ? `You cover ${activeAssignments.length} classes today. Choose the class you are taking attendance for.`
+            : isTeacher && assignedClass && currentAssignment
+              ? `You are assigned to class: ${assignedClass.name} (${assignedDepartment?.name}) as ${currentAssignment.role}`
+              : 'Select a date, department and class to take attendance.'}
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -250,6 +357,30 @@ export function EntryForm({ onAddRecords, departments, classes, students, workin
               </AlertDescription>
             </Alert>
         )}
+        {pendingEntry && (pendingEntry.conflict ? (
+            <Alert variant="destructive" className="mb-6">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Sync Conflict</AlertTitle>
+              <AlertDescription>
+                <p>
+                  While you were offline, {pendingEntry.conflict.submittedBy} submitted attendance for this class at {format(new Date(pendingEntry.conflict.submittedAt), 'PPP p')}
+                  {' '}({pendingEntry.conflict.presentCount} present, {pendingEntry.conflict.absentCount} absent).
+                  Your entry ({pendingEntry.records.length} absent) was not saved. Discard it and request a correction if their entry is wrong.
+                </p>
+                <Button type="button" variant="outline" size="sm" className="mt-2" onClick={() => onDiscardPending(pendingEntry.id)}>
+                  <Trash2 className="mr-2 h-4 w-4" /> Discard My Entry
+                </Button>
+              </AlertDescription>
+            </Alert>
+        ) : (
+            <Alert className="mb-6 border-amber-200 bg-amber-50 text-amber-800 [&>svg]:text-amber-600">
+              <CloudOff className="h-4 w-4" />
+              <AlertTitle>Pending Sync</AlertTitle>
+              <AlertDescription>
+                Attendance for this class was saved on this device at {format(new Date(pendingEntry.queuedAt), 'p')} ({pendingEntry.records.length} absent) and will be submitted when you are back online.
+              </AlertDescription>
+            </Alert>
+        ))}
          {isAlreadySubmitted && submissionDetails && (
              <Alert variant="default" className="mb-6 bg-green-50 border-green-200 text-green-800 dark:bg-green-950 dark:text-green-200 dark:border-green-800 [&>svg]:text-green-600">
                 <div className="flex flex-col space-y-4">
@@ -258,9 +389,15 @@ export function EntryForm({ onAddRecords, departments, classes, students, workin
                         <div className="ml-4">
                             <AlertTitle>Attendance Already Submitted</AlertTitle>
                             <AlertDescription>
-                                Attendance has been marked for this class on {format(selectedDate, 'PPP')}.
+                                Attendance has been marked for this class on {format(selectedDate, 'PPP')}{isPeriodWise ? ` for period ${selectedPeriod}` : ''}.
                             </AlertDescription>
                         </div>
+                        {existingSubmission && (
+                            <Button type="button" variant="outline" size="sm" className="ml-auto" onClick={() => setIsCorrectionDialogOpen(true)}>
+                                <FilePenLine className="mr-2 h-4 w-4" />
+                                Request Correction
+                            </Button>
+                        )}
                     </div>
                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                         <Card className="bg-green-100 dark:bg-green-900 border-green-300 dark:border-green-700">
@@ -334,6 +471,33 @@ export function EntryForm({ onAddRecords, departments, classes, students, workin
                 />
               )}
 
+              {isTeacher && activeAssignments.length > 1 && (
+                <FormField
+                  control={form.control}
+                  name="classId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Class</FormLabel>
+                      <Select onValueChange={selectTeacherClass} value={field.value} disabled={isSubmitting}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select Class" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {activeAssignments.map(a => (
+                            <SelectItem key={a.id} value={a.classId}>
+                              {classes.find(c => c.id === a.classId)?.name} ({a.role})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
               {!isTeacher && (
                 <>
                   <FormField
@@ -394,6 +558,35 @@ export function EntryForm({ onAddRecords, departments, classes, students, workin
                   />
                 </>
               )}
+
+              {isPeriodWise && (
+                <FormField
+                  control={form.control}
+                  name="period"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Period</FormLabel>
+                      <Select
+                        onValueChange={(value) => field.onChange(Number(value))}
+                        value={String(field.value)}
+                        disabled={isSubmitting}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select Period" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Array.from({ length: settings.periodsPerDay }, (_, i) => i + 1).map((period) => (
+                            <SelectItem key={period} value={String(period)}>Period {period}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
             </div>
 
             {fields.length > 0 && (
@@ -413,23 +606,42 @@ export function EntryForm({ onAddRecords, departments, classes, students, workin
                             <TableBody>
                                 {fields.map((field, index) => (
                                     <TableRow key={field.id}>
-                                        <TableCell className="font-medium">{(form.getValues(`students.${index}.studentName`))}</TableCell>
+                                        <TableCell className="font-medium">
+                                            {(form.getValues(`students.${index}.studentName`))}
+                                            {findApprovedLeave(leaves, field.studentId, selectedDateKey) && (
+                                                <Badge variant="secondary" className="ml-2">On Leave</Badge>
+                                            )}
+                                        </TableCell>
                                         <TableCell className="text-right">
                                             <FormField
                                                 control={form.control}
                                                 name={`students.${index}.status`}
-                                                render={({ field: switchField }) => (
+                                                render={({ field: statusField }) => (
                                                     <FormItem className="flex items-center justify-end">
-                                                        <FormControl>
-                                                            <Switch
-                                                                id={`status-${field.id}`}
-                                                                checked={switchField.value === 'Present'}
-                                                                onCheckedChange={(checked) => {
-                                                                    switchField.onChange(checked ? 'Present' : 'Absent');
-                                                                }}
-                                                                disabled={isFormDisabled}
-                                                            />
-                                                        </FormControl>
+                                                        <Select
+                                                            onValueChange={statusField.onChange}
+                                                            value={statusField.value}
+                                                            disabled={isFormDisabled}
+                                                        >
+                                                            <FormControl>
+                                                                <SelectTrigger className={cn("w-[170px]", statusClassNames[statusField.value])}>
+                                                                    <SelectValue />
+                                                                </SelectTrigger>
+                                                            </FormControl>
+                                                            <SelectContent>
+                                                                <SelectItem value="Present">Present</SelectItem>
+                                                                <SelectItem value="Absent">{isHalfDay ? 'Absent (Full Day)' : 'Absent'}</SelectItem>
+                                                                {isHalfDay && (
+                                                                    <>
+                                                                        <SelectItem value="Absent FN">Absent FN only</SelectItem>
+                                                                        <SelectItem value="Absent AN">Absent AN only</SelectItem>
+                                                                    </>
+                                                                )}
+                                                                {specialAttendanceStatuses.map(status => (
+                                                                    <SelectItem key={status} value={status}>{status}</SelectItem>
+                                                                ))}
+                                                            </SelectContent>
+                                                        </Select>
                                                     </FormItem>
                                                 )}
                                             />
@@ -445,13 +657,23 @@ export function EntryForm({ onAddRecords, departments, classes, students, workin
             {fields.length > 0 && (
                 <div className="flex justify-end">
                 <Button type="submit" className="bg-accent hover:bg-accent/90 w-full md:w-auto" disabled={isFormDisabled}>
-                    {isSubmitting ? 'Submitting...' : isAlreadySubmitted ? 'Already Submitted' : 'Submit Attendance'}
+                    {isSubmitting ? 'Submitting...' : isAlreadySubmitted ? 'Already Submitted' : pendingEntry ? 'Pending Sync' : 'Submit Attendance'}
                 </Button>
                 </div>
             )}
           </form>
         </Form>
       </CardContent>
+      {isCorrectionDialogOpen && existingSubmission && existingSubmissionClass && (
+        <CorrectionRequestDialog
+          isOpen={isCorrectionDialogOpen}
+          setIsOpen={setIsCorrectionDialogOpen}
+          submission={existingSubmission}
+          students={classStudents}
+          records={getSubmissionRecords(records, existingSubmission, existingSubmissionClass.name)}
+          onSubmit={(request) => onRequestCorrection(existingSubmission, request)}
+        />
+      )}
     </Card>
   );
 }
@@ -0,0 +1,158 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { toDate } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { AttendanceRecord, ContactAttempt, ContactOutcome } from '@/lib/types';
+import { isSpecialStatus } from '@/lib/attendance';
+
+export type FollowUpUpdate = {
+  status?: AttendanceRecord['status'];
+  reason?: string;
+  contactAttempt?: Pick<ContactAttempt, 'outcome' | 'note'>;
+};
+
+type FollowUpDialogProps = {
+  isOpen: boolean;
+  setIsOpen: (open: boolean) => void;
+  record: AttendanceRecord;
+  onSave: (record: AttendanceRecord, update: FollowUpUpdate) => Promise<boolean>;
+};
+
+export const followUpStatuses: AttendanceRecord['status'][] = ['Not Informed', 'Informed', 'Letter Given'];
+const contactOutcomes: ContactOutcome[] = ['Reached', 'No Answer', 'Switched Off', 'Wrong Number'];
+
+export function FollowUpDialog({ isOpen, setIsOpen, record, onSave }: FollowUpDialogProps) {
+  const [status, setStatus] = useState(record.status);
+  const [reason, setReason] = useState(record.reason || '');
+  const [outcome, setOutcome] = useState<ContactOutcome | ''>('');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const contactLog = [...(record.contactLog || [])].sort((a, b) => toDate(b.time).getTime() - toDate(a.time).getTime());
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const update: FollowUpUpdate = {};
+    if (status !== record.status) update.status = status;
+    if (reason.trim() !== (record.reason || '')) update.reason = reason.trim();
+    if (outcome) update.contactAttempt = { outcome, ...(note.trim() && { note: note.trim() }) };
+    if (Object.keys(update).length === 0) {
+      setIsOpen(false);
+      return;
+    }
+
+    setIsSaving(true);
+    const success = await onSave(record, update);
+    setIsSaving(false);
+    if (success) {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Follow Up: {record.studentName}</DialogTitle>
+          <DialogDescription>
+            {record.registerNo || 'N/A'} · {record.className} · Absent on {format(toDate(record.timestamp), 'PPP')}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="followUpStatus">Status</Label>
+              <Select onValueChange={(value) => setStatus(value as AttendanceRecord['status'])} value={status} disabled={isSpecialStatus(record.status)}>
+                <SelectTrigger id="followUpStatus"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(isSpecialStatus(record.status) ? [record.status] : followUpStatuses).map(s => (
+                    <SelectItem key={s} value={s}>{s}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="followUpReason">Reason for Absence</Label>
+              <Input id="followUpReason" value={reason} onChange={(e) => setReason(e.target.value)} placeholder="e.g., Fever, family function" />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Parent Contact Log</Label>
+            <div className="rounded-md border max-h-48 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Called By</TableHead>
+                    <TableHead>Outcome</TableHead>
+                    <TableHead>Note</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {contactLog.length > 0 ? (
+                    contactLog.map((attempt, index) => (
+                      <TableRow key={index}>
+                        <TableCell>{format(toDate(attempt.time), 'dd MMM, hh:mm a')}</TableCell>
+                        <TableCell>{attempt.calledBy}</TableCell>
+                        <TableCell>{attempt.outcome}</TableCell>
+                        <TableCell>{attempt.note || '-'}</TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={4} className="h-16 text-center text-muted-foreground">
+                        No calls logged yet.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="contactOutcome">Log a Call</Label>
+              <Select onValueChange={(value) => setOutcome(value as ContactOutcome)} value={outcome}>
+                <SelectTrigger id="contactOutcome"><SelectValue placeholder="Outcome" /></SelectTrigger>
+                <SelectContent>
+                  {contactOutcomes.map(o => (
+                    <SelectItem key={o} value={o}>{o}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="sm:col-span-2">
+              <Label htmlFor="contactNote">Call Note</Label>
+              <Textarea id="contactNote" rows={1} value={note} onChange={(e) => setNote(e.target.value)} disabled={!outcome} placeholder="What did the parent say?" />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <DialogClose asChild><Button type="button" variant="outline">Cancel</Button></DialogClose>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
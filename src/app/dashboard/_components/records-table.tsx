@@ -294,6 +294,12 @@ export function RecordsTable({ records, loading, departments, classes, students
         return 'bg-yellow-100 text-yellow-800';
       case 'Letter Given':
         return 'bg-blue-100 text-blue-800';
+      case 'On Duty':
+        return 'bg-purple-100 text-purple-800';
+      case 'Medical Leave':
+        return 'bg-pink-100 text-pink-800';
+      case 'Late':
+        return 'bg-teal-100 text-teal-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -425,6 +431,9 @@ export function RecordsTable({ records, loading, departments, classes, students
                           <SelectItem value="Informed">Informed</SelectItem>
                           <SelectItem value="Not Informed">Not Informed</SelectItem>
                           <SelectItem value="Letter Given">Letter Given</SelectItem>
+                          <SelectItem value="On Duty">On Duty</SelectItem>
+                          <SelectItem value="Medical Leave">Medical Leave</SelectItem>
+                          <SelectItem value="Late">Late</SelectItem>
                       </SelectContent>
                   </Select>
               </div>
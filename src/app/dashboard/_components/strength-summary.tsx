@@ -2,7 +2,7 @@
 'use client';
 
 import { useMemo, useState, useEffect } from 'react';
-import type { AttendanceRecord, Class, Department, Student } from '@/lib/types';
+import type { AttendanceRecord, AttendanceSettings, AttendanceSubmission, Class, Department, Student } from '@/lib/types';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -23,9 +23,13 @@ import {
 } from "@/components/ui/dialog";
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
+import { getStudentDayAbsences, getStudentDayKey } from '@/lib/attendance';
+import { createRosterIndex, getStudentsOnDate } from '@/lib/roster';
 
 type StrengthSummaryProps = {
   records: AttendanceRecord[];
+  submissions: AttendanceSubmission[];
+  settings: AttendanceSettings;
   students: Student[];
   classes: Class[];
   departments: Department[];
@@ -46,7 +50,7 @@ type SelectedItemInfo = {
 } | null;
 
 
-export function StrengthSummary({ records, students, classes, departments }: StrengthSummaryProps) {
+export function StrengthSummary({ records, submissions, settings, students: allStudents, classes, departments }: StrengthSummaryProps) {
   const [isTotalPresentFlipped, setIsTotalPresentFlipped] = useState(false);
   const [isTotalAbsentFlipped, setIsTotalAbsentFlipped] = useState(false);
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(new Date());
@@ -68,27 +72,38 @@ export function StrengthSummary({ records, students, classes, departments }: Str
       });
   }, []);
 
+  const rosterIndex = useMemo(() => createRosterIndex(submissions), [submissions]);
+
+  // The strength on a date is the class rosters captured when attendance was submitted that day, or the students
+  // enrolled then for classes without one.
+  const students = useMemo(() => {
+    if (!selectedDate) return allStudents;
+    return getStudentsOnDate(allStudents, classes, rosterIndex, format(selectedDate, 'yyyy-MM-dd'));
+  }, [allStudents, classes, rosterIndex, selectedDate]);
+
   const dailyRecords = useMemo(() => {
     if (!selectedDate) return [];
     return records.filter(record => isSameDay(new Date(record.timestamp), selectedDate))
   }, [records, selectedDate]);
 
   const absentStudentIdsOnSelectedDate = useMemo(() => {
+    // Half-day absentees are still listed as absent for the day's head count.
+    const absences = getStudentDayAbsences(dailyRecords, submissions, settings);
     const uniqueAbsentees = new Set<string>();
     dailyRecords.forEach(r => {
-        if(r.studentId !== 'placeholder_all_present') {
+        if (absences.has(getStudentDayKey(r.studentId, r.date))) {
             uniqueAbsentees.add(r.studentId);
         }
     });
     return uniqueAbsentees;
-  }, [dailyRecords]);
+  }, [dailyRecords, submissions, settings]);
 
   const { totalStudents, totalPresent, totalAbsent, presentBoys, presentGirls, absentBoys, absentGirls } = useMemo(() => {
     const totalStudents = students.length;
-    const totalAbsent = absentStudentIdsOnSelectedDate.size;
+    const absentStudentsList = students.filter(s => absentStudentIdsOnSelectedDate.has(s.id));
+    const totalAbsent = absentStudentsList.length;
     const totalPresent = totalStudents - totalAbsent;
 
-    const absentStudentsList = students.filter(s => absentStudentIdsOnSelectedDate.has(s.id));
     const absentBoys = absentStudentsList.filter(s => s.gender === 'MALE').length;
     const absentGirls = absentStudentsList.filter(s => s.gender === 'FEMALE').length;
 
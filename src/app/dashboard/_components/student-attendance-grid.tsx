@@ -2,24 +2,35 @@
 'use client';
 
 import { useMemo } from 'react';
-import { eachDayOfInterval, startOfYear, endOfYear, format, getMonth, getDay, isSunday, getWeek, startOfMonth } from 'date-fns';
+import { eachDayOfInterval, startOfYear, endOfYear, format, getMonth, getDay, getWeek, startOfMonth } from 'date-fns';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Tooltip, TooltipProvider, TooltipTrigger, TooltipContent } from '@/components/ui/tooltip';
 import { motion } from 'framer-motion';
-import type { AttendanceRecord, Student, WorkingDay, AttendanceSubmission } from '@/lib/types';
+import type { AttendanceRecord, Class, Student, WorkingDay, AttendanceSubmission, AttendanceSettings, SpecialAttendanceStatus } from '@/lib/types';
 import { Progress } from '@/components/ui/progress';
 import { cn } from '@/lib/utils';
+import { getStudentDayAbsences, getStudentDayKey, getStudentDayStatuses } from '@/lib/attendance';
+import { createCalendarResolver } from '@/lib/calendar';
+import { getEnrolledClassId } from '@/lib/enrolment';
 
 type GridProps = {
   student: Student;
   records: AttendanceRecord[];
   workingDays: WorkingDay[];
+  classes: Class[];
   submissions: AttendanceSubmission[];
+  settings: AttendanceSettings;
 };
 
 type ContentProps = GridProps & { isPdf?: boolean };
 
-export function StudentAttendanceGridContent({ student, records, workingDays, submissions, isPdf = false }: ContentProps) {
+const specialStatusKeys: Record<SpecialAttendanceStatus, string> = {
+  'On Duty': 'on-duty',
+  'Medical Leave': 'medical-leave',
+  'Late': 'late-arrival',
+};
+
+export function StudentAttendanceGridContent({ student, records, workingDays, classes, submissions, settings, isPdf = false }: ContentProps) {
   const today = new Date();
   
   const { days, months, monthlyAttendance, overallPercentage } = useMemo(() => {
@@ -28,36 +39,46 @@ export function StudentAttendanceGridContent({ student, records, workingDays, su
 
     const dayObjects = eachDayOfInterval({ start: yearStart, end: yearEnd });
 
-    const attendanceMap = new Map<string, { status: 'absent' | 'late' }>();
+    const absences = getStudentDayAbsences(records, submissions, settings);
+    const specialStatuses = getStudentDayStatuses(records);
+    const attendanceMap = new Map<string, { status: string; absence: number }>();
     records.forEach(record => {
-      const dateKey = format(new Date(record.timestamp), 'yyyy-MM-dd');
-      attendanceMap.set(dateKey, { status: 'late' });
+      const key = getStudentDayKey(student.id, record.date);
+      const absence = absences.get(key) ?? 0;
+      const specialStatus = specialStatuses.get(key);
+      // OD, Medical Leave and Late keep their own colour; the settings only decide the credit.
+      if (specialStatus) {
+        attendanceMap.set(record.date, { status: specialStatusKeys[specialStatus], absence });
+      } else if (absence) {
+        attendanceMap.set(record.date, { status: absence < 1 ? 'half-day' : 'late', absence });
+      }
     });
     
-    const workingDaysMap = new Map<string, boolean>();
-    workingDays.forEach(wd => {
-        workingDaysMap.set(format(wd.timestamp, 'yyyy-MM-dd'), wd.isWorkingDay);
-    });
+    const calendar = createCalendarResolver(workingDays, classes, settings);
 
-    const submissionMap = new Map<string, boolean>();
-    submissions.forEach(sub => {
-        if (sub.classId === student.classId) {
-            submissionMap.set(sub.date, true);
-        }
-    });
+    // A transferred student follows each class's calendar and submissions for the days they were in it.
+    const submittedKeys = new Set(submissions.map(sub => `${sub.classId}_${sub.date}`));
+    const getDayInfo = (dateKey: string) => {
+        const classId = getEnrolledClassId(student, dateKey);
+        return {
+            isEnrolled: !!classId,
+            isWorkingDay: !!classId && calendar.isInstructional({ classId }, dateKey),
+            isSubmitted: !!classId && submittedKeys.has(`${classId}_${dateKey}`),
+        };
+    };
 
     const days = dayObjects.map(day => {
       const dateKey = format(day, 'yyyy-MM-dd');
       const record = attendanceMap.get(dateKey);
       const isFuture = day > today;
-      const dayIsSunday = isSunday(day);
-      const isWorkingDay = workingDaysMap.get(dateKey) ?? false;
-      const isSubmitted = submissionMap.get(dateKey) ?? false;
+      const { isEnrolled, isWorkingDay, isSubmitted } = getDayInfo(dateKey);
 
       let dayStatus = 'present';
       if (isFuture) {
           dayStatus = 'default';
-      } else if (dayIsSunday || !isWorkingDay) {
+      } else if (!isEnrolled) {
+          dayStatus = 'not-enrolled';
+      } else if (!isWorkingDay) {
           dayStatus = 'holiday';
       } else if (!isSubmitted) {
           dayStatus = 'not-submitted';
@@ -88,17 +109,14 @@ export function StudentAttendanceGridContent({ student, records, workingDays, su
     yearDays.forEach(day => {
         const dateKey = format(day, 'yyyy-MM-dd');
         const record = attendanceMap.get(dateKey);
-        const dayIsSunday = isSunday(day);
-        const isWorkingDay = workingDaysMap.get(dateKey) ?? false;
-        const isSubmitted = submissionMap.get(dateKey) ?? false;
+        const { isWorkingDay, isSubmitted } = getDayInfo(dateKey);
 
-      if (day <= today && !dayIsSunday && isWorkingDay && isSubmitted) {
+      if (day <= today && isWorkingDay && isSubmitted) {
         monthlyStats[getMonth(day)].total++;
         totalWorkingDays++;
-        if (!record) {
-          monthlyStats[getMonth(day)].present++;
-          totalPresentDays++;
-        }
+        const presentCredit = 1 - (record?.absence ?? 0);
+        monthlyStats[getMonth(day)].present += presentCredit;
+        totalPresentDays += presentCredit;
       }
     });
 
@@ -115,18 +133,28 @@ export function StudentAttendanceGridContent({ student, records, workingDays, su
 
 
     return { days, months: monthLabels, monthlyAttendance, overallPercentage };
-  }, [records, today, workingDays, submissions, student.classId]);
+  }, [records, today, workingDays, classes, submissions, settings, student.id, student.classId]);
 
   const getDayColor = (status: string) => {
     switch (status) {
       case 'late':
         return 'bg-red-500';
+      case 'half-day':
+        return 'bg-orange-400';
+      case 'on-duty':
+        return 'bg-purple-500';
+      case 'medical-leave':
+        return 'bg-pink-400';
+      case 'late-arrival':
+        return 'bg-teal-500';
       case 'present':
         return 'bg-green-500';
       case 'holiday':
         return 'bg-blue-300 dark:bg-blue-800';
       case 'not-submitted':
         return 'bg-yellow-400 dark:bg-yellow-700';
+      case 'not-enrolled':
+        return 'bg-slate-400 dark:bg-slate-500';
       default:
         return 'bg-gray-200 dark:bg-gray-700';
     }
@@ -175,6 +203,22 @@ export function StudentAttendanceGridContent({ student, records, workingDays, su
                     <div className="w-3 h-3 rounded-sm bg-red-500" />
                     <span>Absent</span>
                 </div>
+                <div className="flex items-center gap-2">
+                    <div className="w-3 h-3 rounded-sm bg-orange-400" />
+                    <span>Half Day</span>
+                </div>
+                <div className="flex items-center gap-2">
+                    <div className="w-3 h-3 rounded-sm bg-purple-500" />
+                    <span>On Duty ({settings.countsAsPresent['On Duty'] ? 'Present' : 'Absent'})</span>
+                </div>
+                <div className="flex items-center gap-2">
+                    <div className="w-3 h-3 rounded-sm bg-pink-400" />
+                    <span>Medical Leave ({settings.countsAsPresent['Medical Leave'] ? 'Present' : 'Absent'})</span>
+                </div>
+                <div className="flex items-center gap-2">
+                    <div className="w-3 h-3 rounded-sm bg-teal-500" />
+                    <span>Late ({settings.countsAsPresent['Late'] ? 'Present' : 'Absent'})</span>
+                </div>
                 <div className="flex items-center gap-2">
                     <div className="w-3 h-3 rounded-sm bg-yellow-400" />
                     <span>Not Submitted</span>
@@ -183,6 +227,10 @@ export function StudentAttendanceGridContent({ student, records, workingDays, su
                     <div className="w-3 h-3 rounded-sm bg-blue-300 dark:bg-blue-800" />
                     <span>Holiday</span>
                 </div>
+                <div className="flex items-center gap-2">
+                    <div className="w-3 h-3 rounded-sm bg-slate-400 dark:bg-slate-500" />
+                    <span>Not Enrolled</span>
+                </div>
             </div>
             
             <TooltipProvider>
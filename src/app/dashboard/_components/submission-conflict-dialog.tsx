@@ -0,0 +1,93 @@
+'use client';
+
+import { format, parseISO } from 'date-fns';
+import { Timestamp } from 'firebase/firestore';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { AttendanceRecord, AttendanceSubmission } from '@/lib/types';
+
+export type SubmissionConflict = {
+  existing: AttendanceSubmission;
+  submittedByName: string;
+  records: AttendanceRecord[]; // absentee records of the existing submission
+  attempted: { presentCount: number; absentCount: number };
+  className: string;
+};
+
+type SubmissionConflictDialogProps = {
+  conflict: SubmissionConflict;
+  setIsOpen: (open: boolean) => void;
+};
+
+export function SubmissionConflictDialog({ conflict, setIsOpen }: SubmissionConflictDialogProps) {
+  const { existing, submittedByName, records, attempted, className } = conflict;
+  const submittedAt = existing.submittedAt instanceof Timestamp ? existing.submittedAt.toDate() : new Date(existing.submittedAt);
+
+  return (
+    <Dialog open onOpenChange={setIsOpen}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Attendance Already Submitted</DialogTitle>
+          <DialogDescription>
+            {submittedByName} submitted attendance for {className} on {format(parseISO(existing.date), 'PPP')}
+            {existing.period ? ` (Period ${existing.period})` : ''} at {format(submittedAt, 'p')}, before your entry was saved.
+            Your entry was not recorded.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          <div className="rounded-md border p-3">
+            <div className="font-medium">Recorded by {submittedByName}</div>
+            <div className="text-muted-foreground">{existing.presentCount} present, {existing.absentCount} absent</div>
+          </div>
+          <div className="rounded-md border p-3">
+            <div className="font-medium">Your entry</div>
+            <div className="text-muted-foreground">{attempted.presentCount} present, {attempted.absentCount} absent</div>
+          </div>
+        </div>
+        <div className="rounded-md border max-h-64 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Register No.</TableHead>
+                <TableHead>Student</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {records.length > 0 ? (
+                records.map(record => (
+                  <TableRow key={record.id}>
+                    <TableCell>{record.registerNo || 'N/A'}</TableCell>
+                    <TableCell>{record.studentName}</TableCell>
+                    <TableCell>{record.session ? `${record.status} (${record.session})` : record.status}</TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={3} className="h-16 text-center text-muted-foreground">
+                    No absentees were recorded.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          If their entry is wrong, use Request Correction on the submitted attendance instead of submitting again.
+        </p>
+        <DialogFooter>
+          <DialogClose asChild><Button type="button">OK</Button></DialogClose>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
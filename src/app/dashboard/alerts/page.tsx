@@ -0,0 +1,352 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { collection, getDocs, doc, updateDoc, runTransaction, query, orderBy, where } from 'firebase/firestore';
+import { useFirebase } from '@/firebase';
+import { useAuth } from '@/context/auth-context';
+import { useRouter } from 'next/navigation';
+import { format, parseISO } from 'date-fns';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import type { AbsenceAlert, AttendanceRecord, AttendanceSubmission, Class, Student } from '@/lib/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Check, CheckCheck } from 'lucide-react';
+import { Skeleton } from '@/components/ui/skeleton';
+import { fetchAttendanceSettings } from '@/lib/settings';
+import { detectAbsenceAlerts, getAlertWindowStart } from '@/lib/alerts';
+import { createCalendarResolver, fetchCalendarDays } from '@/lib/calendar';
+import { toDate } from '@/lib/utils';
+
+type StatusFilter = 'active' | AbsenceAlert['status'] | 'all';
+
+const statusVariants: Record<AbsenceAlert['status'], 'default' | 'secondary' | 'destructive'> = {
+  Open: 'destructive',
+  Acknowledged: 'secondary',
+  Closed: 'default',
+};
+
+function describeAlert(alert: AbsenceAlert) {
+  switch (alert.type) {
+    case 'Consecutive':
+      return `Absent ${alert.dates.length} consecutive working days`;
+    case 'Monday':
+      return `Absent on ${alert.dates.length} Mondays`;
+    case 'After Holiday':
+      return `Absent on ${alert.dates.length} days after a holiday`;
+  }
+}
+
+export default function AlertsPage() {
+  const { firestore: db } = useFirebase();
+  const { staff, isUserLoading } = useAuth();
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const [classes, setClasses] = useState<Class[]>([]);
+  const [alerts, setAlerts] = useState<AbsenceAlert[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('active');
+  const [acting, setActing] = useState<{ alert: AbsenceAlert; close: boolean } | null>(null);
+
+  const canAccess = staff?.role === 'admin' || staff?.role === 'teacher' || staff?.role === 'hod';
+
+  useEffect(() => {
+    if (!isUserLoading && !canAccess) {
+      router.push('/dashboard');
+    }
+  }, [canAccess, isUserLoading, router]);
+
+  useEffect(() => {
+    if (isUserLoading || !staff || !canAccess) return;
+
+    const fetchData = async () => {
+      setLoading(true);
+      try {
+        // Admins see every alert, HODs their department's, and everyone else the students they mentor.
+        let studentsQuery = query(collection(db, 'students'));
+        let alertsQuery = query(collection(db, 'absenceAlerts'));
+        if (staff.role === 'hod' && staff.departmentId) {
+          studentsQuery = query(collection(db, 'students'), where('departmentId', '==', staff.departmentId));
+          alertsQuery = query(collection(db, 'absenceAlerts'), where('departmentId', '==', staff.departmentId));
+        } else if (staff.role !== 'admin') {
+          studentsQuery = query(collection(db, 'students'), where('mentor', '==', staff.name));
+          alertsQuery = query(collection(db, 'absenceAlerts'), where('mentor', '==', staff.name));
+        }
+
+        const windowStart = getAlertWindowStart();
+        const [classesSnap, studentsSnap, recordsSnap, submissionsSnap, calendarDays, settings, alertsSnap] = await Promise.all([
+          getDocs(query(collection(db, 'classes'), orderBy('name'))),
+          getDocs(studentsQuery),
+          getDocs(query(collection(db, 'attendanceRecords'), where('date', '>=', windowStart))),
+          getDocs(query(collection(db, 'attendanceSubmissions'), where('date', '>=', windowStart))),
+          fetchCalendarDays(db),
+          fetchAttendanceSettings(db),
+          getDocs(alertsQuery),
+        ]);
+
+        const students = studentsSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as Student));
+        const records = recordsSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as AttendanceRecord));
+        const submissions = submissionsSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as AttendanceSubmission));
+        const classes = classesSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as Class));
+        let loadedAlerts = alertsSnap.docs.map(doc => {
+          const data = doc.data();
+          return {
+            id: doc.id,
+            ...data,
+            raisedAt: toDate(data.raisedAt),
+            ...(data.acknowledgedAt && { acknowledgedAt: toDate(data.acknowledgedAt) }),
+            ...(data.closedAt && { closedAt: toDate(data.closedAt) }),
+          } as AbsenceAlert;
+        });
+
+        const { created, updated } = detectAbsenceAlerts(students, classes, records, submissions, createCalendarResolver(calendarDays, classes, settings), settings, loadedAlerts);
+        if (created.length > 0 || updated.length > 0) {
+          // Alert ids are deterministic, so another viewer may already have raised an alert
+          // this one did not load; skip those instead of overwriting their status and notes.
+          const written = await runTransaction(db, async (transaction) => {
+            const refs = created.map(alert => doc(db, 'absenceAlerts', alert.id));
+            const snapshots = await Promise.all(refs.map(ref => transaction.get(ref)));
+            const fresh = created.filter((_, i) => !snapshots[i].exists());
+            fresh.forEach(({ id, ...alert }) => transaction.set(doc(db, 'absenceAlerts', id), alert));
+            updated.forEach(({ id, dates }) => transaction.update(doc(db, 'absenceAlerts', id), { dates }));
+            return fresh;
+          });
+          loadedAlerts = [
+            ...written,
+            ...loadedAlerts.map(a => {
+              const update = updated.find(u => u.id === a.id);
+              return update ? { ...a, dates: update.dates } : a;
+            }),
+          ];
+        }
+
+        setClasses(classes);
+        setAlerts(loadedAlerts.sort((a, b) => b.raisedAt.getTime() - a.raisedAt.getTime()));
+      } catch (error) {
+        console.error("Error fetching absence alerts:", error);
+        toast({ variant: 'destructive', title: 'Error', description: 'Failed to load absence alerts.' });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [db, staff, isUserLoading, canAccess, toast]);
+
+  const filteredAlerts = useMemo(() => {
+    if (statusFilter === 'all') return alerts;
+    if (statusFilter === 'active') return alerts.filter(a => a.status !== 'Closed');
+    return alerts.filter(a => a.status === statusFilter);
+  }, [alerts, statusFilter]);
+
+  const canAct = (alert: AbsenceAlert) => {
+    if (!staff || alert.status === 'Closed') return false;
+    if (staff.role === 'admin') return true;
+    if (staff.role === 'hod') return staff.departmentId === alert.departmentId;
+    return alert.mentor === staff.name;
+  };
+
+  const handleAction = async (alert: AbsenceAlert, close: boolean, notes: string) => {
+    if (!staff) return;
+    const changes = close
+      ? { status: 'Closed', closedBy: staff.name, closedAt: new Date(), notes } as const
+      : { status: 'Acknowledged', acknowledgedBy: staff.name, acknowledgedAt: new Date(), ...(notes && { notes }) } as const;
+    try {
+      await updateDoc(doc(db, 'absenceAlerts', alert.id), changes);
+      setAlerts(prev => prev.map(a => a.id === alert.id ? { ...a, ...changes } : a));
+      setActing(null);
+      toast({ title: close ? 'Alert Closed' : 'Alert Acknowledged', description: `${alert.studentName} (${alert.registerNo})` });
+    } catch (error) {
+      console.error("Error updating absence alert:", error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Failed to update the alert.' });
+    }
+  };
+
+  if (isUserLoading || !canAccess) {
+    return (
+        <div className="space-y-8">
+            <Card>
+                <CardHeader><Skeleton className="h-8 w-48" /><Skeleton className="h-4 w-64" /></CardHeader>
+                <CardContent><Skeleton className="h-96 w-full" /></CardContent>
+            </Card>
+        </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <Card>
+        <CardHeader className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <CardTitle>Absence Alerts</CardTitle>
+            <CardDescription>
+              Students absent on consecutive working days, or repeatedly on Mondays or after holidays. Acknowledge an alert when you start following up, and close it with your notes.
+            </CardDescription>
+          </div>
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+            <SelectTrigger className="w-full sm:w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="active">Open & Acknowledged</SelectItem>
+              <SelectItem value="Open">Open</SelectItem>
+              <SelectItem value="Acknowledged">Acknowledged</SelectItem>
+              <SelectItem value="Closed">Closed</SelectItem>
+              <SelectItem value="all">All</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Class</TableHead>
+                  <TableHead>Alert</TableHead>
+                  <TableHead>Mentor</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  Array.from({ length: 5 }).map((_, i) => (
+                    <TableRow key={i}>
+                      <TableCell colSpan={6}><Skeleton className="h-6" /></TableCell>
+                    </TableRow>
+                  ))
+                ) : filteredAlerts.length > 0 ? (
+                  filteredAlerts.map(alert => (
+                    <TableRow key={alert.id}>
+                      <TableCell>
+                        <div className="font-medium">{alert.studentName}</div>
+                        <div className="text-xs text-muted-foreground">{alert.registerNo}</div>
+                      </TableCell>
+                      <TableCell>{classes.find(c => c.id === alert.classId)?.name || 'N/A'}</TableCell>
+                      <TableCell>
+                        <div>{describeAlert(alert)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {alert.dates.map(date => format(parseISO(date), 'EEE dd MMM')).join(', ')}
+                        </div>
+                      </TableCell>
+                      <TableCell>{alert.mentor || 'N/A'}</TableCell>
+                      <TableCell>
+                        <Badge variant={statusVariants[alert.status]}>{alert.status}</Badge>
+                        {alert.status === 'Acknowledged' && alert.acknowledgedBy && (
+                          <div className="text-xs text-muted-foreground mt-1">by {alert.acknowledgedBy}</div>
+                        )}
+                        {alert.status === 'Closed' && alert.closedBy && (
+                          <div className="text-xs text-muted-foreground mt-1">by {alert.closedBy}, {format(alert.closedAt, 'dd MMM')}</div>
+                        )}
+                        {alert.notes && <div className="text-xs text-muted-foreground">{alert.notes}</div>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {canAct(alert) && (
+                          <div className="flex justify-end gap-2">
+                            {alert.status === 'Open' && (
+                              <Button variant="outline" size="sm" onClick={() => setActing({ alert, close: false })}>
+                                <Check className="mr-2 h-4 w-4" /> Acknowledge
+                              </Button>
+                            )}
+                            <Button variant="outline" size="sm" onClick={() => setActing({ alert, close: true })}>
+                              <CheckCheck className="mr-2 h-4 w-4" /> Close
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={6} className="h-24 text-center">
+                      No alerts found.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {acting && (
+        <AlertActionDialog
+          alert={acting.alert}
+          close={acting.close}
+          setIsOpen={(open) => !open && setActing(null)}
+          onConfirm={handleAction}
+        />
+      )}
+    </div>
+  );
+}
+
+function AlertActionDialog({ alert, close, setIsOpen, onConfirm }: {
+  alert: AbsenceAlert;
+  close: boolean;
+  setIsOpen: (open: boolean) => void;
+  onConfirm: (alert: AbsenceAlert, close: boolean, notes: string) => Promise<void>;
+}) {
+  const [notes, setNotes] = useState(alert.notes || '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    await onConfirm(alert, close, notes.trim());
+    setIsSaving(false);
+  };
+
+  return (
+    <Dialog open onOpenChange={setIsOpen}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{close ? 'Close Alert' : 'Acknowledge Alert'}</DialogTitle>
+          <DialogDescription>
+            {alert.studentName} ({alert.registerNo}): {describeAlert(alert).toLowerCase()}.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="alertNotes">Notes {close ? '' : '(optional)'}</Label>
+            <Textarea
+              id="alertNotes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g., Spoke to the parent; student was unwell and has rejoined"
+              required={close}
+            />
+          </div>
+          <DialogFooter>
+            <DialogClose asChild><Button type="button" variant="outline">Cancel</Button></DialogClose>
+            <Button type="submit" disabled={isSaving || (close && !notes.trim())}>
+              {isSaving ? 'Saving...' : close ? 'Close Alert' : 'Acknowledge'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,9 +1,9 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { collection, getDocs, query, orderBy, Timestamp, where } from 'firebase/firestore';
+import { collection, getDocs, query, orderBy, Timestamp } from 'firebase/firestore';
 import { useFirebase } from '@/firebase';
-import type { AttendanceRecord, Class, Department, Student, WorkingDay, Staff, AttendanceSubmission } from '@/lib/types';
+import type { AttendanceRecord, Class, ClassAssignment, Department, Student, WorkingDay, Staff, AttendanceSubmission, AttendanceSettings } from '@/lib/types';
 import { useToast } from '@/hooks/use-toast';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Card, CardDescription, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
@@ -11,10 +11,13 @@ import { DayWiseChart } from './day-wise-chart';
 import { AbsenteesList } from './absentees-list';
 import { Separator } from '@/components/ui/separator';
 import { DepartmentWiseChart } from './department-wise-chart';
-import { format, isSunday } from 'date-fns';
+import { format } from 'date-fns';
 import { ClassWiseReport } from './class-wise-report';
 import { MonthlyClassReport } from './monthly-class-report';
 import { MonthlyDetailedReport } from './monthly-detailed-report';
+import { defaultAttendanceSettings, fetchAttendanceSettings } from '@/lib/settings';
+import { createCalendarResolver, fetchCalendarDays } from '@/lib/calendar';
+import { fetchStaffAssignments, getAssignedClassIds, getDocsWhereIn } from '@/lib/assignments';
 
 type AnalyticsPageContentProps = {
   staff: Staff;
@@ -24,10 +27,12 @@ export function AnalyticsPageContent({ staff }: AnalyticsPageContentProps) {
   const { firestore: db } = useFirebase();
   const [allRecords, setAllRecords] = useState<AttendanceRecord[]>([]);
   const [students, setStudents] = useState<Student[]>([]);
+  const [assignments, setAssignments] = useState<ClassAssignment[]>([]);
   const [departments, setDepartments] = useState<Department[]>([]);
   const [classes, setClasses] = useState<Class[]>([]);
   const [workingDays, setWorkingDays] = useState<WorkingDay[]>([]);
   const [submissions, setSubmissions] = useState<AttendanceSubmission[]>([]);
+  const [settings, setSettings] = useState<AttendanceSettings>(defaultAttendanceSettings);
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
 
@@ -39,35 +44,35 @@ export function AnalyticsPageContent({ staff }: AnalyticsPageContentProps) {
 
         const deptsPromise = getDocs(query(collection(db, 'departments')));
         const classesPromise = getDocs(query(collection(db, 'classes')));
-        const workDaysPromise = getDocs(query(collection(db, 'workingDays')));
+        const workDaysPromise = fetchCalendarDays(db);
         const submissionsPromise = getDocs(query(collection(db, 'attendanceSubmissions'), orderBy('submittedAt', 'desc')));
         
+        // Teachers see the students of the classes they currently teach, including ones they are substituting in.
+        const teacherAssignments = staff?.role === 'teacher' ? await fetchStaffAssignments(db, staff) : [];
+        const teacherClassIds = getAssignedClassIds(teacherAssignments, format(new Date(), 'yyyy-MM-dd'));
+
         let studentsPromise;
-        if (staff?.role === 'teacher' && staff.classId) {
-            studentsPromise = getDocs(query(collection(db, 'students'), where('classId', '==', staff.classId)));
+        if (staff?.role === 'teacher') {
+            studentsPromise = getDocsWhereIn(db, 'students', 'classId', teacherClassIds).then(docs => ({ docs }));
         } else {
             studentsPromise = getDocs(query(collection(db, 'students')));
         }
         const recordsPromise = getDocs(query(collection(db, 'attendanceRecords'), orderBy('timestamp', 'desc')));
 
-        const [depts, clss, workDays, studs, recs, subs] = await Promise.all([
+        const [depts, clss, workDaysData, studs, recs, subs, settingsData] = await Promise.all([
             deptsPromise,
             classesPromise,
             workDaysPromise,
             studentsPromise,
             recordsPromise,
             submissionsPromise,
+            fetchAttendanceSettings(db),
         ]);
         
         const deptsData = depts.docs.map(doc => ({ id: doc.id, ...doc.data() } as Department));
         const clssData = clss.docs.map(doc => ({ id: doc.id, ...doc.data() } as Class));
         const studsData = studs.docs.map(doc => ({ id: doc.id, ...doc.data() } as Student));
         const subsData = subs.docs.map(doc => ({ id: doc.id, ...doc.data() } as AttendanceSubmission));
-        const workDaysData = workDays.docs.map(doc => {
-          const data = doc.data();
-          const timestamp = data.timestamp instanceof Timestamp ? data.timestamp.toDate() : new Date(data.timestamp);
-          return { id: doc.id, ...data, timestamp } as WorkingDay;
-        });
         
         let fetchedRecords: AttendanceRecord[] = recs.docs.map((doc) => {
           const data = doc.data();
@@ -80,24 +85,23 @@ export function AnalyticsPageContent({ staff }: AnalyticsPageContentProps) {
             fetchedRecords = fetchedRecords.filter(r => studentIdsInClass.includes(r.studentId));
         }
 
-        const workingDaysMap = new Map<string, boolean>();
-        workDaysData.forEach(wd => {
-            workingDaysMap.set(format(wd.timestamp, 'yyyy-MM-dd'), wd.isWorkingDay);
-        });
+        const calendar = createCalendarResolver(workDaysData, clssData, settingsData);
+        const studentClassIds = new Map(studsData.map(s => [s.id, s.classId]));
 
         const filteredRecords = fetchedRecords.filter(record => {
             const recordDate = record.timestamp;
             const dateKey = format(recordDate, 'yyyy-MM-dd');
-            if (isSunday(recordDate)) return false;
-            return workingDaysMap.get(dateKey) ?? false;
+            return calendar.isInstructional({ classId: record.classId ?? studentClassIds.get(record.studentId) }, dateKey);
         });
 
+        setAssignments(teacherAssignments);
         setAllRecords(filteredRecords);
         setStudents(studsData);
         setDepartments(deptsData);
         setClasses(clssData);
         setWorkingDays(workDaysData);
         setSubmissions(subsData);
+        setSettings(settingsData);
 
       } catch (error) {
         console.error("Error fetching initial data: ", error);
@@ -125,7 +129,7 @@ export function AnalyticsPageContent({ staff }: AnalyticsPageContentProps) {
     )
   }
 
-  const isAdminOrViewer = staff?.role === 'admin' || staff?.role === 'viewer' || staff?.role === 'dean';
+  const isAdminOrViewer = staff?.role === 'admin' || staff?.role === 'viewer' || staff?.role === 'dean' || staff?.role === 'hod';
 
   return (
     <div className="space-y-8">
@@ -146,6 +150,7 @@ export function AnalyticsPageContent({ staff }: AnalyticsPageContentProps) {
                   departments={departments}
                   classes={classes}
                   workingDays={workingDays}
+                  settings={settings}
                 />
             </CardContent>
         </Card>
@@ -158,6 +163,7 @@ export function AnalyticsPageContent({ staff }: AnalyticsPageContentProps) {
                     students={students}
                     departments={departments}
                     workingDays={workingDays}
+                    settings={settings}
                   />
               </CardContent>
           </Card>
@@ -184,12 +190,14 @@ export function AnalyticsPageContent({ staff }: AnalyticsPageContentProps) {
         <CardContent className="pt-6">
             <MonthlyDetailedReport
               user={staff}
+              assignments={assignments}
               departments={departments}
               classes={classes}
               students={students}
               records={allRecords}
               workingDays={workingDays}
               submissions={submissions}
+              settings={settings}
             />
         </CardContent>
       </Card>
@@ -200,12 +208,14 @@ export function AnalyticsPageContent({ staff }: AnalyticsPageContentProps) {
         <CardContent className="pt-6">
             <MonthlyClassReport
               user={staff}
+              assignments={assignments}
               departments={departments}
               classes={classes}
               students={students}
               records={allRecords}
               workingDays={workingDays}
               submissions={submissions}
+              settings={settings}
             />
         </CardContent>
       </Card>
@@ -216,12 +226,14 @@ export function AnalyticsPageContent({ staff }: AnalyticsPageContentProps) {
         <CardContent className="pt-6">
             <ClassWiseReport 
                 user={staff}
+                assignments={assignments}
                 departments={departments}
                 classes={classes}
                 students={students}
                 records={allRecords}
                 workingDays={workingDays}
                 submissions={submissions}
+                settings={settings}
             />
         </CardContent>
       </Card>
@@ -2,8 +2,9 @@
 'use client';
 
 import { Button } from '@/components/ui/button';
-import type { AttendanceRecord, Class, Department, Staff, Student, WorkingDay, AttendanceSubmission } from '@/lib/types';
+import type { AttendanceRecord, Class, ClassAssignment, Department, Staff, Student, WorkingDay, AttendanceSubmission, AttendanceSettings } from '@/lib/types';
 import { Download, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
 import { useEffect, useState, useMemo } from 'react';
@@ -11,35 +12,42 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { StudentAttendanceGridContent } from '../../_components/student-attendance-grid';
 import { createRoot } from 'react-dom/client';
 import { useToast } from '@/hooks/use-toast';
+import { getAssignedClassIds } from '@/lib/assignments';
 
 type ClassWiseReportProps = {
   user: Staff | null;
+  assignments?: ClassAssignment[]; // The user's class assignments; teachers report on their own classes
   departments: Department[];
   classes: Class[];
   students: Student[];
   records: AttendanceRecord[];
   workingDays: WorkingDay[];
   submissions: AttendanceSubmission[];
+  settings: AttendanceSettings;
 };
 
-export function ClassWiseReport({ user, departments, classes, students, records, workingDays, submissions }: ClassWiseReportProps) {
+export function ClassWiseReport({ user, assignments = [], departments, classes, students, records, workingDays, submissions, settings }: ClassWiseReportProps) {
   const [departmentFilter, setDepartmentFilter] = useState('all');
   const [classFilter, setClassFilter] = useState('all');
   const [mentorFilter, setMentorFilter] = useState('all');
   const [isGenerating, setIsGenerating] = useState(false);
   const { toast } = useToast();
 
-  const isAdminOrViewer = user?.role === 'admin' || user?.role === 'viewer' || user?.role === 'dean';
+  const isAdminOrViewer = user?.role === 'admin' || user?.role === 'viewer' || user?.role === 'dean' || user?.role === 'hod';
+
+  // Teachers report on a class they currently teach, including ones they are substituting in.
+  const teacherClassIds = useMemo(() => getAssignedClassIds(assignments, format(new Date(), 'yyyy-MM-dd')), [assignments]);
+  const teacherClassId = !isAdminOrViewer && teacherClassIds.includes(classFilter) ? classFilter : undefined;
 
   const availableClasses = useMemo(() => {
-    if (!isAdminOrViewer && user?.classId) {
-        return classes.filter(c => c.id === user.classId);
+    if (!isAdminOrViewer) {
+        return classes.filter(c => teacherClassIds.includes(c.id));
     }
     if (departmentFilter === 'all') {
       return [];
     }
     return classes.filter(c => c.departmentId === departmentFilter);
-  }, [departmentFilter, classes, isAdminOrViewer, user?.classId]);
+  }, [departmentFilter, classes, isAdminOrViewer, teacherClassIds]);
 
   const availableMentors = useMemo(() => {
     const mentorSet = new Set<string>();
@@ -50,8 +58,8 @@ export function ClassWiseReport({ user, departments, classes, students, records,
     } else if (departmentFilter !== 'all') {
         const classIdsInDept = classes.filter(c => c.departmentId === departmentFilter).map(c => c.id);
         relevantStudents = students.filter(s => classIdsInDept.includes(s.classId));
-    } else if (user?.role === 'teacher' && user.classId) {
-        relevantStudents = students.filter(s => s.classId === user.classId);
+    } else if (!isAdminOrViewer) {
+        relevantStudents = students.filter(s => teacherClassIds.includes(s.classId));
     } else {
         return [];
     }
@@ -60,7 +68,7 @@ export function ClassWiseReport({ user, departments, classes, students, records,
       if (s.mentor) mentorSet.add(s.mentor);
     });
     return Array.from(mentorSet).sort();
-  }, [students, classFilter, departmentFilter, classes, user]);
+  }, [students, classFilter, departmentFilter, classes, isAdminOrViewer, teacherClassIds]);
 
   useEffect(() => {
     // If department filter changes, reset class and mentor
@@ -72,26 +80,24 @@ export function ClassWiseReport({ user, departments, classes, students, records,
 
   useEffect(() => {
     // If class filter changes, reset mentor
-    if (isAdminOrViewer) {
-        setMentorFilter('all');
-    }
-  }, [classFilter, isAdminOrViewer]);
+    setMentorFilter('all');
+  }, [classFilter]);
   
   useEffect(() => {
-    if (user?.role === 'teacher' && user.classId) {
-        const teacherClass = classes.find(c => c.id === user.classId);
+    if (user?.role === 'teacher' && !teacherClassIds.includes(classFilter)) {
+        const teacherClass = classes.find(c => teacherClassIds.includes(c.id));
         if (teacherClass) {
             setDepartmentFilter(teacherClass.departmentId);
             setClassFilter(teacherClass.id);
         }
     }
-  }, [user, classes]);
+  }, [user, classes, teacherClassIds, classFilter]);
 
 
   const handleExportPdf = async () => {
-    const finalClassId = isAdminOrViewer ? classFilter : user?.classId;
+    const finalClassId = isAdminOrViewer ? classFilter : teacherClassId;
 
-    if (finalClassId === 'all' && mentorFilter === 'all' && !user?.classId) {
+    if ((!finalClassId || finalClassId === 'all') && mentorFilter === 'all') {
       toast({
         variant: 'destructive',
         title: 'Selection Required',
@@ -150,7 +156,9 @@ export function ClassWiseReport({ user, departments, classes, students, records,
                     student={student} 
                     records={studentRecords} 
                     workingDays={workingDays} 
+                    classes={classes}
                     submissions={submissions}
+                    settings={settings}
                     isPdf={true} 
                 />
             </div>
@@ -196,7 +204,7 @@ export function ClassWiseReport({ user, departments, classes, students, records,
     setIsGenerating(false);
   };
 
-  const isDownloadDisabled = isGenerating || (isAdminOrViewer && classFilter === 'all' && mentorFilter === 'all') || (!isAdminOrViewer && !user?.classId);
+  const isDownloadDisabled = isGenerating || (isAdminOrViewer && classFilter === 'all' && mentorFilter === 'all') || (!isAdminOrViewer && !teacherClassId);
 
   return (
     <div className="space-y-4">
@@ -241,7 +249,20 @@ export function ClassWiseReport({ user, departments, classes, students, records,
              </>
           ): (
              <div className="flex items-center gap-2">
-                <p className="text-sm font-medium p-2 border rounded-md bg-muted/50">{classes.find(c => c.id === user?.classId)?.name || 'My Class'}</p>
+                {availableClasses.length > 1 ? (
+                    <Select value={classFilter} onValueChange={setClassFilter}>
+                        <SelectTrigger className="w-full sm:w-[180px]">
+                            <SelectValue placeholder="Class" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {availableClasses.map(c => (
+                                <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                ) : (
+                    <p className="text-sm font-medium p-2 border rounded-md bg-muted/50">{classes.find(c => c.id === teacherClassId)?.name || 'My Class'}</p>
+                )}
                 <Select value={mentorFilter} onValueChange={setMentorFilter}>
                     <SelectTrigger className="w-full sm:w-[180px]">
                         <SelectValue placeholder="Mentor" />
@@ -3,15 +3,18 @@
 
 import { useMemo, useState, useEffect } from 'react';
 import { Bar, BarChart, CartesianGrid, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import type { AttendanceRecord, Class, Department, Staff, Student, WorkingDay } from '@/lib/types';
+import type { AttendanceRecord, AttendanceSettings, Class, Department, Staff, Student, WorkingDay } from '@/lib/types';
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Button } from "@/components/ui/button";
 import { CalendarIcon } from "lucide-react";
-import { format, isSameDay, eachDayOfInterval, startOfDay, endOfDay, startOfWeek, endOfWeek, isSunday, startOfMonth, endOfMonth, subWeeks } from "date-fns";
+import { format, isSameDay, eachDayOfInterval, startOfDay, endOfDay, startOfWeek, endOfWeek, startOfMonth, endOfMonth, subWeeks } from "date-fns";
 import { cn } from "@/lib/utils";
 import { Calendar } from "@/components/ui/calendar";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import type { DateRange } from 'react-day-picker';
+import { countsAsPresent } from '@/lib/attendance';
+import { createCalendarResolver } from '@/lib/calendar';
+import { getEnrolledClassId } from '@/lib/enrolment';
 
 type ChartProps = {
   records: AttendanceRecord[];
@@ -20,6 +23,7 @@ type ChartProps = {
   departments: Department[];
   classes: Class[];
   workingDays: WorkingDay[];
+  settings: AttendanceSettings;
 };
 
 type LegendPayload = {
@@ -51,7 +55,7 @@ const CustomLegend = (props: any) => {
     );
 };
 
-export function DayWiseChart({ records, students, user, departments, classes, workingDays }: ChartProps) {
+export function DayWiseChart({ records, students, user, departments, classes, workingDays, settings }: ChartProps) {
   const [date, setDate] = useState<DateRange | undefined>({
     from: startOfWeek(new Date()),
     to: endOfWeek(new Date()),
@@ -67,13 +71,7 @@ export function DayWiseChart({ records, students, user, departments, classes, wo
   
   const isAdminOrViewer = user?.role === 'admin' || user?.role === 'viewer';
 
-  const workingDaysMap = useMemo(() => {
-    const map = new Map<string, boolean>();
-    workingDays.forEach(wd => {
-        map.set(format(wd.timestamp, 'yyyy-MM-dd'), wd.isWorkingDay);
-    });
-    return map;
-  }, [workingDays]);
+  const calendar = useMemo(() => createCalendarResolver(workingDays, classes, settings), [workingDays, classes, settings]);
 
   const availableClasses = useMemo(() => {
     if (departmentFilter === 'all') {
@@ -119,9 +117,14 @@ export function DayWiseChart({ records, students, user, departments, classes, wo
           };
         }
 
-        const isWorking = (workingDaysMap.get(dateKey) ?? false) && !isSunday(day);
+        // Classes can follow different calendars, so only students enrolled that day whose class met count.
+        const workingStudents = relevantStudents.filter(s => {
+          const classId = getEnrolledClassId(s, dateKey);
+          return !!classId && calendar.isInstructional({ classId }, dateKey);
+        });
+        const workingStudentIds = new Set(workingStudents.map(s => s.id));
 
-        if (!isWorking) {
+        if (workingStudents.length === 0) {
           return {
             name: format(day, 'MMM dd'),
             Present: 0,
@@ -135,29 +138,29 @@ export function DayWiseChart({ records, students, user, departments, classes, wo
             const isDeptMatch = departmentFilter === 'all' || record.departmentName === departments.find(d => d.id === departmentFilter)?.name;
             const isClassMatch = classFilter === 'all' || record.className === classes.find(c => c.id === classFilter)?.name;
 
-            return isDateMatch && isDeptMatch && isClassMatch;
+            return isDateMatch && isDeptMatch && isClassMatch && !countsAsPresent(record, settings);
         });
 
         const absentUniqueStudentIds = new Set<string>();
         filteredRecords.forEach(record => {
-          if (record.studentId) absentUniqueStudentIds.add(record.studentId);
+          if (record.studentId && workingStudentIds.has(record.studentId)) absentUniqueStudentIds.add(record.studentId);
         });
         
         const absentCount = absentUniqueStudentIds.size;
-        const presentCount = relevantStudents.length - absentCount;
+        const presentCount = workingStudents.length - absentCount;
 
         return {
             name: format(day, 'MMM dd'),
             Present: presentCount >= 0 ? presentCount : 0,
             Absent: absentCount,
-            Holiday: 0,
+            Holiday: relevantStudents.length - workingStudents.length,
         };
     });
 
 
     return { chartData: data, totalStudents: relevantStudents.length };
 
-  }, [records, date, students, classFilter, departmentFilter, classes, departments, workingDaysMap]);
+  }, [records, date, students, classFilter, departmentFilter, classes, departments, calendar, settings]);
 
   const handleLegendClick = (dataKey: string) => {
     setVisibility(prev => ({ ...prev, [dataKey]: !prev[dataKey as keyof typeof visibility] }));
@@ -3,7 +3,7 @@
 
 import { useMemo, useState } from 'react';
 import { Bar, BarChart, CartesianGrid, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import type { AttendanceRecord, Department, Student, WorkingDay } from '@/lib/types';
+import type { AttendanceRecord, AttendanceSettings, Department, Student, WorkingDay } from '@/lib/types';
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Button } from "@/components/ui/button";
 import { CalendarIcon, BarChart2 } from "lucide-react";
@@ -11,12 +11,15 @@ import { format, isSameDay } from "date-fns";
 import { cn } from "@/lib/utils";
 import { Calendar } from "@/components/ui/calendar";
 import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert';
+import { countsAsPresent } from '@/lib/attendance';
+import { createCalendarResolver } from '@/lib/calendar';
 
 type ChartProps = {
   records: AttendanceRecord[];
   students: Student[];
   departments: Department[];
   workingDays: WorkingDay[];
+  settings: AttendanceSettings;
 };
 
 type LegendPayload = {
@@ -49,7 +52,7 @@ const CustomLegend = (props: any) => {
 };
 
 
-export function DepartmentWiseChart({ records, students, departments, workingDays }: ChartProps) {
+export function DepartmentWiseChart({ records, students, departments, workingDays, settings }: ChartProps) {
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(new Date());
   const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
   const [visibility, setVisibility] = useState({
@@ -62,26 +65,20 @@ export function DepartmentWiseChart({ records, students, departments, workingDay
   };
 
 
-  const workingDaysMap = useMemo(() => {
-    const map = new Map<string, boolean>();
-    workingDays.forEach(wd => {
-        // The timestamp is already a Date object, so no need for .toDate()
-        map.set(format(wd.timestamp, 'yyyy-MM-dd'), wd.isWorkingDay);
-    });
-    return map;
-  }, [workingDays]);
+  // Departments are compared as a whole, so their own calendars apply here rather than batch or class ones.
+  const calendar = useMemo(() => createCalendarResolver(workingDays, [], settings), [workingDays, settings]);
 
   const isSelectedDateWorkingDay = useMemo(() => {
       if (!selectedDate) return false;
       const dateKey = format(selectedDate, 'yyyy-MM-dd');
-      return workingDaysMap.get(dateKey) ?? false;
-  }, [selectedDate, workingDaysMap]);
+      return departments.some(dept => calendar.isInstructional({ departmentId: dept.id }, dateKey));
+  }, [selectedDate, calendar, departments]);
 
   const chartData = useMemo(() => {
     if (!selectedDate) return [];
 
     // Filter records for the selected date
-    const dailyRecords = records.filter(record => isSameDay(new Date(record.timestamp), selectedDate));
+    const dailyRecords = records.filter(record => isSameDay(new Date(record.timestamp), selectedDate) && !countsAsPresent(record, settings));
     const absentStudentIds = new Set(dailyRecords.map(r => r.studentId));
 
     return departments.map(dept => {
@@ -112,7 +109,7 @@ export function DepartmentWiseChart({ records, students, departments, workingDay
       };
     }).sort((a,b) => a.name.localeCompare(b.name));
 
-  }, [records, selectedDate, students, departments]);
+  }, [records, selectedDate, students, departments, settings]);
 
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
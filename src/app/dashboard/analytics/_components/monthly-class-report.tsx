@@ -2,7 +2,7 @@
 'use client';
 
 import { Button } from '@/components/ui/button';
-import type { AttendanceRecord, Class, Department, Staff, Student, WorkingDay, AttendanceSubmission } from '@/lib/types';
+import type { AttendanceRecord, Class, ClassAssignment, Department, Staff, Student, WorkingDay, AttendanceSubmission, AttendanceSettings } from '@/lib/types';
 import { Download, Loader2, CalendarIcon } from 'lucide-react';
 import { startOfMonth, endOfMonth, format, isWithinInterval, eachDayOfInterval } from 'date-fns';
 import jsPDF from 'jspdf';
@@ -15,18 +15,23 @@ import { Popover, PopoverTrigger, PopoverContent } from '@/components/ui/popover
 import { Calendar } from '@/components/ui/calendar';
 import { cn } from '@/lib/utils';
 import type { DateRange } from 'react-day-picker';
+import { getStudentDayAbsences, getStudentDayKey } from '@/lib/attendance';
+import { createRosterIndex, getRosterClassId, getRosterOnlyStudents } from '@/lib/roster';
+import { getAssignedClassIds } from '@/lib/assignments';
 
 type MonthlyClassReportProps = {
   user: Staff | null;
+  assignments?: ClassAssignment[]; // The user's class assignments; teachers report on their own classes
   departments: Department[];
   classes: Class[];
   students: Student[];
   records: AttendanceRecord[];
   workingDays: WorkingDay[];
   submissions: AttendanceSubmission[];
+  settings: AttendanceSettings;
 };
 
-export function MonthlyClassReport({ user, departments, classes, students, records, workingDays, submissions }: MonthlyClassReportProps) {
+export function MonthlyClassReport({ user, assignments = [], departments, classes, students, records, workingDays, submissions, settings }: MonthlyClassReportProps) {
   const [departmentFilter, setDepartmentFilter] = useState('all');
   const [classFilter, setClassFilter] = useState('all');
   const [mentorFilter, setMentorFilter] = useState('all');
@@ -38,7 +43,11 @@ export function MonthlyClassReport({ user, departments, classes, students, recor
   const { toast } = useToast();
   const [logoBase64, setLogoBase64] = useState<string | null>(null);
 
-  const isAdminOrViewer = user?.role === 'admin' || user?.role === 'viewer' || user?.role === 'dean';
+  const isAdminOrViewer = user?.role === 'admin' || user?.role === 'viewer' || user?.role === 'dean' || user?.role === 'hod';
+
+  // Teachers report on a class they currently teach, including ones they are substituting in.
+  const teacherClassIds = useMemo(() => getAssignedClassIds(assignments, format(new Date(), 'yyyy-MM-dd')), [assignments]);
+  const teacherClassId = !isAdminOrViewer && teacherClassIds.includes(classFilter) ? classFilter : undefined;
 
   useEffect(() => {
     fetch('/svcet-head.png')
@@ -55,12 +64,12 @@ export function MonthlyClassReport({ user, departments, classes, students, recor
   }, []);
   
   const availableClasses = useMemo(() => {
-    if (!isAdminOrViewer && user?.classId) return classes.filter(c => c.id === user.classId);
+    if (!isAdminOrViewer) return classes.filter(c => teacherClassIds.includes(c.id));
     if (departmentFilter === 'all') {
       return [];
     }
     return classes.filter(c => c.departmentId === departmentFilter);
-  }, [departmentFilter, classes, isAdminOrViewer, user?.classId]);
+  }, [departmentFilter, classes, isAdminOrViewer, teacherClassIds]);
 
   const availableMentors = useMemo(() => {
     const mentorSet = new Set<string>();
@@ -71,8 +80,8 @@ export function MonthlyClassReport({ user, departments, classes, students, recor
     } else if (departmentFilter !== 'all') {
         const classIdsInDept = classes.filter(c => c.departmentId === departmentFilter).map(c => c.id);
         relevantStudents = students.filter(s => classIdsInDept.includes(s.classId));
-    } else if (user?.role === 'teacher' && user.classId) {
-        relevantStudents = students.filter(s => s.classId === user.classId);
+    } else if (!isAdminOrViewer) {
+        relevantStudents = students.filter(s => teacherClassIds.includes(s.classId));
     } else {
         return [];
     }
@@ -81,7 +90,7 @@ export function MonthlyClassReport({ user, departments, classes, students, recor
       if (s.mentor) mentorSet.add(s.mentor);
     });
     return Array.from(mentorSet).sort();
-  }, [students, classFilter, departmentFilter, classes, user]);
+  }, [students, classFilter, departmentFilter, classes, isAdminOrViewer, teacherClassIds]);
 
 
   useEffect(() => {
@@ -92,25 +101,23 @@ export function MonthlyClassReport({ user, departments, classes, students, recor
   }, [departmentFilter, isAdminOrViewer]);
 
   useEffect(() => {
-    if (isAdminOrViewer) {
-        setMentorFilter('all');
-    }
-  }, [classFilter, isAdminOrViewer]);
+    setMentorFilter('all');
+  }, [classFilter]);
 
   useEffect(() => {
-    if (user?.role === 'teacher' && user.classId) {
-      const teacherClass = classes.find(c => c.id === user.classId);
+    if (user?.role === 'teacher' && !teacherClassIds.includes(classFilter)) {
+      const teacherClass = classes.find(c => teacherClassIds.includes(c.id));
       if (teacherClass) {
         setDepartmentFilter(teacherClass.departmentId);
         setClassFilter(teacherClass.id);
       }
     }
-  }, [user, classes]);
+  }, [user, classes, teacherClassIds, classFilter]);
 
   const generateReportData = () => {
-    const finalClassId = isAdminOrViewer ? classFilter : user?.classId;
+    const finalClassId = isAdminOrViewer ? classFilter : teacherClassId;
 
-    if (finalClassId === 'all' && mentorFilter === 'all' && !user?.classId) {
+    if ((!finalClassId || finalClassId === 'all') && mentorFilter === 'all') {
       toast({
         variant: 'destructive',
         title: 'Selection Required',
@@ -124,13 +131,19 @@ export function MonthlyClassReport({ user, departments, classes, students, recor
         return null;
     }
 
+    const rosterIndex = createRosterIndex(submissions);
     let studentsToReport = students;
 
     if (mentorFilter !== 'all') {
         studentsToReport = studentsToReport.filter(s => s.mentor === mentorFilter);
     }
     if(finalClassId !== 'all' && finalClassId) {
-        studentsToReport = studentsToReport.filter(s => s.classId === finalClassId);
+        // Students on the range's roster snapshots who have since left are still reported for the days they were there.
+        studentsToReport = [
+            ...studentsToReport.filter(s => s.classId === finalClassId),
+            ...getRosterOnlyStudents(students, rosterIndex, finalClassId, format(date.from, 'yyyy-MM-dd'), format(date.to, 'yyyy-MM-dd'))
+                .filter(s => mentorFilter === 'all' || s.mentor === mentorFilter),
+        ];
     }
 
     if (studentsToReport.length === 0) {
@@ -153,13 +166,17 @@ export function MonthlyClassReport({ user, departments, classes, students, recor
         return isWithinInterval(subDate, { start: monthStart, end: monthEnd });
     });
 
+    const absences = getStudentDayAbsences(monthRecords, monthSubmissions, settings);
+
     const onlyMentorSelected = mentorFilter !== 'all' && finalClassId === 'all' && departmentFilter === 'all';
     
     return studentsToReport.map((student, index) => {
-      const classSubmissions = monthSubmissions.filter(s => s.classId === student.classId);
-      const totalWorkingDays = classSubmissions.length;
+      // Period-wise classes have several submissions per date, so count distinct dates. Only dates the student
+      // was on the roster (or enrolled, before snapshots) count, against the class they were in on each.
+      const submittedDates = new Set(monthSubmissions.filter(s => s.classId === getRosterClassId(student, s.date, rosterIndex)).map(s => s.date));
+      const totalWorkingDays = submittedDates.size;
       
-      const absentCount = monthRecords.filter(r => r.studentId === student.id).length;
+      const absentCount = Array.from(submittedDates).reduce((sum, date) => sum + (absences.get(getStudentDayKey(student.id, date)) ?? 0), 0);
       const presentCount = totalWorkingDays - absentCount;
       const percentage = totalWorkingDays > 0 ? (presentCount / totalWorkingDays) * 100 : 0;
       
@@ -196,7 +213,7 @@ export function MonthlyClassReport({ user, departments, classes, students, recor
     const reportData = generateReportData();
     if (!reportData) return;
 
-    const finalClassId = isAdminOrViewer ? classFilter : user?.classId;
+    const finalClassId = isAdminOrViewer ? classFilter : teacherClassId;
     const selectedClass = classes.find(c => c.id === finalClassId);
     let filename = 'Periodical-Report';
     if(selectedClass && finalClassId !== 'all') filename += `-${selectedClass.name}`;
@@ -215,7 +232,7 @@ export function MonthlyClassReport({ user, departments, classes, students, recor
         return;
     }
 
-    const finalClassId = isAdminOrViewer ? classFilter : user?.classId;
+    const finalClassId = isAdminOrViewer ? classFilter : teacherClassId;
     const selectedClass = classes.find(c => c.id === finalClassId);
     const selectedDepartment = departments.find(d => d.id === selectedClass?.departmentId);
     
@@ -315,7 +332,7 @@ export function MonthlyClassReport({ user, departments, classes, students, recor
     }
   };
 
-  const isDownloadDisabled = isGenerating || (isAdminOrViewer && classFilter === 'all' && mentorFilter === 'all') || (!isAdminOrViewer && !user?.classId);
+  const isDownloadDisabled = isGenerating || (isAdminOrViewer && classFilter === 'all' && mentorFilter === 'all') || (!isAdminOrViewer && !teacherClassId);
 
   return (
     <div className="space-y-4">
@@ -396,7 +413,20 @@ export function MonthlyClassReport({ user, departments, classes, students, recor
             </>
           ) : (
             <div className="flex items-center gap-2">
-                <p className="text-sm font-medium p-2 border rounded-md bg-muted/50">{classes.find(c => c.id === user?.classId)?.name || 'My Class'}</p>
+                {availableClasses.length > 1 ? (
+                    <Select value={classFilter} onValueChange={setClassFilter}>
+                        <SelectTrigger className="w-full sm:w-[180px]">
+                            <SelectValue placeholder="Class" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {availableClasses.map(c => (
+                                <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                ) : (
+                    <p className="text-sm font-medium p-2 border rounded-md bg-muted/50">{classes.find(c => c.id === teacherClassId)?.name || 'My Class'}</p>
+                )}
                 <Select value={mentorFilter} onValueChange={setMentorFilter}>
                     <SelectTrigger className="w-full sm:w-[180px]">
                         <SelectValue placeholder="Mentor" />
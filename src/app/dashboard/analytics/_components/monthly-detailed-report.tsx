@@ -2,28 +2,47 @@
 'use client';
 
 import { Button } from '@/components/ui/button';
-import type { AttendanceRecord, Class, Department, Staff, Student, WorkingDay, AttendanceSubmission } from '@/lib/types';
+import type { AttendanceRecord, Class, ClassAssignment, Department, Staff, Student, WorkingDay, AttendanceSubmission, AttendanceSettings, SpecialAttendanceStatus } from '@/lib/types';
 import { Download, Loader2 } from 'lucide-react';
-import { startOfMonth, endOfMonth, format, isSameDay, isSunday, eachDayOfInterval, isFuture } from 'date-fns';
+import { startOfMonth, endOfMonth, format, eachDayOfInterval, isFuture } from 'date-fns';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { useEffect, useState, useMemo } from 'react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import { getAssignedClassIds } from '@/lib/assignments';
 import { MonthYearPicker } from '@/components/ui/month-year-picker';
 import { exportToCsv } from '@/lib/utils';
+import { getStudentDayAbsences, getStudentDayKey, getStudentDayStatuses, hasSubmissionForDay, specialAttendanceStatuses } from '@/lib/attendance';
+import { createCalendarResolver } from '@/lib/calendar';
+import { createRosterIndex, getRosterClassId, getRosterOnlyStudents } from '@/lib/roster';
 
 type MonthlyDetailedReportProps = {
   user: Staff | null;
+  assignments?: ClassAssignment[]; // The user's class assignments; teachers report on their own classes
   departments: Department[];
   classes: Class[];
   students: Student[];
   records: AttendanceRecord[];
   workingDays: WorkingDay[];
   submissions: AttendanceSubmission[];
+  settings: AttendanceSettings;
 };
 
-export function MonthlyDetailedReport({ user, departments, classes, students, records, workingDays, submissions }: MonthlyDetailedReportProps) {
+const statusCodes: Record<SpecialAttendanceStatus, 'OD' | 'ML' | 'L'> = {
+  'On Duty': 'OD',
+  'Medical Leave': 'ML',
+  'Late': 'L',
+};
+
+// [fill, text] colours for the status cells in the PDF.
+const statusCellColors: Record<'OD' | 'ML' | 'L', [[number, number, number], [number, number, number]]> = {
+  OD: [[233, 213, 255], [107, 33, 168]], // Light purple / dark purple
+  ML: [[252, 231, 243], [157, 23, 77]], // Light pink / dark pink
+  L: [[204, 251, 241], [17, 94, 89]], // Light teal / dark teal
+};
+
+export function MonthlyDetailedReport({ user, assignments = [], departments, classes, students, records, workingDays, submissions, settings }: MonthlyDetailedReportProps) {
   const [departmentFilter, setDepartmentFilter] = useState('all');
   const [classFilter, setClassFilter] = useState('all');
   const [mentorFilter, setMentorFilter] = useState('all');
@@ -32,7 +51,11 @@ export function MonthlyDetailedReport({ user, departments, classes, students, re
   const { toast } = useToast();
   const [logoBase64, setLogoBase64] = useState<string | null>(null);
 
-  const isAdminOrViewer = user?.role === 'admin' || user?.role === 'viewer' || user?.role === 'dean';
+  const isAdminOrViewer = user?.role === 'admin' || user?.role === 'viewer' || user?.role === 'dean' || user?.role === 'hod';
+
+  // Teachers report on a class they currently teach, including ones they are substituting in.
+  const teacherClassIds = useMemo(() => getAssignedClassIds(assignments, format(new Date(), 'yyyy-MM-dd')), [assignments]);
+  const teacherClassId = !isAdminOrViewer && teacherClassIds.includes(classFilter) ? classFilter : undefined;
 
   useEffect(() => {
     fetch('/svcet-head.png')
@@ -49,14 +72,14 @@ export function MonthlyDetailedReport({ user, departments, classes, students, re
   }, []);
 
  const availableClasses = useMemo(() => {
-    if (!isAdminOrViewer && user?.classId) {
-      return classes.filter(c => c.id === user.classId);
+    if (!isAdminOrViewer) {
+      return classes.filter(c => teacherClassIds.includes(c.id));
     }
     if (departmentFilter === 'all') {
       return [];
     }
     return classes.filter(c => c.departmentId === departmentFilter);
-  }, [departmentFilter, classes, isAdminOrViewer, user?.classId]);
+  }, [departmentFilter, classes, isAdminOrViewer, teacherClassIds]);
 
   const availableMentors = useMemo(() => {
     const mentorSet = new Set<string>();
@@ -67,8 +90,8 @@ export function MonthlyDetailedReport({ user, departments, classes, students, re
     } else if (departmentFilter !== 'all') {
         const classIdsInDept = classes.filter(c => c.departmentId === departmentFilter).map(c => c.id);
         relevantStudents = students.filter(s => classIdsInDept.includes(s.classId));
-    } else if (user?.role === 'teacher' && user.classId) {
-        relevantStudents = students.filter(s => s.classId === user.classId);
+    } else if (!isAdminOrViewer) {
+        relevantStudents = students.filter(s => teacherClassIds.includes(s.classId));
     } else {
         return [];
     }
@@ -77,7 +100,7 @@ export function MonthlyDetailedReport({ user, departments, classes, students, re
       if (s.mentor) mentorSet.add(s.mentor);
     });
     return Array.from(mentorSet).sort();
-  }, [students, classFilter, departmentFilter, classes, user]);
+  }, [students, classFilter, departmentFilter, classes, isAdminOrViewer, teacherClassIds]);
 
 
   useEffect(() => {
@@ -88,26 +111,24 @@ export function MonthlyDetailedReport({ user, departments, classes, students, re
   }, [departmentFilter, isAdminOrViewer]);
 
   useEffect(() => {
-    if (isAdminOrViewer) {
-        setMentorFilter('all');
-    }
-  }, [classFilter, isAdminOrViewer]);
+    setMentorFilter('all');
+  }, [classFilter]);
 
 
   useEffect(() => {
-    if (user?.role === 'teacher' && user.classId) {
-      const teacherClass = classes.find(c => c.id === user.classId);
+    if (user?.role === 'teacher' && !teacherClassIds.includes(classFilter)) {
+      const teacherClass = classes.find(c => teacherClassIds.includes(c.id));
       if (teacherClass) {
         setDepartmentFilter(teacherClass.departmentId);
         setClassFilter(teacherClass.id);
       }
     }
-  }, [user, classes]);
+  }, [user, classes, teacherClassIds, classFilter]);
 
   const generateReportData = () => {
-    const finalClassId = isAdminOrViewer ? classFilter : user?.classId;
+    const finalClassId = isAdminOrViewer ? classFilter : teacherClassId;
     
-    if (finalClassId === 'all' && mentorFilter === 'all' && !user?.classId) {
+    if ((!finalClassId || finalClassId === 'all') && mentorFilter === 'all') {
       toast({
         variant: 'destructive',
         title: 'Selection Required',
@@ -116,12 +137,23 @@ export function MonthlyDetailedReport({ user, departments, classes, students, re
       return null;
     }
 
+    const today = new Date();
+    const monthStart = startOfMonth(new Date(selectedMonthYear.year, selectedMonthYear.month - 1));
+    const monthEnd = endOfMonth(monthStart);
+    const monthDays = eachDayOfInterval({ start: monthStart, end: monthEnd });
+    const rosterIndex = createRosterIndex(submissions);
+
     let studentsToReport = students;
     if (mentorFilter !== 'all') {
         studentsToReport = studentsToReport.filter(s => s.mentor === mentorFilter);
     }
     if (finalClassId !== 'all' && finalClassId) {
-        studentsToReport = studentsToReport.filter(s => s.classId === finalClassId);
+        // Students on the month's roster snapshots who have since left are still reported for the days they were there.
+        studentsToReport = [
+            ...studentsToReport.filter(s => s.classId === finalClassId),
+            ...getRosterOnlyStudents(students, rosterIndex, finalClassId, format(monthStart, 'yyyy-MM-dd'), format(monthEnd, 'yyyy-MM-dd'))
+                .filter(s => mentorFilter === 'all' || s.mentor === mentorFilter),
+        ];
     }
 
     studentsToReport.sort((a, b) => (a.registerNo || a.name).localeCompare(b.registerNo || a.name));
@@ -131,26 +163,15 @@ export function MonthlyDetailedReport({ user, departments, classes, students, re
       return null;
     }
 
-    const today = new Date();
-    const monthStart = startOfMonth(new Date(selectedMonthYear.year, selectedMonthYear.month - 1));
-    const monthEnd = endOfMonth(monthStart);
-    const monthDays = eachDayOfInterval({ start: monthStart, end: monthEnd });
-
-    const workingDaysMap = new Map<string, boolean>();
-    workingDays.forEach(wd => {
-      workingDaysMap.set(format(wd.timestamp, 'yyyy-MM-dd'), wd.isWorkingDay);
-    });
-
-    const monthWorkingDays = monthDays.filter(day => {
-        const dateKey = format(day, 'yyyy-MM-dd');
-        return (workingDaysMap.get(dateKey) ?? false) && !isSunday(day) && day <= today;
-    });
-    const totalWorkingDays = monthWorkingDays.length;
+    const calendar = createCalendarResolver(workingDays, classes, settings);
+    const isWorkingFor = (classId: string, day: Date) => calendar.isInstructional({ classId }, format(day, 'yyyy-MM-dd'));
 
     const monthRecords = records.filter(r => {
       const recordDate = new Date(r.timestamp);
       return recordDate >= monthStart && recordDate <= monthEnd;
     });
+    const absences = getStudentDayAbsences(monthRecords, submissions, settings);
+    const specialStatuses = getStudentDayStatuses(monthRecords);
 
     const body: any[][] = [];
     const head: string[] = ['S.No', 'Register No.', 'Student Name', ...monthDays.map(d => format(d, 'd')), 'Total', 'Present', 'Absent', '%'];
@@ -159,31 +180,46 @@ export function MonthlyDetailedReport({ user, departments, classes, students, re
     const dailyAbsentCounts: (number | string)[] = Array(monthDays.length).fill(0);
 
     studentsToReport.forEach((student, index) => {
+      // Days the student was not on the class roster (or enrolled, before snapshots) are marked '-' and left out of their total.
+      const enrolledClassIds = monthDays.map(day => getRosterClassId(student, format(day, 'yyyy-MM-dd'), rosterIndex));
+      const totalWorkingDays = monthDays.filter((day, dayIndex) => {
+          const classId = enrolledClassIds[dayIndex];
+          return !!classId && isWorkingFor(classId, day) && day <= today;
+      }).length;
       let presentCount = 0;
       let absentCount = 0;
       const dailyStatuses = monthDays.map((day, dayIndex) => {
           if (isFuture(day)) return '';
           
           const dateKey = format(day, 'yyyy-MM-dd');
-          const isWorking = (workingDaysMap.get(dateKey) ?? false) && !isSunday(day);
-          
-          if (!isWorking) return 'H';
+          const classId = enrolledClassIds[dayIndex];
+          if (!classId) return '-';
+          if (!isWorkingFor(classId, day)) return 'H';
 
-          const submission = submissions.find(s => s.classId === student.classId && s.date === dateKey);
-          if (!submission && day <= today) {
+          if (!hasSubmissionForDay(submissions, classId, dateKey) && day <= today) {
               return 'NS';
           }
 
-          const isAbsent = monthRecords.some(r => r.studentId === student.id && isSameDay(new Date(r.timestamp), day));
-          if(isAbsent) {
+          const key = getStudentDayKey(student.id, dateKey);
+          const absence = absences.get(key) ?? 0;
+          const specialStatus = specialStatuses.get(key);
+          if (absence === 0.5) {
+              // Half-day absence: half a day of credit each way, labelled with the missed session.
+              const sessionRecord = monthRecords.find(r => r.studentId === student.id && r.date === dateKey && r.session);
+              presentCount += 0.5;
+              absentCount += 0.5;
+              (dailyPresentCounts[dayIndex] as number) += 0.5;
+              (dailyAbsentCounts[dayIndex] as number) += 0.5;
+              return sessionRecord?.session || 'A';
+          } else if (absence > 0) {
               absentCount++;
               (dailyAbsentCounts[dayIndex] as number)++;
-              return 'A';
+              return specialStatus ? statusCodes[specialStatus] : 'A';
           } else {
               if (day <= today) {
                   presentCount++;
                   (dailyPresentCounts[dayIndex] as number)++;
-                  return 'P';
+                  return specialStatus ? statusCodes[specialStatus] : 'P';
               }
               return '';
           }
@@ -213,14 +249,13 @@ export function MonthlyDetailedReport({ user, departments, classes, students, re
       }
 
       const dateKey = format(day, 'yyyy-MM-dd');
-      const isWorking = (workingDaysMap.get(dateKey) ?? false) && !isSunday(day);
-      if (!isWorking) {
+      if (!studentsToReport.some(s => isWorkingFor(s.classId, day))) {
         dailyPresentCounts[index] = 'H';
         dailyAbsentCounts[index] = 'H';
         return;
       }
 
-      const allStudentsMissingSubmission = studentsToReport.every(s => !submissions.find(sub => sub.classId === s.classId && sub.date === dateKey));
+      const allStudentsMissingSubmission = studentsToReport.every(s => !hasSubmissionForDay(submissions, s.classId, dateKey));
       if (allStudentsMissingSubmission && day <= today) {
         dailyPresentCounts[index] = 'NS';
         dailyAbsentCounts[index] = 'NS';
@@ -249,7 +284,7 @@ export function MonthlyDetailedReport({ user, departments, classes, students, re
       return rowObject;
     });
 
-    const finalClassId = isAdminOrViewer ? classFilter : user?.classId;
+    const finalClassId = isAdminOrViewer ? classFilter : teacherClassId;
     const selectedClass = classes.find(c => c.id === finalClassId);
     let fileName = `Monthly-Detailed-Report`;
     if(selectedClass && finalClassId !== 'all') fileName += `-${selectedClass.name}`;
@@ -269,7 +304,7 @@ export function MonthlyDetailedReport({ user, departments, classes, students, re
     }
 
     const { head, body } = reportData;
-    const finalClassId = isAdminOrViewer ? classFilter : user?.classId;
+    const finalClassId = isAdminOrViewer ? classFilter : teacherClassId;
     const selectedClass = classes.find(c => c.id === finalClassId);
     const selectedDepartment = departments.find(d => d.id === selectedClass?.departmentId);
 
@@ -342,6 +377,17 @@ export function MonthlyDetailedReport({ user, departments, classes, students, re
                 doc.rect(cell.x, cell.y, cell.width, cell.height, 'F');
                 doc.setTextColor(100, 100, 100);
                 doc.text('H', cell.x + cell.width / 2, cell.y + cell.height / 2, { align: 'center', baseline: 'middle' });
+            } else if (text === 'FN' || text === 'AN') {
+                doc.setFillColor(255, 224, 178); // Light orange
+                doc.rect(cell.x, cell.y, cell.width, cell.height, 'F');
+                doc.setTextColor(154, 52, 18); // Dark orange
+                doc.text(text, cell.x + cell.width / 2, cell.y + cell.height / 2, { align: 'center', baseline: 'middle' });
+            } else if (text === 'OD' || text === 'ML' || text === 'L') {
+                const [fill, textColor] = statusCellColors[text];
+                doc.setFillColor(...fill);
+                doc.rect(cell.x, cell.y, cell.width, cell.height, 'F');
+                doc.setTextColor(...textColor);
+                doc.text(text, cell.x + cell.width / 2, cell.y + cell.height / 2, { align: 'center', baseline: 'middle' });
             } else if (text === 'NS') {
                 doc.setFillColor(255, 243, 205); // Light yellow
                 doc.rect(cell.x, cell.y, cell.width, cell.height, 'F');
@@ -391,7 +437,7 @@ export function MonthlyDetailedReport({ user, departments, classes, students, re
     }
   };
 
-  const isDownloadDisabled = isGenerating || (isAdminOrViewer && classFilter === 'all' && mentorFilter === 'all') || (!isAdminOrViewer && !user?.classId);
+  const isDownloadDisabled = isGenerating || (isAdminOrViewer && classFilter === 'all' && mentorFilter === 'all') || (!isAdminOrViewer && !teacherClassId);
 
   return (
     <div className="space-y-4">
@@ -437,7 +483,20 @@ export function MonthlyDetailedReport({ user, departments, classes, students, re
             </>
           ) : (
              <div className="flex items-center gap-2">
-                <p className="text-sm font-medium p-2 border rounded-md bg-muted/50">{classes.find(c => c.id === user?.classId)?.name || 'My Class'}</p>
+                {availableClasses.length > 1 ? (
+                    <Select value={classFilter} onValueChange={setClassFilter}>
+                        <SelectTrigger className="w-full sm:w-[180px]">
+                            <SelectValue placeholder="Class" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {availableClasses.map(c => (
+                                <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                ) : (
+                    <p className="text-sm font-medium p-2 border rounded-md bg-muted/50">{classes.find(c => c.id === teacherClassId)?.name || 'My Class'}</p>
+                )}
                 <Select value={mentorFilter} onValueChange={setMentorFilter}>
                     <SelectTrigger className="w-full sm:w-[180px]">
                         <SelectValue placeholder="Mentor" />
@@ -465,7 +524,9 @@ export function MonthlyDetailedReport({ user, departments, classes, students, re
       </div>
       <div className="text-sm text-muted-foreground p-4 border rounded-lg">
         <p>Select a month and a class or mentor, then click a download button to get a detailed daily attendance report for each student.</p>
-        <p className="text-xs mt-1 font-semibold">Legend: P = Present, A = Absent, H = Holiday, NS = Not Submitted.</p>
+        <p className="text-xs mt-1 font-semibold">
+          Legend: P = Present, A = Absent, FN/AN = Absent for the forenoon/afternoon only (half day), {specialAttendanceStatuses.map(status => `${statusCodes[status]} = ${status} (${settings.countsAsPresent[status] ? 'present' : 'absent'})`).join(', ')}, H = Holiday, NS = Not Submitted, - = Not Enrolled.
+        </p>
       </div>
     </div>
   );
@@ -22,6 +22,7 @@ import { FeeAnalytics } from '../../_components/fee-analytics';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import { cn } from '@/lib/utils';
+import { fetchStaffAssignments, getAssignedClassIds, getDocsWhereIn } from '@/lib/assignments';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 
@@ -74,18 +75,20 @@ export function FeesManager() {
     const fetchData = async () => {
       setLoading(true);
       try {
+        // Other staff see the students of the classes they currently teach, including ones they are substituting in.
+        const classIds = isAdmin ? [] : getAssignedClassIds(await fetchStaffAssignments(firestore, staff), format(new Date(), 'yyyy-MM-dd'));
         const studentsPromise = isAdmin 
-            ? getDocs(collection(firestore, 'students'))
-            : getDocs(query(collection(firestore, 'students'), where('classId', '==', staff.classId)));
+            ? getDocs(collection(firestore, 'students')).then(snap => snap.docs)
+            : getDocsWhereIn(firestore, 'students', 'classId', classIds);
             
         const feesPromise = getDocs(collection(firestore, 'fees'));
         
         const classesPromise = getDocs(collection(firestore, 'classes'));
         const deptsPromise = getDocs(collection(firestore, 'departments'));
 
-        const [studentsSnap, feesSnap, classesSnap, deptsSnap] = await Promise.all([studentsPromise, feesPromise, classesPromise, deptsPromise]);
+        const [studentDocs, feesSnap, classesSnap, deptsSnap] = await Promise.all([studentsPromise, feesPromise, classesPromise, deptsPromise]);
 
-        const studentsData = studentsSnap.docs.map(d => ({ id: d.id, ...d.data() } as Student));
+        const studentsData = studentDocs.map(d => ({ id: d.id, ...d.data() } as Student));
         setStudents(studentsData);
         
         const studentIds = new Set(studentsData.map(s => s.id));
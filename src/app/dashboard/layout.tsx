@@ -7,7 +7,7 @@ import { useAuth } from '@/context/auth-context';
 import { Header } from '@/components/header';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Button } from '@/components/ui/button';
-import { BarChart3, UserSearch, Home, Users, KeyRound, DollarSign } from 'lucide-react';
+import { BarChart3, UserSearch, Home, Users, KeyRound, DollarSign, Settings, CalendarCheck, Percent, BellRing, GraduationCap, BookUser } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 export default function DashboardLayout({
@@ -47,12 +47,18 @@ export default function DashboardLayout({
   }
   
   const navItems = [
-    { href: '/dashboard', icon: Home, label: 'Home', roles: ['admin', 'teacher', 'viewer', 'dean'] },
-    { href: '/dashboard/student-report', icon: UserSearch, label: 'Student', roles: ['admin', 'teacher', 'viewer', 'dean'] },
+    { href: '/dashboard', icon: Home, label: 'Home', roles: ['admin', 'teacher', 'viewer', 'dean', 'hod'] },
+    { href: '/dashboard/student-report', icon: UserSearch, label: 'Student', roles: ['admin', 'teacher', 'viewer', 'dean', 'hod'] },
     { href: '/dashboard/fees', icon: DollarSign, label: 'Fees', roles: ['admin', 'teacher'] },
-    { href: '/dashboard/analytics', icon: BarChart3, label: 'Analytics', roles: ['admin', 'teacher', 'viewer', 'dean'] },
+    { href: '/dashboard/leaves', icon: CalendarCheck, label: 'Leaves', roles: ['admin', 'teacher', 'hod'] },
+    { href: '/dashboard/shortage', icon: Percent, label: 'Shortage', roles: ['admin', 'teacher', 'hod', 'dean'] },
+    { href: '/dashboard/alerts', icon: BellRing, label: 'Alerts', roles: ['admin', 'teacher', 'hod'] },
+    { href: '/dashboard/analytics', icon: BarChart3, label: 'Analytics', roles: ['admin', 'teacher', 'viewer', 'dean', 'hod'] },
     { href: '/dashboard/staff', icon: Users, label: 'Staff', roles: ['admin'] },
-    { href: '/dashboard/working-days', icon: KeyRound, label: 'Days', roles: ['admin'] },
+    { href: '/dashboard/students', icon: BookUser, label: 'Students', roles: ['admin'] },
+    { href: '/dashboard/working-days', icon: KeyRound, label: 'Calendar', roles: ['admin'] },
+    { href: '/dashboard/rollover', icon: GraduationCap, label: 'Rollover', roles: ['admin'] },
+    { href: '/dashboard/settings', icon: Settings, label: 'Settings', roles: ['admin'] },
   ].filter(item => staff && item.roles.includes(staff.role));
 
   return (
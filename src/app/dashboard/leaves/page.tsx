@@ -0,0 +1,498 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { collection, getDocs, doc, setDoc, updateDoc, query, orderBy, where, Timestamp, type QueryDocumentSnapshot } from 'firebase/firestore';
+import { useFirebase } from '@/firebase';
+import { useAuth } from '@/context/auth-context';
+import { useRouter } from 'next/navigation';
+import { format, parseISO } from 'date-fns';
+import type { DateRange } from 'react-day-picker';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import type { Class, ClassAssignment, Department, LeaveApplication, LeaveType, Staff, Student } from '@/lib/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Calendar } from '@/components/ui/calendar';
+import { CalendarIcon, Check, FilePlus2, Paperclip, X } from 'lucide-react';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
+import { canTeachClass, fetchStaffAssignments, getAssignedClassIds, getDocsWhereIn } from '@/lib/assignments';
+
+const leaveTypes: LeaveType[] = ['Medical', 'Family Function', 'Personal', 'Other'];
+
+const statusVariants: Record<LeaveApplication['status'], 'default' | 'secondary' | 'destructive'> = {
+  Pending: 'secondary',
+  Approved: 'default',
+  Rejected: 'destructive',
+};
+
+export default function LeavesPage() {
+  const { firestore: db } = useFirebase();
+  const { staff, isUserLoading } = useAuth();
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [classes, setClasses] = useState<Class[]>([]);
+  const [students, setStudents] = useState<Student[]>([]);
+  const [leaves, setLeaves] = useState<LeaveApplication[]>([]);
+  const [assignments, setAssignments] = useState<ClassAssignment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<LeaveApplication['status'] | 'all'>('Pending');
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [reviewing, setReviewing] = useState<{ leave: LeaveApplication; approve: boolean } | null>(null);
+
+  const canAccess = staff?.role === 'admin' || staff?.role === 'teacher' || staff?.role === 'hod';
+
+  useEffect(() => {
+    if (!isUserLoading && !canAccess) {
+      router.push('/dashboard');
+    }
+  }, [canAccess, isUserLoading, router]);
+
+  useEffect(() => {
+    if (isUserLoading || !staff || !canAccess) return;
+
+    const fetchData = async () => {
+      setLoading(true);
+      try {
+        // Teachers work with the classes they currently teach, including ones they are substituting in.
+        const teacherAssignments = staff.role === 'teacher' ? await fetchStaffAssignments(db, staff) : [];
+        const classIds = getAssignedClassIds(teacherAssignments, format(new Date(), 'yyyy-MM-dd'));
+
+        let studentsPromise: Promise<{ docs: QueryDocumentSnapshot[] }> = getDocs(query(collection(db, 'students')));
+        let leavesPromise: Promise<{ docs: QueryDocumentSnapshot[] }> = getDocs(query(collection(db, 'leaveApplications')));
+        if (staff.role === 'teacher') {
+          studentsPromise = getDocsWhereIn(db, 'students', 'classId', classIds).then(docs => ({ docs }));
+          leavesPromise = getDocsWhereIn(db, 'leaveApplications', 'classId', classIds).then(docs => ({ docs }));
+        } else if (staff.role === 'hod' && staff.departmentId) {
+          studentsPromise = getDocs(query(collection(db, 'students'), where('departmentId', '==', staff.departmentId)));
+          leavesPromise = getDocs(query(collection(db, 'leaveApplications'), where('departmentId', '==', staff.departmentId)));
+        }
+
+        const [deptsSnap, classesSnap, studentsSnap, leavesSnap] = await Promise.all([
+          getDocs(query(collection(db, 'departments'), orderBy('name'))),
+          getDocs(query(collection(db, 'classes'), orderBy('name'))),
+          studentsPromise,
+          leavesPromise,
+        ]);
+
+        setAssignments(teacherAssignments);
+        setDepartments(deptsSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as Department)));
+        setClasses(classesSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as Class)));
+        setStudents(studentsSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as Student)).sort((a, b) => (a.registerNo || a.name).localeCompare(b.registerNo || b.name)));
+        setLeaves(leavesSnap.docs.map(doc => {
+          const data = doc.data();
+          const appliedAt = data.appliedAt instanceof Timestamp ? data.appliedAt.toDate() : new Date(data.appliedAt);
+          return { id: doc.id, ...data, appliedAt } as LeaveApplication;
+        }).sort((a, b) => b.appliedAt.getTime() - a.appliedAt.getTime()));
+      } catch (error) {
+        console.error("Error fetching leave applications:", error);
+        toast({ variant: 'destructive', title: 'Error', description: 'Failed to fetch leave applications.' });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [db, staff, isUserLoading, canAccess, toast]);
+
+  const filteredLeaves = useMemo(() => {
+    return statusFilter === 'all' ? leaves : leaves.filter(l => l.status === statusFilter);
+  }, [leaves, statusFilter]);
+
+  // The class's teachers, the student's mentor, the department HOD and admins can approve.
+  const canReview = (leave: LeaveApplication) => {
+    if (!staff || leave.status !== 'Pending') return false;
+    if (staff.role === 'admin') return true;
+    if (staff.role === 'hod') return staff.departmentId === leave.departmentId;
+    const student = students.find(s => s.id === leave.studentId);
+    return canTeachClass(assignments, leave.classId, format(new Date(), 'yyyy-MM-dd')) || (!!student?.mentor && student.mentor === staff.name);
+  };
+
+  const handleApply = async (leaveData: Omit<LeaveApplication, 'id' | 'appliedBy' | 'appliedByName' | 'appliedAt' | 'status'>) => {
+    if (!staff) return;
+    try {
+      const leaveRef = doc(collection(db, 'leaveApplications'));
+      const newLeave: Omit<LeaveApplication, 'id'> = {
+        ...leaveData,
+        appliedBy: staff.id,
+        appliedByName: staff.name,
+        appliedAt: new Date(),
+        status: 'Pending',
+      };
+      await setDoc(leaveRef, newLeave);
+      setLeaves(prev => [{ ...newLeave, id: leaveRef.id }, ...prev]);
+      setIsDialogOpen(false);
+      toast({ title: 'Success', description: 'Leave application recorded and sent for approval.' });
+    } catch (error) {
+      console.error("Error saving leave application:", error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Failed to save the leave application.' });
+    }
+  };
+
+  const handleReview = async (leave: LeaveApplication, approve: boolean, reviewNote: string) => {
+    if (!staff) return;
+    const review = {
+      status: approve ? 'Approved' : 'Rejected',
+      reviewedBy: staff.name,
+      reviewedAt: new Date(),
+      ...(reviewNote && { reviewNote }),
+    } as const;
+    try {
+      await updateDoc(doc(db, 'leaveApplications', leave.id), review);
+      setLeaves(prev => prev.map(l => l.id === leave.id ? { ...l, ...review } : l));
+      setReviewing(null);
+      toast({ title: approve ? 'Leave Approved' : 'Leave Rejected', description: `${leave.studentName} (${leave.registerNo})` });
+    } catch (error) {
+      console.error("Error reviewing leave application:", error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Failed to update the leave application.' });
+    }
+  };
+
+  if (isUserLoading || !canAccess) {
+    return (
+        <div className="space-y-8">
+            <Card>
+                <CardHeader><Skeleton className="h-8 w-48" /><Skeleton className="h-4 w-64" /></CardHeader>
+                <CardContent><Skeleton className="h-96 w-full" /></CardContent>
+            </Card>
+        </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <Card>
+        <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <CardTitle>Leave Applications</CardTitle>
+            <CardDescription>
+              Record leave letters in advance. Approved leaves are pre-filled as absent with 'Letter Given' when attendance is taken.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as LeaveApplication['status'] | 'all')}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="Pending">Pending</SelectItem>
+                <SelectItem value="Approved">Approved</SelectItem>
+                <SelectItem value="Rejected">Rejected</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button onClick={() => setIsDialogOpen(true)}>
+              <FilePlus2 className="mr-2 h-4 w-4" /> New Leave
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Class</TableHead>
+                  <TableHead>Dates</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Recorded By</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  Array.from({ length: 5 }).map((_, i) => (
+                    <TableRow key={i}>
+                      <TableCell colSpan={8}><Skeleton className="h-6" /></TableCell>
+                    </TableRow>
+                  ))
+                ) : filteredLeaves.length > 0 ? (
+                  filteredLeaves.map((leave) => (
+                    <TableRow key={leave.id}>
+                      <TableCell>
+                        <div className="font-medium">{leave.studentName}</div>
+                        <div className="text-xs text-muted-foreground">{leave.registerNo}</div>
+                      </TableCell>
+                      <TableCell>{classes.find(c => c.id === leave.classId)?.name || leave.classId}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {format(parseISO(leave.fromDate), 'dd MMM')}
+                        {leave.toDate !== leave.fromDate && ` - ${format(parseISO(leave.toDate), 'dd MMM')}`}
+                        {' '}{format(parseISO(leave.toDate), 'yyyy')}
+                      </TableCell>
+                      <TableCell>{leave.type}</TableCell>
+                      <TableCell className="max-w-[240px]">
+                        <div className="whitespace-pre-wrap">{leave.reason}</div>
+                        {leave.attachmentUrl && (
+                          <a href={leave.attachmentUrl} target="_blank" rel="noopener noreferrer" className="flex items-center text-xs text-primary underline">
+                            <Paperclip className="mr-1 h-3 w-3" /> Attachment
+                          </a>
+                        )}
+                      </TableCell>
+                      <TableCell>{leave.appliedByName}</TableCell>
+                      <TableCell>
+                        <Badge variant={statusVariants[leave.status]}>{leave.status}</Badge>
+                        {leave.reviewedBy && <div className="text-xs text-muted-foreground mt-1">by {leave.reviewedBy}</div>}
+                        {leave.reviewNote && <div className="text-xs text-muted-foreground">{leave.reviewNote}</div>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {canReview(leave) && (
+                          <div className="flex justify-end gap-2">
+                            <Button variant="outline" size="sm" onClick={() => setReviewing({ leave, approve: true })}>
+                              <Check className="mr-2 h-4 w-4" /> Approve
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => setReviewing({ leave, approve: false })}>
+                              <X className="mr-2 h-4 w-4" /> Reject
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={8} className="h-24 text-center">
+                      No leave applications found.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {isDialogOpen && staff && (
+        <LeaveFormDialog
+          isOpen={isDialogOpen}
+          setIsOpen={setIsDialogOpen}
+          staff={staff}
+          teacherClassIds={getAssignedClassIds(assignments, format(new Date(), 'yyyy-MM-dd'))}
+          departments={departments}
+          classes={classes}
+          students={students}
+          onSave={handleApply}
+        />
+      )}
+
+      {reviewing && (
+        <ReviewLeaveDialog
+          leave={reviewing.leave}
+          approve={reviewing.approve}
+          setIsOpen={(open) => !open && setReviewing(null)}
+          onConfirm={handleReview}
+        />
+      )}
+    </div>
+  );
+}
+
+function LeaveFormDialog({ isOpen, setIsOpen, staff, teacherClassIds, departments, classes, students, onSave }: {
+  isOpen: boolean;
+  setIsOpen: (open: boolean) => void;
+  staff: Staff;
+  teacherClassIds: string[];
+  departments: Department[];
+  classes: Class[];
+  students: Student[];
+  onSave: (leave: Omit<LeaveApplication, 'id' | 'appliedBy' | 'appliedByName' | 'appliedAt' | 'status'>) => Promise<void>;
+}) {
+  const isTeacher = staff.role === 'teacher';
+  const [departmentId, setDepartmentId] = useState(staff.role === 'hod' ? staff.departmentId || '' : '');
+  const [classId, setClassId] = useState(isTeacher && teacherClassIds.length === 1 ? teacherClassIds[0] : '');
+  const [studentId, setStudentId] = useState('');
+  const [range, setRange] = useState<DateRange | undefined>();
+  const [type, setType] = useState<LeaveType>('Medical');
+  const [reason, setReason] = useState('');
+  const [attachmentUrl, setAttachmentUrl] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const availableClasses = useMemo(() => {
+    if (isTeacher) return classes.filter(c => teacherClassIds.includes(c.id));
+    return classes.filter(c => c.departmentId === departmentId);
+  }, [classes, departmentId, isTeacher, teacherClassIds]);
+
+  const classStudents = useMemo(() => students.filter(s => s.classId === classId), [students, classId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const student = classStudents.find(s => s.id === studentId);
+    if (!student || !range?.from || !reason.trim()) return;
+
+    setIsSaving(true);
+    await onSave({
+      studentId: student.id,
+      studentName: student.name,
+      registerNo: student.registerNo || 'N/A',
+      classId: student.classId,
+      departmentId: student.departmentId,
+      fromDate: format(range.from, 'yyyy-MM-dd'),
+      toDate: format(range.to || range.from, 'yyyy-MM-dd'),
+      type,
+      reason: reason.trim(),
+      ...(attachmentUrl.trim() && { attachmentUrl: attachmentUrl.trim() }),
+    });
+    setIsSaving(false);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New Leave Application</DialogTitle>
+          <DialogDescription>Record a student's leave letter. It needs approval before it pre-fills attendance.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {staff.role === 'admin' && (
+            <div>
+              <Label htmlFor="leaveDepartment">Department</Label>
+              <Select onValueChange={(value) => { setDepartmentId(value); setClassId(''); setStudentId(''); }} value={departmentId}>
+                <SelectTrigger id="leaveDepartment"><SelectValue placeholder="Select a department" /></SelectTrigger>
+                <SelectContent>
+                  {departments.map(dept => (
+                    <SelectItem key={dept.id} value={dept.id}>{dept.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {(!isTeacher || availableClasses.length > 1) && (
+            <div>
+              <Label htmlFor="leaveClass">Class</Label>
+              <Select onValueChange={(value) => { setClassId(value); setStudentId(''); }} value={classId} disabled={!isTeacher && !departmentId}>
+                <SelectTrigger id="leaveClass"><SelectValue placeholder="Select a class" /></SelectTrigger>
+                <SelectContent>
+                  {availableClasses.map(c => (
+                    <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div>
+            <Label htmlFor="leaveStudent">Student</Label>
+            <Select onValueChange={setStudentId} value={studentId} disabled={!classId}>
+              <SelectTrigger id="leaveStudent"><SelectValue placeholder="Select a student" /></SelectTrigger>
+              <SelectContent>
+                {classStudents.map(s => (
+                  <SelectItem key={s.id} value={s.id}>{s.name} ({s.registerNo || 'N/A'})</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="flex flex-col gap-2">
+              <Label>Dates</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className={cn("justify-start text-left font-normal", !range?.from && "text-muted-foreground")}>
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {range?.from ? (
+                      range.to && range.to.getTime() !== range.from.getTime()
+                        ? `${format(range.from, 'dd MMM')} - ${format(range.to, 'dd MMM')}`
+                        : format(range.from, 'dd MMM yyyy')
+                    ) : (
+                      <span>Pick dates</span>
+                    )}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar mode="range" selected={range} onSelect={setRange} numberOfMonths={1} initialFocus />
+                </PopoverContent>
+              </Popover>
+            </div>
+            <div>
+              <Label htmlFor="leaveType">Type</Label>
+              <Select onValueChange={(value) => setType(value as LeaveType)} value={type}>
+                <SelectTrigger id="leaveType"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {leaveTypes.map(t => (
+                    <SelectItem key={t} value={t}>{t}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="leaveReason">Reason</Label>
+            <Textarea id="leaveReason" value={reason} onChange={(e) => setReason(e.target.value)} required />
+          </div>
+          <div>
+            <Label htmlFor="leaveAttachment">Attachment Link (optional)</Label>
+            <Input id="leaveAttachment" type="url" value={attachmentUrl} onChange={(e) => setAttachmentUrl(e.target.value)} placeholder="Link to the letter or medical certificate" />
+          </div>
+          <DialogFooter>
+            <DialogClose asChild><Button type="button" variant="outline">Cancel</Button></DialogClose>
+            <Button type="submit" disabled={isSaving || !studentId || !range?.from || !reason.trim()}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ReviewLeaveDialog({ leave, approve, setIsOpen, onConfirm }: {
+  leave: LeaveApplication;
+  approve: boolean;
+  setIsOpen: (open: boolean) => void;
+  onConfirm: (leave: LeaveApplication, approve: boolean, reviewNote: string) => Promise<void>;
+}) {
+  const [reviewNote, setReviewNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    await onConfirm(leave, approve, reviewNote.trim());
+    setIsSaving(false);
+  };
+
+  return (
+    <Dialog open onOpenChange={setIsOpen}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{approve ? 'Approve Leave' : 'Reject Leave'}</DialogTitle>
+          <DialogDescription>
+            {leave.studentName}, {format(parseISO(leave.fromDate), 'PPP')}{leave.toDate !== leave.fromDate && ` to ${format(parseISO(leave.toDate), 'PPP')}`}.
+          </DialogDescription>
+        </DialogHeader>
+        <div>
+          <Label htmlFor="leaveReviewNote">Note (optional)</Label>
+          <Textarea id="leaveReviewNote" value={reviewNote} onChange={(e) => setReviewNote(e.target.value)} />
+        </div>
+        <DialogFooter>
+          <DialogClose asChild><Button type="button" variant="outline">Cancel</Button></DialogClose>
+          <Button onClick={handleConfirm} disabled={isSaving} variant={approve ? 'default' : 'destructive'}>
+            {isSaving ? 'Saving...' : approve ? 'Approve' : 'Reject'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,21 +1,32 @@
 "use client";
 
-import { useState, useEffect, useMemo } from 'react';
-import { collection, getDocs, query, orderBy, Timestamp, writeBatch, doc, where, runTransaction, increment } from 'firebase/firestore';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { collection, getDocs, getDoc, query, orderBy, Timestamp, doc, where, runTransaction, setDoc, updateDoc, arrayUnion } from 'firebase/firestore';
 import { useFirebase } from '@/firebase';
 import { EntryForm } from './_components/entry-form';
-import type { AttendanceRecord, Department, Class, Student, WorkingDay, AttendanceSubmission } from '@/lib/types';
+import type { AttendanceRecord, Department, Class, Student, WorkingDay, AttendanceSubmission, AttendanceSettings, AttendanceCorrection, LeaveApplication, ClassAssignment } from '@/lib/types';
 import { useToast } from '@/hooks/use-toast';
 import { Skeleton } from '@/components/ui/skeleton';
 import { StrengthSummary } from './_components/strength-summary';
 import { AttendanceStatus } from './_components/attendance-status';
-import { format, isSunday } from 'date-fns';
+import { format } from 'date-fns';
 import { useAuth } from '@/context/auth-context';
 import { AbsenteesList } from './_components/absentees-list';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { defaultAttendanceSettings, fetchAttendanceSettings } from '@/lib/settings';
+import { getSubmissionId, getConflictingSubmissionIds, getAbsentCountUpdate, applyAbsentCountChange, getSubmissionCutoff, isPastTime, SubmissionConflictError } from '@/lib/attendance';
+import { CorrectionsList } from './_components/corrections-list';
+import type { CorrectionRequest } from './_components/correction-request-dialog';
+import type { FollowUpUpdate } from './_components/follow-up-dialog';
+import { SubmissionConflictDialog, type SubmissionConflict } from './_components/submission-conflict-dialog';
+import { queueAbsenceNotifications } from '@/lib/actions';
+import { fetchStaffAssignments, getDocsWhereIn } from '@/lib/assignments';
+import { addToOutbox, getOutbox, isNetworkError, removeFromOutbox, subscribeToOutbox, updateOutboxEntry, type OutboxEntry } from '@/lib/outbox';
+import { createCalendarResolver, fetchCalendarDays } from '@/lib/calendar';
+import { toDate } from '@/lib/utils';
 
 export default function DashboardPage() {
-  const { firestore: db } = useFirebase();
+  const { firestore: db, auth } = useFirebase();
   const { staff, isUserLoading } = useAuth();
   const [departments, setDepartments] = useState<Department[]>([]);
   const [classes, setClasses] = useState<Class[]>([]);
@@ -23,6 +34,14 @@ export default function DashboardPage() {
   const [records, setRecords] = useState<AttendanceRecord[]>([]);
   const [submissions, setSubmissions] = useState<AttendanceSubmission[]>([]);
   const [workingDays, setWorkingDays] = useState<WorkingDay[]>([]);
+  const [settings, setSettings] = useState<AttendanceSettings>(defaultAttendanceSettings);
+  const [corrections, setCorrections] = useState<AttendanceCorrection[]>([]);
+  const [leaves, setLeaves] = useState<LeaveApplication[]>([]);
+  const [assignments, setAssignments] = useState<ClassAssignment[]>([]);
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  const isSyncingRef = useRef(false);
+  const syncOutboxRef = useRef<() => Promise<void>>();
+  const [submissionConflict, setSubmissionConflict] = useState<SubmissionConflict | null>(null);
   const [initialDataLoading, setInitialDataLoading] = useState(true);
   const { toast } = useToast();
 
@@ -35,19 +54,34 @@ export default function DashboardPage() {
 
         const deptsPromise = getDocs(query(collection(db, 'departments'), orderBy('name')));
         const classesPromise = getDocs(query(collection(db, 'classes'), orderBy('name')));
-        const workDaysPromise = getDocs(query(collection(db, 'workingDays')));
+        const workDaysPromise = fetchCalendarDays(db);
         const submissionsPromise = getDocs(query(collection(db, 'attendanceSubmissions'), orderBy('submittedAt', 'desc')));
         
+        // Teachers can be class teacher, co-class teacher or substitute for several classes.
+        const teacherAssignments = staff.role === 'teacher' ? await fetchStaffAssignments(db, staff) : [];
+        const assignedClassIds = Array.from(new Set(teacherAssignments.map(a => a.classId)));
+
         let studentsPromise;
-        if (staff.role === 'teacher' && staff.classId) {
-            studentsPromise = getDocs(query(collection(db, 'students'), where('classId', '==', staff.classId)));
+        if (staff.role === 'teacher') {
+            studentsPromise = getDocsWhereIn(db, 'students', 'classId', assignedClassIds).then(docs => ({ docs }));
         } else {
             studentsPromise = getDocs(query(collection(db, 'students')));
         }
         const recordsPromise = getDocs(query(collection(db, 'attendanceRecords'), orderBy('timestamp', 'desc')));
 
-        const [depts, clss, studs, recs, workDays, subs] = await Promise.all([
-          deptsPromise, classesPromise, studentsPromise, recordsPromise, workDaysPromise, submissionsPromise
+        let correctionsPromise;
+        if (staff.role === 'hod' && staff.departmentId) {
+            correctionsPromise = getDocs(query(collection(db, 'attendanceCorrections'), where('departmentId', '==', staff.departmentId)));
+        } else if (staff.role === 'admin') {
+            correctionsPromise = getDocs(query(collection(db, 'attendanceCorrections')));
+        } else {
+            correctionsPromise = getDocs(query(collection(db, 'attendanceCorrections'), where('requestedBy', '==', staff.id)));
+        }
+
+        const leavesPromise = getDocs(query(collection(db, 'leaveApplications'), where('status', '==', 'Approved')));
+
+        const [depts, clss, studs, recs, workDaysData, subs, settingsData, corrs, lvs] = await Promise.all([
+          deptsPromise, classesPromise, studentsPromise, recordsPromise, workDaysPromise, submissionsPromise, fetchAttendanceSettings(db), correctionsPromise, leavesPromise
         ]);
 
         const deptsData = depts.docs.map(doc => ({id: doc.id, ...doc.data()} as Department));
@@ -60,22 +94,20 @@ export default function DashboardPage() {
             const timestamp = data.timestamp instanceof Timestamp ? data.timestamp.toDate() : new Date(data.timestamp);
             return { id: doc.id, ...data, timestamp } as AttendanceRecord;
         });
-        const workDaysData = workDays.docs.map(doc => {
+        const corrsData = corrs.docs.map(doc => {
           const data = doc.data();
-          const timestamp = data.timestamp instanceof Timestamp ? data.timestamp.toDate() : new Date(data.timestamp);
-          return { id: doc.id, ...data, timestamp } as WorkingDay;
-        });
-
-        const workingDaysMap = new Map<string, boolean>();
-        workDaysData.forEach(wd => {
-            workingDaysMap.set(format(wd.timestamp, 'yyyy-MM-dd'), wd.isWorkingDay);
-        });
+          const requestedAt = data.requestedAt instanceof Timestamp ? data.requestedAt.toDate() : new Date(data.requestedAt);
+          const reviewedAt = data.reviewedAt instanceof Timestamp ? data.reviewedAt.toDate() : data.reviewedAt;
+          return { id: doc.id, ...data, requestedAt, reviewedAt } as AttendanceCorrection;
+        }).sort((a, b) => b.requestedAt.getTime() - a.requestedAt.getTime());
 
+        // Each record is checked against its own class's calendar.
+        const calendar = createCalendarResolver(workDaysData, clssData, settingsData);
+        const studentClassIds = new Map(studsData.map(s => [s.id, s.classId]));
         const filteredRecords = recsData.filter(record => {
             const recordDate = record.timestamp;
             const dateKey = format(recordDate, 'yyyy-MM-dd');
-            if (isSunday(recordDate)) return false;
-            return workingDaysMap.get(dateKey) ?? false;
+            return calendar.isInstructional({ classId: record.classId ?? studentClassIds.get(record.studentId) }, dateKey);
         });
 
         setDepartments(deptsData);
@@ -84,6 +116,10 @@ export default function DashboardPage() {
         setRecords(filteredRecords);
         setWorkingDays(workDaysData);
         setSubmissions(subsData);
+        setSettings(settingsData);
+        setCorrections(corrsData);
+        setAssignments(teacherAssignments);
+        setLeaves(lvs.docs.map(doc => ({ id: doc.id, ...doc.data() } as LeaveApplication)));
 
       } catch (error) {
         console.error("Error fetching initial data: ", error);
@@ -95,8 +131,25 @@ export default function DashboardPage() {
     fetchInitialData();
   }, [staff?.id, isUserLoading, db]);
 
+  useEffect(() => {
+    if (!staff) return;
+    setOutbox(getOutbox(staff.id));
+    return subscribeToOutbox(() => setOutbox(getOutbox(staff.id)));
+  }, [staff?.id]);
+
+  // Goes through the ref so the listener always runs the latest syncOutbox, with this render's state.
+  useEffect(() => {
+    if (!staff || initialDataLoading) return;
+    const handleOnline = () => {
+      syncOutboxRef.current?.().catch(error => console.error("Error syncing queued attendance: ", error));
+    };
+    handleOnline();
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [staff?.id, initialDataLoading]);
+
   const teacherData = useMemo(() => {
-    if (!staff || (staff.role !== 'teacher' && staff.role !== 'admin') || (staff.role === 'teacher' && !staff.classId)) return null;
+    if (!staff || (staff.role !== 'teacher' && staff.role !== 'admin') || (staff.role === 'teacher' && assignments.length === 0)) return null;
     
     if (staff.role === 'admin') {
         return {
@@ -106,44 +159,108 @@ export default function DashboardPage() {
         }
     }
 
-    const teacherClass = classes.find(c => c.id === staff.classId);
-    if (!teacherClass) return null;
+    const teacherClasses = classes.filter(c => assignments.some(a => a.classId === c.id));
+    if (teacherClasses.length === 0) return null;
 
-    const teacherDepartment = departments.find(d => d.id === teacherClass.departmentId);
-    if (!teacherDepartment) return null;
+    const teacherDepartments = departments.filter(d => teacherClasses.some(c => c.departmentId === d.id));
+    if (teacherDepartments.length === 0) return null;
 
     return {
-      department: [teacherDepartment],
-      class: [teacherClass],
-      studentsInClass: students.filter(s => s.classId === staff.classId)
+      department: teacherDepartments,
+      class: teacherClasses,
+      studentsInClass: students.filter(s => teacherClasses.some(c => c.id === s.classId))
     }
-  }, [staff, classes, departments, students]);
+  }, [staff, classes, departments, students, assignments]);
 
 
-  const handleAddRecords = async (newRecords: Omit<AttendanceRecord, 'id' | 'timestamp'>[], submissionData: Omit<AttendanceSubmission, 'id'>) => {
-    try {
-      const batch = writeBatch(db);
-      const timestamp = new Date();
-
-      const recordsWithTimestamp = newRecords.map(record => {
-        const docRef = doc(collection(db, 'attendanceRecords'));
-        const newRecord = { ...record, timestamp };
-        batch.set(docRef, newRecord);
-        return { ...newRecord, id: docRef.id };
+  // Creates a submission and its absentee records only if the class has no submission for the date (and period) yet,
+  // so two people submitting at once cannot both succeed. Throws SubmissionConflictError when one already exists.
+  const commitSubmission = async (newRecords: Omit<AttendanceRecord, 'timestamp'>[], submissionId: string, submissionData: Omit<AttendanceSubmission, 'id' | 'submittedAt'>, timestamp: Date) => {
+    const submissionRef = doc(db, 'attendanceSubmissions', submissionId);
+    const guardRefs = getConflictingSubmissionIds(submissionData.classId, submissionData.date, submissionData.period)
+      .map(id => doc(db, 'attendanceSubmissions', id));
+    const recordsWithTimestamp = newRecords.map(record => ({ ...record, timestamp }));
+    const newSubmission = {
+      ...submissionData,
+      submittedAt: timestamp,
+      isLate: isPastTime(submissionData.date, getSubmissionCutoff(settings, submissionData.departmentId), timestamp),
+    };
+
+    await runTransaction(db, async (transaction) => {
+      for (const ref of guardRefs) {
+        const snap = await transaction.get(ref);
+        if (snap.exists()) {
+          throw new SubmissionConflictError({ id: snap.id, ...snap.data() } as AttendanceSubmission);
+        }
+      }
+      recordsWithTimestamp.forEach(({ id, ...record }) => {
+        transaction.set(doc(db, 'attendanceRecords', id), record);
       });
-      
-      const submissionId = `${submissionData.classId}_${submissionData.date}`;
-      const submissionRef = doc(db, 'attendanceSubmissions', submissionId);
-      const newSubmission = { ...submissionData, submittedAt: timestamp };
-      batch.set(submissionRef, newSubmission);
+      transaction.set(submissionRef, newSubmission);
+    });
 
-      await batch.commit();
+    setRecords(prev => [...recordsWithTimestamp, ...prev].sort((a,b) => b.timestamp.getTime() - a.timestamp.getTime()));
+    setSubmissions(prev => [{...newSubmission, id: submissionId}, ...prev].sort((a, b) => toDate(b.submittedAt).getTime() - toDate(a.submittedAt).getTime()));
 
-      setRecords(prev => [...recordsWithTimestamp, ...prev].sort((a,b) => b.timestamp.getTime() - a.timestamp.getTime()));
-      setSubmissions(prev => [{...newSubmission, id: submissionId}, ...prev].sort((a, b) => (b.submittedAt as any) - (a.submittedAt as any)));
+    // Parent messages are queued and go out in the background; the submission itself is already saved.
+    Promise.resolve(auth.currentUser?.getIdToken())
+      .then(idToken => queueAbsenceNotifications(idToken, recordsWithTimestamp.map(r => r.id)))
+      .then(deliveries => {
+        setRecords(prev => prev.map(r => deliveries[r.id] ? { ...r, notification: deliveries[r.id] } : r));
+      })
+      .catch(error => console.error("Error queueing absence notifications: ", error));
+  };
 
-      return true;
+  // Loads who made the existing submission and what they recorded, and adds it to local state so the form locks.
+  const describeConflict = async (existing: AttendanceSubmission) => {
+    const [submitter, recordsSnap] = await Promise.all([
+      getDoc(doc(db, 'staff', existing.submittedBy)),
+      getDocs(query(collection(db, 'attendanceRecords'), where('classId', '==', existing.classId), where('date', '==', existing.date))),
+    ]);
+    const existingRecords = recordsSnap.docs
+      .map(doc => ({ id: doc.id, ...doc.data() } as AttendanceRecord))
+      .filter(r => (r.period ?? undefined) === (existing.period ?? undefined))
+      .sort((a, b) => (a.registerNo || a.studentName).localeCompare(b.registerNo || b.studentName));
+
+    setSubmissions(prev => prev.some(s => s.id === existing.id) ? prev : [existing, ...prev]);
+    return { submittedByName: submitter.data()?.name || existing.submittedBy, records: existingRecords };
+  };
+
+  const handleAddRecords = async (newRecords: Omit<AttendanceRecord, 'id' | 'timestamp'>[], submissionData: Omit<AttendanceSubmission, 'id'>) => {
+    if (!staff) return false;
+    const timestamp = new Date();
+    const submissionId = getSubmissionId(submissionData.classId, submissionData.date, submissionData.period);
+    const { submittedAt, ...submission } = submissionData;
+    // Ids are generated up front so a queued entry syncs with the same record ids.
+    const recordsWithIds = newRecords.map(record => ({ ...record, id: doc(collection(db, 'attendanceRecords')).id }));
+
+    const queueSubmission = () => {
+      addToOutbox(staff.id, { id: submissionId, records: recordsWithIds, submission, queuedAt: timestamp.toISOString() });
+      return 'queued' as const;
+    };
+
+    if (!navigator.onLine) return queueSubmission();
+
+    try {
+      await commitSubmission(recordsWithIds, submissionId, submission, timestamp);
+      return 'submitted' as const;
     } catch (error) {
+      if (error instanceof SubmissionConflictError) {
+        try {
+          const details = await describeConflict(error.existing);
+          setSubmissionConflict({
+            ...details,
+            existing: error.existing,
+            attempted: { presentCount: submission.presentCount, absentCount: submission.absentCount },
+            className: recordsWithIds[0]?.className || classes.find(c => c.id === submission.classId)?.name || submission.classId,
+          });
+        } catch (detailsError) {
+          console.error("Error loading the existing submission: ", detailsError);
+          toast({ variant: "destructive", title: "Already Submitted", description: "Someone else submitted attendance for this class first. Your entry was not saved." });
+        }
+        return false;
+      }
+      if (isNetworkError(error)) return queueSubmission();
       console.error("Error adding documents: ", error);
       toast({
         variant: "destructive",
@@ -154,27 +271,80 @@ export default function DashboardPage() {
     }
   };
 
-  const handleUpdateRecord = async (recordId: string, classId: string, date: string) => {
+  // Pushes queued submissions once the device is back online. A queued entry is held back as a conflict
+  // if someone else submitted the same class and date meanwhile.
+  const syncOutbox = async () => {
+    if (!staff || isSyncingRef.current || !navigator.onLine) return;
+    const entries = getOutbox(staff.id).filter(e => !e.conflict);
+    if (entries.length === 0) return;
+
+    isSyncingRef.current = true;
+    let synced = 0;
+    let conflicts = 0;
+    try {
+      for (const entry of entries) {
+        try {
+          await commitSubmission(entry.records, entry.id, entry.submission, new Date(entry.queuedAt));
+          removeFromOutbox(staff.id, entry.id);
+          synced++;
+        } catch (error) {
+          if (error instanceof SubmissionConflictError) {
+            const { existing } = error;
+            const submittedAt = existing.submittedAt instanceof Timestamp ? existing.submittedAt.toDate() : new Date(existing.submittedAt);
+            try {
+              const { submittedByName } = await describeConflict(existing);
+              updateOutboxEntry(staff.id, entry.id, {
+                conflict: {
+                  submittedBy: submittedByName,
+                  submittedAt: submittedAt.toISOString(),
+                  presentCount: existing.presentCount,
+                  absentCount: existing.absentCount,
+                },
+              });
+              conflicts++;
+            } catch (detailsError) {
+              // The entry stays queued and is checked again on the next sync.
+              console.error("Error loading the conflicting submission: ", detailsError);
+            }
+            continue;
+          }
+          if (isNetworkError(error)) break;
+          console.error("Error syncing queued attendance: ", error);
+        }
+      }
+    } finally {
+      isSyncingRef.current = false;
+    }
+
+    if (synced > 0) {
+      toast({ title: "Synced", description: `${synced} attendance submission${synced > 1 ? 's' : ''} saved while offline ${synced > 1 ? 'have' : 'has'} been synced.` });
+    }
+    if (conflicts > 0) {
+      toast({ variant: 'destructive', title: "Sync Conflict", description: "Attendance for a queued class and date was already submitted by someone else. Review it in the entry form." });
+    }
+  };
+
+  syncOutboxRef.current = syncOutbox;
+
+  const handleDiscardPending = (id: string) => {
+    if (!staff) return;
+    removeFromOutbox(staff.id, id);
+  };
+
+  const handleUpdateRecord = async (record: AttendanceRecord, classId: string) => {
+    const submissionId = getSubmissionId(classId, record.date, record.period);
+    const submission = submissions.find(s => s.id === submissionId);
     try {
         await runTransaction(db, async (transaction) => {
-            const recordRef = doc(db, 'attendanceRecords', recordId);
-            const submissionRef = doc(db, 'attendanceSubmissions', `${classId}_${date}`);
+            const recordRef = doc(db, 'attendanceRecords', record.id);
+            const submissionRef = doc(db, 'attendanceSubmissions', submissionId);
 
             transaction.delete(recordRef);
-
-            transaction.update(submissionRef, {
-                absentCount: increment(-1),
-                presentCount: increment(1),
-            });
+            transaction.update(submissionRef, getAbsentCountUpdate(submission, record.session, -1));
         });
 
-        setRecords(prev => prev.filter(r => r.id !== recordId));
-        setSubmissions(prev => prev.map(s => {
-            if (s.id === `${classId}_${date}`) {
-                return { ...s, absentCount: s.absentCount - 1, presentCount: s.presentCount + 1 };
-            }
-            return s;
-        }));
+        setRecords(prev => prev.filter(r => r.id !== record.id));
+        setSubmissions(prev => prev.map(s => s.id === submissionId ? applyAbsentCountChange(s, record.session, -1) : s));
 
         toast({ title: "Success", description: "Student marked as present." });
     } catch (error) {
@@ -182,6 +352,178 @@ export default function DashboardPage() {
         toast({ variant: 'destructive', title: "Error", description: "Failed to update attendance." });
     }
   };
+
+  const handleFollowUp = async (record: AttendanceRecord, update: FollowUpUpdate) => {
+    if (!staff) return false;
+    const now = new Date();
+    const changes: Partial<AttendanceRecord> = {
+      ...(update.status && { status: update.status }),
+      ...(update.reason !== undefined && { reason: update.reason }),
+      ...(!record.followedUpAt && { followedUpAt: now, followedUpBy: staff.name }),
+    };
+    const attempt = update.contactAttempt && { ...update.contactAttempt, time: now, calledBy: staff.name };
+    try {
+      await updateDoc(doc(db, 'attendanceRecords', record.id), {
+        ...changes,
+        ...(attempt && { contactLog: arrayUnion(attempt) }),
+      });
+
+      setRecords(prev => prev.map(r => r.id === record.id
+        ? { ...r, ...changes, ...(attempt && { contactLog: [...(r.contactLog || []), attempt] }) }
+        : r
+      ));
+      toast({ title: "Saved", description: `Follow-up updated for ${record.studentName}.` });
+      return true;
+    } catch (error) {
+      console.error("Error saving follow-up:", error);
+      toast({ variant: 'destructive', title: "Error", description: "Failed to save the follow-up." });
+      return false;
+    }
+  };
+
+  const handleRequestCorrection = async (submission: AttendanceSubmission, request: CorrectionRequest) => {
+    if (!staff) return false;
+    try {
+      const correctionRef = doc(collection(db, 'attendanceCorrections'));
+      const newCorrection: Omit<AttendanceCorrection, 'id'> = {
+        ...request,
+        submissionId: submission.id,
+        classId: submission.classId,
+        departmentId: submission.departmentId,
+        date: submission.date,
+        ...(submission.period && { period: submission.period }),
+        requestedBy: staff.id,
+        requestedByName: staff.name,
+        requestedAt: new Date(),
+        status: 'Pending',
+      };
+      await setDoc(correctionRef, newCorrection);
+
+      setCorrections(prev => [{ ...newCorrection, id: correctionRef.id }, ...prev]);
+      toast({ title: "Request Sent", description: "Your correction request has been sent for review." });
+      return true;
+    } catch (error) {
+      console.error("Error requesting correction:", error);
+      toast({ variant: 'destructive', title: "Error", description: "Failed to send the correction request." });
+      return false;
+    }
+  };
+
+  const handleReviewCorrection = async (correction: AttendanceCorrection, approve: boolean, reviewNote: string) => {
+    if (!staff) return;
+    const cls = classes.find(c => c.id === correction.classId);
+    const department = departments.find(d => d.id === correction.departmentId);
+    const existingRecord = records.find(r => r.id === correction.recordId);
+    const reviewedAt = new Date();
+    const review = {
+      status: approve ? 'Approved' : 'Rejected',
+      reviewedBy: staff.name,
+      reviewedAt,
+      ...(reviewNote && { reviewNote }),
+    } as const;
+
+    let addedRecord = null as AttendanceRecord | null;
+    try {
+      // Queries cannot run in a transaction, so find the student's records for the submission first and
+      // check them again below. Records added by a correction get a fixed id so that check covers them too.
+      const addedRecordId = `${correction.submissionId}_${correction.studentId}`;
+      const existingRecordRefs = [doc(db, 'attendanceRecords', addedRecordId)];
+      if (approve && correction.type === 'add-absentee') {
+        const recordsSnap = await getDocs(query(
+          collection(db, 'attendanceRecords'),
+          where('studentId', '==', correction.studentId),
+          where('date', '==', correction.date),
+        ));
+        recordsSnap.docs
+          .filter(recordDoc => (recordDoc.data().period ?? undefined) === correction.period)
+          .forEach(recordDoc => existingRecordRefs.push(recordDoc.ref));
+      }
+
+      await runTransaction(db, async (transaction) => {
+        const correctionRef = doc(db, 'attendanceCorrections', correction.id);
+        const submissionRef = doc(db, 'attendanceSubmissions', correction.submissionId);
+        const recordRef = correction.recordId ? doc(db, 'attendanceRecords', correction.recordId) : null;
+
+        const correctionSnap = await transaction.get(correctionRef);
+        const submissionSnap = await transaction.get(submissionRef);
+        const recordSnap = recordRef ? await transaction.get(recordRef) : null;
+
+        if (!correctionSnap.exists() || correctionSnap.data().status !== 'Pending') {
+          throw new Error("This correction has already been reviewed.");
+        }
+
+        if (approve) {
+          if (!submissionSnap.exists()) {
+            throw new Error("The attendance submission no longer exists.");
+          }
+          const latestSubmission = { id: submissionSnap.id, ...submissionSnap.data() } as AttendanceSubmission;
+
+          if (correction.type === 'add-absentee') {
+            if (!cls || !department) {
+              throw new Error("Could not find class or department information.");
+            }
+            const candidateSnaps = await Promise.all(existingRecordRefs.map(ref => transaction.get(ref)));
+            if (candidateSnaps.some(snap => snap.exists())) {
+              throw new Error(`${correction.studentName} is already marked absent for this attendance.`);
+            }
+            const newRecordRef = doc(db, 'attendanceRecords', addedRecordId);
+            const newRecord: Omit<AttendanceRecord, 'id'> = {
+              studentId: correction.studentId,
+              studentName: correction.studentName,
+              registerNo: correction.registerNo,
+              gender: correction.gender,
+              departmentName: department.name,
+              className: cls.name,
+              classId: cls.id,
+              date: correction.date,
+              ...(correction.period && { period: correction.period }),
+              ...(correction.session && { session: correction.session }),
+              time: format(reviewedAt, 'hh:mm:ss a'),
+              markedBy: staff.name,
+              status: 'Not Informed',
+              // Keep the record alongside the ones written with the original submission.
+              timestamp: latestSubmission.submittedAt,
+            };
+            transaction.set(newRecordRef, newRecord);
+            transaction.update(submissionRef, getAbsentCountUpdate(latestSubmission, correction.session, 1));
+            const timestamp = latestSubmission.submittedAt instanceof Timestamp ? latestSubmission.submittedAt.toDate() : new Date(latestSubmission.submittedAt);
+            addedRecord = { ...newRecord, id: newRecordRef.id, timestamp };
+          } else {
+            if (!recordRef || !recordSnap?.exists()) {
+              throw new Error("The absentee record no longer exists.");
+            }
+            if (correction.type === 'remove-absentee') {
+              transaction.delete(recordRef);
+              transaction.update(submissionRef, getAbsentCountUpdate(latestSubmission, recordSnap.data().session, -1));
+            } else if (correction.newStatus) {
+              transaction.update(recordRef, { status: correction.newStatus });
+            }
+          }
+        }
+
+        transaction.update(correctionRef, review);
+      });
+
+      if (approve) {
+        if (correction.type === 'add-absentee' && addedRecord) {
+          const record = addedRecord;
+          setRecords(prev => [record, ...prev]);
+          setSubmissions(prev => prev.map(s => s.id === correction.submissionId ? applyAbsentCountChange(s, correction.session, 1) : s));
+        } else if (correction.type === 'remove-absentee') {
+          setRecords(prev => prev.filter(r => r.id !== correction.recordId));
+          setSubmissions(prev => prev.map(s => s.id === correction.submissionId ? applyAbsentCountChange(s, existingRecord?.session, -1) : s));
+        } else if (correction.newStatus) {
+          setRecords(prev => prev.map(r => r.id === correction.recordId ? { ...r, status: correction.newStatus! } : r));
+        }
+      }
+      setCorrections(prev => prev.map(c => c.id === correction.id ? { ...c, ...review } : c));
+
+      toast({ title: approve ? "Correction Approved" : "Correction Rejected", description: `${correction.studentName} (${correction.registerNo})` });
+    } catch (error: any) {
+      console.error("Error reviewing correction:", error);
+      toast({ variant: 'destructive', title: "Error", description: error.message || "Failed to review the correction." });
+    }
+  };
   
   if (isUserLoading || initialDataLoading) {
       return (
@@ -220,16 +562,20 @@ export default function DashboardPage() {
             </TabsList>
             
             <TabsContent value="overview" className="space-y-8">
-                <StrengthSummary records={records} students={students} classes={classes} departments={departments} />
-                <AttendanceStatus submissions={submissions} classes={classes} departments={departments} workingDays={workingDays} />
+                <StrengthSummary records={records} submissions={submissions} settings={settings} students={students} classes={classes} departments={departments} />
+                <AttendanceStatus submissions={submissions} pendingSubmissions={outbox} classes={classes} departments={departments} workingDays={workingDays} settings={settings} user={staff} />
                 <AbsenteesList
                     records={records}
                     onRecordUpdate={handleUpdateRecord}
+                    onFollowUp={handleFollowUp}
+                    settings={settings}
                     user={staff}
+                    assignments={assignments}
                     departments={departments}
                     classes={classes}
                     students={students}
                 />
+                <CorrectionsList corrections={corrections} classes={classes} user={staff} onReview={handleReviewCorrection} />
             </TabsContent>
             
             <TabsContent value="mark-attendance">
@@ -241,35 +587,63 @@ export default function DashboardPage() {
                         students={teacherData.studentsInClass}
                         workingDays={workingDays}
                         submissions={submissions}
+                        settings={settings}
+                        records={records}
+                        leaves={leaves}
+                        assignments={assignments}
+                        pendingSubmissions={outbox}
+                        onDiscardPending={handleDiscardPending}
+                        onRequestCorrection={handleRequestCorrection}
                     />
                 )}
             </TabsContent>
         </Tabs>
       ) : staff.role === 'teacher' ? (
         teacherData && (
-          <EntryForm 
-            onAddRecords={handleAddRecords}
-            departments={teacherData.department}
-            classes={teacherData.class}
-            students={teacherData.studentsInClass}
-            workingDays={workingDays}
-            submissions={submissions}
-          />
+          <div className="space-y-8">
+            <EntryForm 
+              onAddRecords={handleAddRecords}
+              departments={teacherData.department}
+              classes={teacherData.class}
+              students={teacherData.studentsInClass}
+              workingDays={workingDays}
+              submissions={submissions}
+              settings={settings}
+              records={records}
+              leaves={leaves}
+              assignments={assignments}
+              pendingSubmissions={outbox}
+              onDiscardPending={handleDiscardPending}
+              onRequestCorrection={handleRequestCorrection}
+            />
+            {corrections.length > 0 && (
+              <CorrectionsList corrections={corrections} classes={classes} user={staff} />
+            )}
+          </div>
         )
       ) : (
         <div className="space-y-8">
-            <StrengthSummary records={records} students={students} classes={classes} departments={departments} />
-            <AttendanceStatus submissions={submissions} classes={classes} departments={departments} workingDays={workingDays} />
+            <StrengthSummary records={records} submissions={submissions} settings={settings} students={students} classes={classes} departments={departments} />
+            <AttendanceStatus submissions={submissions} pendingSubmissions={outbox} classes={classes} departments={departments} workingDays={workingDays} settings={settings} user={staff} />
             <AbsenteesList
               records={records}
               onRecordUpdate={handleUpdateRecord}
+              onFollowUp={handleFollowUp}
+              settings={settings}
               user={staff}
+              assignments={assignments}
               departments={departments}
               classes={classes}
               students={students}
             />
+            {staff.role === 'hod' && (
+              <CorrectionsList corrections={corrections} classes={classes} user={staff} onReview={handleReviewCorrection} />
+            )}
         </div>
       )}
+      {submissionConflict && (
+        <SubmissionConflictDialog conflict={submissionConflict} setIsOpen={(open) => !open && setSubmissionConflict(null)} />
+      )}
     </div>
   );
 }
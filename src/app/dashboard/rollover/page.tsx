@@ -0,0 +1,353 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { collection, getDocs, doc, query, orderBy, deleteField, setDoc } from 'firebase/firestore';
+import { useFirebase } from '@/firebase';
+import { useAuth } from '@/context/auth-context';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowLeft, ArrowRight, GraduationCap } from 'lucide-react';
+import type { AttendanceRecord, Class, Department, EnrolmentEvent, Rollover, Student } from '@/lib/types';
+import { GRADUATE, getRolloverBatches, getRolloverCounts, planRollover, suggestRolloverMapping, type RolloverMapping } from '@/lib/rollover';
+import { commitInBatches, type BatchOperation } from '@/lib/batch';
+
+const STAY = 'stay'; // Select items cannot have an empty value
+
+function getDefaultAcademicYear(today: Date = new Date()) {
+  // The academic year starts in June.
+  const startYear = today.getMonth() >= 5 ? today.getFullYear() : today.getFullYear() - 1;
+  return `${startYear}-${String(startYear + 1).slice(-2)}`;
+}
+
+type Step = 'map' | 'preview' | 'done';
+
+export default function RolloverPage() {
+  const { firestore: db } = useFirebase();
+  const { staff, isUserLoading } = useAuth();
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [classes, setClasses] = useState<Class[]>([]);
+  const [students, setStudents] = useState<Student[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [step, setStep] = useState<Step>('map');
+  const [academicYear, setAcademicYear] = useState(getDefaultAcademicYear);
+  const [mapping, setMapping] = useState<RolloverMapping>({});
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = useState<{ moved: number; graduated: number } | null>(null);
+
+  const canAccess = staff?.role === 'admin';
+
+  useEffect(() => {
+    if (!isUserLoading && !canAccess) {
+      router.push('/dashboard');
+    }
+  }, [canAccess, isUserLoading, router]);
+
+  const fetchData = async () => {
+    setLoading(true);
+    try {
+      const [deptsSnap, classesSnap, studentsSnap] = await Promise.all([
+        getDocs(query(collection(db, 'departments'), orderBy('name'))),
+        getDocs(collection(db, 'classes')),
+        getDocs(collection(db, 'students')),
+      ]);
+      const deptsData = deptsSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as Department));
+      const classesData = classesSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as Class))
+        .sort((a, b) => (deptsData.find(d => d.id === a.departmentId)?.name || '').localeCompare(deptsData.find(d => d.id === b.departmentId)?.name || '') || a.name.localeCompare(b.name));
+      setDepartments(deptsData);
+      setClasses(classesData);
+      setStudents(studentsSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as Student)));
+      setMapping(suggestRolloverMapping(classesData));
+    } catch (error) {
+      console.error("Error fetching rollover data:", error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Failed to load classes and students.' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isUserLoading || !canAccess) return;
+    fetchData();
+  }, [db, canAccess, isUserLoading]);
+
+  const getDepartmentName = (departmentId: string) => departments.find(d => d.id === departmentId)?.name || 'N/A';
+  const getClassLabel = (cls: Class) => `${cls.name} (${getDepartmentName(cls.departmentId)})`;
+
+  const plan = useMemo(() => planRollover(students, classes, mapping, academicYear.trim()), [students, classes, mapping, academicYear]);
+  const counts = useMemo(() => getRolloverCounts(students, plan.moves, plan.graduates), [students, plan]);
+  const batchChanges = useMemo(() => getRolloverBatches(classes, mapping), [classes, mapping]);
+
+  // Classes that keep some of their own students and also take in others end up merged; usually a mapping mistake.
+  const mergedClassIds = useMemo(() => {
+    const incoming = new Set(plan.moves.map(m => m.target.id));
+    return classes.filter(c => incoming.has(c.id) && !mapping[c.id] && (counts.before.get(c.id) ?? 0) > 0).map(c => c.id);
+  }, [classes, mapping, plan, counts]);
+
+  const setTarget = (classId: string, target: string) => {
+    setMapping(prev => ({ ...prev, [classId]: target === STAY ? '' : target }));
+  };
+
+  const handleRun = async () => {
+    if (!staff) return;
+    const year = academicYear.trim();
+    const operations: BatchOperation[] = [];
+    try {
+      // Older records have no classId and are matched to a class by name, which would follow the student into
+      // their new class. Pin them to the class they were taken in first.
+      const leavingIds = new Set([...plan.moves.map(m => m.student.id), ...plan.graduates.map(s => s.id)]);
+      const studentClassIds = new Map(students.map(s => [s.id, s.classId]));
+      const recordsSnap = await getDocs(collection(db, 'attendanceRecords'));
+      recordsSnap.docs.forEach(recordDoc => {
+        const record = recordDoc.data() as AttendanceRecord;
+        if (record.classId || !leavingIds.has(record.studentId)) return;
+        const classAtTheTime = classes.find(c => c.name === record.className && getDepartmentName(c.departmentId) === record.departmentName);
+        const classId = classAtTheTime?.id ?? studentClassIds.get(record.studentId);
+        if (classId) operations.push(batch => batch.update(recordDoc.ref, { classId }));
+      });
+
+      const feesSnap = await getDocs(collection(db, 'fees'));
+      const feeIds = new Set(feesSnap.docs.map(feeDoc => feeDoc.id));
+
+      const graduatedAt = new Date();
+      plan.graduates.forEach(({ id, ...student }) => {
+        operations.push(batch => batch.set(doc(db, 'graduatedStudents', id), { ...student, graduatedIn: year, graduatedAt }));
+        operations.push(batch => batch.delete(doc(db, 'students', id)));
+      });
+      // The move is recorded as a transfer so days before the rollover still count against the old class.
+      const rolloverDate = format(graduatedAt, 'yyyy-MM-dd');
+      plan.moves.forEach(({ student, target }) => {
+        const transfer: EnrolmentEvent = {
+          type: 'transferred',
+          date: rolloverDate,
+          fromClassId: student.classId,
+          classId: target.id,
+          note: `Rollover ${year}`,
+          recordedBy: staff.id,
+          recordedByName: staff.name,
+          recordedAt: graduatedAt,
+        };
+        operations.push(batch => batch.update(doc(db, 'students', student.id), {
+          classId: target.id,
+          departmentId: target.departmentId,
+          lastRollover: year,
+          enrolmentHistory: [...(student.enrolmentHistory ?? []), transfer],
+        }));
+        // Fee profiles keep their own copy of the student's class.
+        if (feeIds.has(student.id)) {
+          operations.push(batch => batch.update(doc(db, 'fees', student.id), { classId: target.id }));
+        }
+      });
+      Object.entries(batchChanges).forEach(([classId, batchName]) => {
+        operations.push(batch => batch.update(doc(db, 'classes', classId), { batch: batchName || deleteField() }));
+      });
+
+      setProgress({ done: 0, total: operations.length });
+      await commitInBatches(db, operations, done => setProgress({ done, total: operations.length }));
+
+      const rollover: Omit<Rollover, 'id'> = {
+        academicYear: year,
+        mapping: Object.fromEntries(Object.entries(mapping).filter(([, target]) => !!target)),
+        movedCount: plan.moves.length,
+        graduatedCount: plan.graduates.length,
+        performedBy: staff.id,
+        performedByName: staff.name,
+        performedAt: new Date(),
+      };
+      await setDoc(doc(collection(db, 'rollovers')), rollover);
+
+      setResult({ moved: plan.moves.length, graduated: plan.graduates.length });
+      setStep('done');
+      toast({ title: 'Rollover Complete', description: `${plan.moves.length} student(s) moved and ${plan.graduates.length} graduated.` });
+    } catch (error) {
+      console.error("Error running rollover:", error);
+      toast({
+        variant: 'destructive',
+        title: 'Rollover Interrupted',
+        description: 'Some changes may have been saved. Reload the page and run the rollover again for the same academic year; students already moved are skipped.',
+      });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  if (isUserLoading || !canAccess || loading) {
+    return (
+      <div className="space-y-8">
+        <Skeleton className="h-12 w-1/2" />
+        <Card>
+          <CardHeader><Skeleton className="h-8 w-1/3" /></CardHeader>
+          <CardContent><Skeleton className="h-96 w-full" /></CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-2xl font-headline font-bold">Academic Year Rollover</h1>
+        <p className="text-muted-foreground">Promote every class to the next year, graduate the final years and free the first-year classes for new admissions.</p>
+      </div>
+
+      {step === 'map' && (
+        <Card>
+          <CardHeader>
+            <CardTitle>1. Map Classes</CardTitle>
+            <CardDescription>
+              Choose where each class's students go. The suggestions follow the class ids; check the first years and anything marked Stay.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="max-w-xs">
+              <Label htmlFor="academicYear">New Academic Year</Label>
+              <Input id="academicYear" value={academicYear} onChange={(e) => setAcademicYear(e.target.value)} placeholder="e.g., 2026-27" />
+            </div>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Class</TableHead>
+                    <TableHead className="text-right">Students</TableHead>
+                    <TableHead>Batch</TableHead>
+                    <TableHead className="w-72">Moves To</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {classes.map(cls => (
+                    <TableRow key={cls.id}>
+                      <TableCell className="font-medium">{getClassLabel(cls)}</TableCell>
+                      <TableCell className="text-right">{counts.before.get(cls.id) ?? 0}</TableCell>
+                      <TableCell>{cls.batch || '-'}</TableCell>
+                      <TableCell>
+                        <Select value={mapping[cls.id] || STAY} onValueChange={(value) => setTarget(cls.id, value)}>
+                          <SelectTrigger><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={STAY}>Stay</SelectItem>
+                            <SelectItem value={GRADUATE}>Graduate</SelectItem>
+                            {classes.filter(c => c.id !== cls.id).map(c => (
+                              <SelectItem key={c.id} value={c.id}>{getClassLabel(c)}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={() => setStep('preview')} disabled={!academicYear.trim()}>
+                Preview <ArrowRight className="ml-2 h-4 w-4" />
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === 'preview' && (
+        <Card>
+          <CardHeader>
+            <CardTitle>2. Preview</CardTitle>
+            <CardDescription>
+              {plan.moves.length} student(s) will move and {plan.graduates.length} will graduate into {academicYear.trim()}. Graduated students are archived with their attendance kept.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {plan.alreadyMoved > 0 && (
+              <Alert>
+                <AlertDescription>
+                  {plan.alreadyMoved} student(s) were already moved into {academicYear.trim()} by an earlier run and will be skipped.
+                </AlertDescription>
+              </Alert>
+            )}
+            {mergedClassIds.length > 0 && (
+              <Alert variant="destructive">
+                <AlertDescription>
+                  {mergedClassIds.map(id => classes.find(c => c.id === id)).filter((c): c is Class => !!c).map(getClassLabel).join(', ')} will
+                  keep their current students and take in another class as well. Go back and map them if that is not intended.
+                </AlertDescription>
+              </Alert>
+            )}
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Class</TableHead>
+                    <TableHead>Students Go To</TableHead>
+                    <TableHead className="text-right">Now</TableHead>
+                    <TableHead className="text-right">After</TableHead>
+                    <TableHead>Batch After</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {classes.map(cls => {
+                    const target = mapping[cls.id];
+                    const targetClass = classes.find(c => c.id === target);
+                    const batchAfter = cls.id in batchChanges ? batchChanges[cls.id] : cls.batch;
+                    return (
+                      <TableRow key={cls.id}>
+                        <TableCell className="font-medium">{getClassLabel(cls)}</TableCell>
+                        <TableCell>
+                          {target === GRADUATE ? <Badge variant="secondary"><GraduationCap className="mr-1 h-3 w-3" /> Graduate</Badge>
+                            : targetClass ? getClassLabel(targetClass) : <span className="text-muted-foreground">Stay</span>}
+                        </TableCell>
+                        <TableCell className="text-right">{counts.before.get(cls.id) ?? 0}</TableCell>
+                        <TableCell className="text-right">{counts.after.get(cls.id) ?? 0}</TableCell>
+                        <TableCell>{batchAfter || '-'}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+            {progress && (
+              <div className="space-y-1">
+                <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 0} />
+                <p className="text-xs text-muted-foreground">{progress.done} of {progress.total} changes saved...</p>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={() => setStep('map')} disabled={!!progress}>
+                <ArrowLeft className="mr-2 h-4 w-4" /> Back
+              </Button>
+              <Button onClick={handleRun} disabled={!!progress || (plan.moves.length === 0 && plan.graduates.length === 0)}>
+                {progress ? 'Running...' : 'Run Rollover'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === 'done' && result && (
+        <Card>
+          <CardHeader>
+            <CardTitle>3. Done</CardTitle>
+            <CardDescription>
+              {result.moved} student(s) moved and {result.graduated} graduated into {academicYear.trim()}. Past attendance stays with the class it was taken in.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" onClick={() => { setResult(null); setStep('map'); fetchData(); }}>
+              Start Over
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,371 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { collection, doc, getDocs, orderBy, query, setDoc } from 'firebase/firestore';
+import { useFirebase } from '@/firebase';
+import { useAuth } from '@/context/auth-context';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import type { AttendanceSettings, Department, NotificationChannel, NotificationSettings } from '@/lib/types';
+import { MAX_PERIODS_PER_DAY, specialAttendanceStatuses } from '@/lib/attendance';
+import { describeWeeklyOffs, weekdayNames, weekOfMonthLabels } from '@/lib/date-policy';
+import { defaultAttendanceSettings, defaultNotificationSettings, fetchAttendanceSettings, fetchNotificationSettings, renderTemplate } from '@/lib/settings';
+
+export default function SettingsPage() {
+  const { firestore: db } = useFirebase();
+  const { staff, isUserLoading } = useAuth();
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const [settings, setSettings] = useState<AttendanceSettings>(defaultAttendanceSettings);
+  const [notificationSettings, setNotificationSettings] = useState<NotificationSettings>(defaultNotificationSettings);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isUserLoading && staff?.role !== 'admin') {
+      router.push('/dashboard');
+    }
+  }, [staff, isUserLoading, router]);
+
+  useEffect(() => {
+    if (isUserLoading || staff?.role !== 'admin') return;
+
+    const fetchSettings = async () => {
+      setLoading(true);
+      try {
+        const [attendanceData, notificationData, deptsSnap] = await Promise.all([
+          fetchAttendanceSettings(db),
+          fetchNotificationSettings(db),
+          getDocs(query(collection(db, 'departments'), orderBy('name'))),
+        ]);
+        setSettings(attendanceData);
+        setNotificationSettings(notificationData);
+        setDepartments(deptsSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as Department)));
+      } catch (error) {
+        console.error("Error fetching settings: ", error);
+        toast({ variant: 'destructive', title: 'Error', description: 'Could not fetch settings.' });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSettings();
+  }, [db, staff, isUserLoading, toast]);
+
+  const handleNumberChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setSettings(prev => ({ ...prev, [name]: Number(value) }));
+  };
+
+  const toggleListValue = (name: 'weeklyOffDays' | 'offSaturdays', value: number, checked: boolean) => {
+    setSettings(prev => ({
+      ...prev,
+      [name]: checked ? [...prev[name], value].sort((a, b) => a - b) : prev[name].filter(v => v !== value),
+    }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (settings.periodsPerDay < 1 || settings.minPeriodsForPresent < 1) {
+      toast({ variant: 'destructive', title: 'Invalid Settings', description: 'Period counts must be at least 1.' });
+      return;
+    }
+    if (settings.periodsPerDay > MAX_PERIODS_PER_DAY) {
+      toast({ variant: 'destructive', title: 'Invalid Settings', description: `There can be at most ${MAX_PERIODS_PER_DAY} periods per day.` });
+      return;
+    }
+    if (settings.minPeriodsForPresent > settings.periodsPerDay) {
+      toast({ variant: 'destructive', title: 'Invalid Settings', description: 'Required periods cannot exceed periods per day.' });
+      return;
+    }
+    if (settings.condonationPercentage > settings.eligibilityPercentage) {
+      toast({ variant: 'destructive', title: 'Invalid Settings', description: 'The condonation percentage cannot exceed the eligibility percentage.' });
+      return;
+    }
+    if (settings.weeklyOffDays.length >= weekdayNames.length) {
+      toast({ variant: 'destructive', title: 'Invalid Settings', description: 'At least one day of the week must be a working day.' });
+      return;
+    }
+    if (settings.halfDaySessions && settings.periodsPerDay > 1) {
+      toast({ variant: 'destructive', title: 'Invalid Settings', description: 'Half-day sessions cannot be combined with period-wise attendance.' });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await Promise.all([
+        setDoc(doc(db, 'settings', 'attendance'), settings, { merge: true }),
+        setDoc(doc(db, 'settings', 'notifications'), notificationSettings, { merge: true }),
+      ]);
+      toast({ title: 'Success', description: 'Settings saved.' });
+    } catch (error) {
+      console.error("Error saving settings: ", error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Failed to save settings.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isUserLoading || staff?.role !== 'admin' || loading) {
+    return (
+      <div className="space-y-8">
+        <Skeleton className="h-12 w-1/2" />
+        <Card>
+          <CardHeader><Skeleton className="h-8 w-1/3" /></CardHeader>
+          <CardContent><Skeleton className="h-48 w-full" /></CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-2xl font-headline font-bold">Attendance Settings</h1>
+        <p className="text-muted-foreground">Configure how attendance is taken and counted across the institution.</p>
+      </div>
+
+      <form onSubmit={handleSave} className="space-y-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Period-wise Attendance</CardTitle>
+            <CardDescription>
+              Split each class day into periods. With 1 period per day, teachers submit attendance once a day as before.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4 max-w-md">
+            <div>
+              <Label htmlFor="periodsPerDay">Periods per Day</Label>
+              <Input id="periodsPerDay" name="periodsPerDay" type="number" min={1} max={MAX_PERIODS_PER_DAY} value={settings.periodsPerDay} onChange={handleNumberChange} required />
+            </div>
+            <div>
+              <Label htmlFor="minPeriodsForPresent">Periods Required to be Present for the Day</Label>
+              <Input id="minPeriodsForPresent" name="minPeriodsForPresent" type="number" min={1} max={settings.periodsPerDay} value={settings.minPeriodsForPresent} onChange={handleNumberChange} required />
+              <p className="text-xs text-muted-foreground mt-1">
+                A student who attends fewer periods than this is counted absent for the day in summaries and reports.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Half-day Sessions</CardTitle>
+            <CardDescription>
+              Let teachers mark a student absent for the forenoon (FN) or afternoon (AN) only. Each session counts as half a day in percentages.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center gap-3">
+              <Switch
+                id="halfDaySessions"
+                checked={settings.halfDaySessions}
+                onCheckedChange={(checked) => setSettings(prev => ({ ...prev, halfDaySessions: checked }))}
+              />
+              <Label htmlFor="halfDaySessions">Enable FN/AN half-day absences</Label>
+            </div>
+            <p className="text-xs text-muted-foreground mt-2">
+              Not available together with period-wise attendance. Existing records without a session keep counting as full-day absences.
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Attendance Statuses</CardTitle>
+            <CardDescription>
+              Teachers can mark a student On Duty, on Medical Leave or Late instead of absent. Choose which of these count as present in attendance percentages.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {specialAttendanceStatuses.map(status => (
+              <div key={status} className="flex items-center gap-3">
+                <Switch
+                  id={`countsAsPresent-${status}`}
+                  checked={settings.countsAsPresent[status]}
+                  onCheckedChange={(checked) => setSettings(prev => ({ ...prev, countsAsPresent: { ...prev.countsAsPresent, [status]: checked } }))}
+                />
+                <Label htmlFor={`countsAsPresent-${status}`}>Count {status} as present</Label>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Absentee Follow-up</CardTitle>
+            <CardDescription>
+              Absentees who are still 'Not Informed' with no parent call logged by this time are flagged as overdue for the HOD.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="max-w-md">
+            <Label htmlFor="followUpDeadline">Follow-up Deadline</Label>
+            <Input
+              id="followUpDeadline"
+              type="time"
+              value={settings.followUpDeadline}
+              onChange={(e) => setSettings(prev => ({ ...prev, followUpDeadline: e.target.value }))}
+              required
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Weekly Offs</CardTitle>
+            <CardDescription>
+              Days that are never counted, whatever the academic calendar says, unless a day is marked there as a compensatory working day. Currently: {describeWeeklyOffs(settings)}.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-4">
+              {weekdayNames.map((name, day) => (
+                <div key={name} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`weeklyOff-${day}`}
+                    checked={settings.weeklyOffDays.includes(day)}
+                    onCheckedChange={(checked) => toggleListValue('weeklyOffDays', day, !!checked)}
+                  />
+                  <Label htmlFor={`weeklyOff-${day}`} className="font-normal">{name}</Label>
+                </div>
+              ))}
+            </div>
+            {!settings.weeklyOffDays.includes(6) && (
+              <div>
+                <Label>Also Off on These Saturdays</Label>
+                <div className="mt-2 flex flex-wrap gap-4">
+                  {weekOfMonthLabels.map((label, index) => (
+                    <div key={label} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`offSaturday-${index + 1}`}
+                        checked={settings.offSaturdays.includes(index + 1)}
+                        onCheckedChange={(checked) => toggleListValue('offSaturdays', index + 1, !!checked)}
+                      />
+                      <Label htmlFor={`offSaturday-${index + 1}`} className="font-normal">{label}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Exam Eligibility</CardTitle>
+            <CardDescription>
+              Used by the shortage tracker. Students below the eligibility percentage can be condoned down to the condonation percentage; below that they are detained.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4 max-w-md">
+            <div>
+              <Label htmlFor="eligibilityPercentage">Eligibility Percentage</Label>
+              <Input id="eligibilityPercentage" name="eligibilityPercentage" type="number" min={1} max={100} value={settings.eligibilityPercentage} onChange={handleNumberChange} required />
+            </div>
+            <div>
+              <Label htmlFor="condonationPercentage">Condonation Percentage</Label>
+              <Input id="condonationPercentage" name="condonationPercentage" type="number" min={0} max={100} value={settings.condonationPercentage} onChange={handleNumberChange} required />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Submission Cut-off</CardTitle>
+            <CardDescription>
+              Attendance submitted after this time on the day is flagged late, and classes still pending are escalated to their HOD.
+              Leave a department blank to use the default.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="max-w-md space-y-4">
+            <div>
+              <Label htmlFor="submissionCutoff">Default Cut-off</Label>
+              <Input
+                id="submissionCutoff"
+                type="time"
+                value={settings.submissionCutoff}
+                onChange={(e) => setSettings(prev => ({ ...prev, submissionCutoff: e.target.value }))}
+                required
+              />
+            </div>
+            {departments.map(dept => (
+              <div key={dept.id} className="flex items-center justify-between gap-4">
+                <Label htmlFor={`cutoff-${dept.id}`}>{dept.name}</Label>
+                <Input
+                  id={`cutoff-${dept.id}`}
+                  type="time"
+                  className="w-36"
+                  value={settings.departmentCutoffs[dept.id] || ''}
+                  // Cleared departments are saved as '' rather than removed, because the settings doc is merged on save.
+                  onChange={(e) => setSettings(prev => ({ ...prev, departmentCutoffs: { ...prev.departmentCutoffs, [dept.id]: e.target.value } }))}
+                />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Parent Notifications</CardTitle>
+            <CardDescription>
+              Message each absent student's parent after attendance is submitted. Use {'{studentName}'}, {'{registerNo}'}, {'{className}'}, {'{date}'}, {'{session}'} and {'{ackLink}'} in the template. The acknowledgement link is only filled in when APP_BASE_URL and ACK_TOKEN_SECRET are set on the server; otherwise the sentence containing it is left out.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center gap-3">
+              <Switch
+                id="notificationsEnabled"
+                checked={notificationSettings.enabled}
+                onCheckedChange={(checked) => setNotificationSettings(prev => ({ ...prev, enabled: checked }))}
+              />
+              <Label htmlFor="notificationsEnabled">Send absence messages to parents</Label>
+            </div>
+            <div className="max-w-md">
+              <Label htmlFor="notificationChannel">Channel</Label>
+              <Select
+                value={notificationSettings.channel}
+                onValueChange={(value) => setNotificationSettings(prev => ({ ...prev, channel: value as NotificationChannel }))}
+              >
+                <SelectTrigger id="notificationChannel"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="sms">SMS</SelectItem>
+                  <SelectItem value="whatsapp">WhatsApp</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="absenceTemplate">Absence Message</Label>
+              <Textarea
+                id="absenceTemplate"
+                rows={3}
+                value={notificationSettings.absenceTemplate}
+                onChange={(e) => setNotificationSettings(prev => ({ ...prev, absenceTemplate: e.target.value }))}
+                required
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Preview: {renderTemplate(notificationSettings.absenceTemplate, { studentName: 'Priya S', registerNo: '2213101', className: 'II-CSE-A', date: '05 Aug 2025', session: '', ackLink: 'https://example.edu/acknowledge/…' })}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save Settings'}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,644 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { collection, getDocs, doc, setDoc, updateDoc, query, orderBy, where, Timestamp, type QueryDocumentSnapshot } from 'firebase/firestore';
+import { useFirebase } from '@/firebase';
+import { useAuth } from '@/context/auth-context';
+import { useRouter } from 'next/navigation';
+import { format, parseISO } from 'date-fns';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import type { AttendanceRecord, AttendanceSettings, AttendanceSubmission, Class, CondonationRequest, Department, Semester, Student, WorkingDay } from '@/lib/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Check, Download, FileQuestion, X } from 'lucide-react';
+import { Skeleton } from '@/components/ui/skeleton';
+import { defaultAttendanceSettings, fetchAttendanceSettings } from '@/lib/settings';
+import { fetchStaffAssignments, getDocsWhereIn } from '@/lib/assignments';
+import { createCalendarResolver, fetchCalendarDays, findSemester } from '@/lib/calendar';
+import { getAttendanceSummaries, getEligibilityBucket, getEligibilityLabel, type EligibilityBucket, type StudentAttendanceSummary } from '@/lib/shortage';
+
+const bucketClassNames: Record<EligibilityBucket, string> = {
+  Eligible: 'bg-green-600',
+  Condonation: 'bg-amber-500',
+  Detained: 'bg-destructive',
+};
+
+type ShortageRow = {
+  student: Student;
+  summary: StudentAttendanceSummary;
+  bucket: EligibilityBucket;
+  condonation?: CondonationRequest;
+};
+
+// Used until semesters are set up on the academic calendar.
+function getDefaultSemester() {
+  const today = new Date();
+  const year = today.getFullYear();
+  return today.getMonth() < 6
+    ? { fromDate: `${year}-01-01`, toDate: `${year}-06-30` }
+    : { fromDate: `${year}-07-01`, toDate: `${year}-12-31` };
+}
+
+export default function ShortagePage() {
+  const { firestore: db } = useFirebase();
+  const { staff, isUserLoading } = useAuth();
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [classes, setClasses] = useState<Class[]>([]);
+  const [students, setStudents] = useState<Student[]>([]);
+  const [records, setRecords] = useState<AttendanceRecord[]>([]);
+  const [submissions, setSubmissions] = useState<AttendanceSubmission[]>([]);
+  const [workingDays, setWorkingDays] = useState<WorkingDay[]>([]);
+  const [settings, setSettings] = useState<AttendanceSettings>(defaultAttendanceSettings);
+  const [condonations, setCondonations] = useState<CondonationRequest[]>([]);
+  const [teacherClassIds, setTeacherClassIds] = useState<string[]>([]);
+  const [semesters, setSemesters] = useState<Semester[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [{ fromDate, toDate }, setRange] = useState(getDefaultSemester);
+  const [departmentFilter, setDepartmentFilter] = useState('');
+  const [classFilter, setClassFilter] = useState('');
+  const [bucketFilter, setBucketFilter] = useState<EligibilityBucket | 'all'>('all');
+  const [requesting, setRequesting] = useState<ShortageRow | null>(null);
+  const [reviewing, setReviewing] = useState<{ condonation: CondonationRequest; approve: boolean } | null>(null);
+  const [logoBase64, setLogoBase64] = useState<string | null>(null);
+
+  const canAccess = staff?.role === 'admin' || staff?.role === 'teacher' || staff?.role === 'hod' || staff?.role === 'dean';
+
+  useEffect(() => {
+    if (!isUserLoading && !canAccess) {
+      router.push('/dashboard');
+    }
+  }, [canAccess, isUserLoading, router]);
+
+  useEffect(() => {
+    fetch('/svcet-head.png')
+      .then(response => response.blob())
+      .then(blob => {
+        const reader = new FileReader();
+        reader.onloadend = () => {
+          setLogoBase64(reader.result as string);
+        };
+        reader.readAsDataURL(blob);
+      }).catch(error => {
+        console.error("Error fetching or converting logo:", error);
+      });
+  }, []);
+
+  useEffect(() => {
+    if (isUserLoading || !staff || !canAccess) return;
+
+    const fetchData = async () => {
+      setLoading(true);
+      try {
+        let classIds: string[] = [];
+        if (staff.role === 'teacher') {
+          const assignments = await fetchStaffAssignments(db, staff);
+          classIds = Array.from(new Set(assignments.map(a => a.classId)));
+        }
+
+        let studentsPromise: Promise<{ docs: QueryDocumentSnapshot[] }> = getDocs(query(collection(db, 'students')));
+        let condonationsPromise: Promise<{ docs: QueryDocumentSnapshot[] }> = getDocs(query(collection(db, 'condonations')));
+        if (staff.role === 'teacher') {
+          studentsPromise = getDocsWhereIn(db, 'students', 'classId', classIds).then(docs => ({ docs }));
+          condonationsPromise = getDocsWhereIn(db, 'condonations', 'classId', classIds).then(docs => ({ docs }));
+        } else if (staff.role === 'hod' && staff.departmentId) {
+          studentsPromise = getDocs(query(collection(db, 'students'), where('departmentId', '==', staff.departmentId)));
+          condonationsPromise = getDocs(query(collection(db, 'condonations'), where('departmentId', '==', staff.departmentId)));
+        }
+
+        const [deptsSnap, classesSnap, studentsSnap, recordsSnap, submissionsSnap, calendarDays, settingsData, condonationsSnap, semestersSnap] = await Promise.all([
+          getDocs(query(collection(db, 'departments'), orderBy('name'))),
+          getDocs(query(collection(db, 'classes'), orderBy('name'))),
+          studentsPromise,
+          getDocs(query(collection(db, 'attendanceRecords'))),
+          getDocs(query(collection(db, 'attendanceSubmissions'))),
+          fetchCalendarDays(db),
+          fetchAttendanceSettings(db),
+          condonationsPromise,
+          getDocs(collection(db, 'semesters')),
+        ]);
+
+        setDepartments(deptsSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as Department)));
+        setClasses(classesSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as Class)));
+        setStudents(studentsSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as Student)).sort((a, b) => (a.registerNo || a.name).localeCompare(b.registerNo || b.name)));
+        setRecords(recordsSnap.docs.map(doc => {
+          const data = doc.data();
+          const timestamp = data.timestamp instanceof Timestamp ? data.timestamp.toDate() : new Date(data.timestamp);
+          return { id: doc.id, ...data, timestamp } as AttendanceRecord;
+        }));
+        setSubmissions(submissionsSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as AttendanceSubmission)));
+        setWorkingDays(calendarDays);
+        setSettings(settingsData);
+        setCondonations(condonationsSnap.docs.map(doc => {
+          const data = doc.data();
+          const requestedAt = data.requestedAt instanceof Timestamp ? data.requestedAt.toDate() : new Date(data.requestedAt);
+          return { id: doc.id, ...data, requestedAt } as CondonationRequest;
+        }).sort((a, b) => b.requestedAt.getTime() - a.requestedAt.getTime()));
+        setTeacherClassIds(classIds);
+
+        const loadedSemesters = semestersSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as Semester)).sort((a, b) => b.startDate.localeCompare(a.startDate));
+        setSemesters(loadedSemesters);
+        const currentSemester = findSemester(loadedSemesters, new Date());
+        if (currentSemester) {
+          setRange({ fromDate: currentSemester.startDate, toDate: currentSemester.endDate });
+        }
+
+        if (staff.role === 'hod' && staff.departmentId) {
+          setDepartmentFilter(staff.departmentId);
+        }
+      } catch (error) {
+        console.error("Error fetching shortage data:", error);
+        toast({ variant: 'destructive', title: 'Error', description: 'Failed to load attendance data.' });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [db, staff, isUserLoading, canAccess, toast]);
+
+  const availableClasses = useMemo(() => {
+    if (staff?.role === 'teacher') return classes.filter(c => teacherClassIds.includes(c.id));
+    if (!departmentFilter) return [];
+    return classes.filter(c => c.departmentId === departmentFilter);
+  }, [staff?.role, classes, teacherClassIds, departmentFilter]);
+
+  useEffect(() => {
+    if (!availableClasses.some(c => c.id === classFilter)) {
+      setClassFilter(staff?.role === 'teacher' && availableClasses.length > 0 ? availableClasses[0].id : '');
+    }
+  }, [availableClasses, classFilter, staff?.role]);
+
+  const rows = useMemo<ShortageRow[]>(() => {
+    if (!classFilter || !fromDate || !toDate) return [];
+    const classStudents = students.filter(s => s.classId === classFilter);
+    const calendar = createCalendarResolver(workingDays, classes, settings);
+    const summaries = getAttendanceSummaries(classStudents, records, submissions, calendar, settings, fromDate, toDate);
+    return classStudents.map(student => {
+      const summary = summaries.get(student.id)!;
+      // The latest request overlapping the selected semester applies.
+      const condonation = condonations.find(c => c.studentId === student.id && c.fromDate <= toDate && c.toDate >= fromDate);
+      return { student, summary, bucket: getEligibilityBucket(summary, settings), condonation };
+    });
+  }, [classFilter, fromDate, toDate, students, records, submissions, workingDays, classes, settings, condonations]);
+
+  const bucketCounts = useMemo(() => {
+    const counts: Record<EligibilityBucket, number> = { Eligible: 0, Condonation: 0, Detained: 0 };
+    rows.forEach(row => counts[row.bucket]++);
+    return counts;
+  }, [rows]);
+
+  const filteredRows = bucketFilter === 'all' ? rows : rows.filter(row => row.bucket === bucketFilter);
+
+  const canRequest = staff?.role === 'admin' || staff?.role === 'teacher' || staff?.role === 'hod';
+  const canReview = (condonation: CondonationRequest) => {
+    if (condonation.status !== 'Pending') return false;
+    return staff?.role === 'admin' || (staff?.role === 'hod' && staff.departmentId === condonation.departmentId);
+  };
+
+  const handleRequestCondonation = async (row: ShortageRow, reason: string) => {
+    if (!staff) return;
+    try {
+      const condonationRef = doc(collection(db, 'condonations'));
+      const newCondonation: Omit<CondonationRequest, 'id'> = {
+        studentId: row.student.id,
+        studentName: row.student.name,
+        registerNo: row.student.registerNo || 'N/A',
+        classId: row.student.classId,
+        departmentId: row.student.departmentId,
+        fromDate,
+        toDate,
+        percentage: Number(row.summary.percentage.toFixed(2)),
+        reason,
+        requestedBy: staff.id,
+        requestedByName: staff.name,
+        requestedAt: new Date(),
+        status: 'Pending',
+      };
+      await setDoc(condonationRef, newCondonation);
+      setCondonations(prev => [{ ...newCondonation, id: condonationRef.id }, ...prev]);
+      setRequesting(null);
+      toast({ title: 'Request Sent', description: `Condonation requested for ${row.student.name}.` });
+    } catch (error) {
+      console.error("Error requesting condonation:", error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Failed to request condonation.' });
+    }
+  };
+
+  const handleReviewCondonation = async (condonation: CondonationRequest, approve: boolean, fee: number | undefined, remarks: string) => {
+    if (!staff) return;
+    const review = {
+      status: approve ? 'Approved' : 'Rejected',
+      reviewedBy: staff.name,
+      reviewedAt: new Date(),
+      ...(approve && fee !== undefined && { fee }),
+      ...(remarks && { remarks }),
+    } as const;
+    try {
+      await updateDoc(doc(db, 'condonations', condonation.id), review);
+      setCondonations(prev => prev.map(c => c.id === condonation.id ? { ...c, ...review } : c));
+      setReviewing(null);
+      toast({ title: approve ? 'Condonation Approved' : 'Condonation Rejected', description: `${condonation.studentName} (${condonation.registerNo})` });
+    } catch (error) {
+      console.error("Error reviewing condonation:", error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Failed to update the condonation request.' });
+    }
+  };
+
+  const handleExportPdf = () => {
+    const selectedClass = classes.find(c => c.id === classFilter);
+    const department = departments.find(d => d.id === selectedClass?.departmentId);
+    if (!selectedClass || rows.length === 0) return;
+
+    const pdf = new jsPDF();
+    const pageWidth = pdf.internal.pageSize.getWidth();
+    let contentY = 10;
+
+    const drawContent = () => {
+      pdf.setFontSize(16);
+      pdf.setFont("helvetica", "bold");
+      pdf.text("ATTENDANCE ELIGIBILITY LIST", pageWidth / 2, contentY, { align: "center" });
+      contentY += 8;
+
+      pdf.setFontSize(11);
+      pdf.setFont("helvetica", "normal");
+      pdf.text(`${department?.name || ''} - ${selectedClass.name}`, pageWidth / 2, contentY, { align: 'center' });
+      contentY += 6;
+      pdf.text(`${format(parseISO(fromDate), 'dd MMM yyyy')} to ${format(parseISO(toDate), 'dd MMM yyyy')}`, pageWidth / 2, contentY, { align: 'center' });
+      contentY += 6;
+      pdf.setFontSize(9);
+      pdf.text(`Eligible: ${settings.eligibilityPercentage}% and above. Condonation: ${settings.condonationPercentage}% to below ${settings.eligibilityPercentage}%. Detained: below ${settings.condonationPercentage}%.`, pageWidth / 2, contentY, { align: 'center' });
+      contentY += 6;
+
+      autoTable(pdf, {
+        startY: contentY,
+        head: [['S.No', 'Register No.', 'Student Name', 'Conducted', 'Attended', '%', 'Eligibility']],
+        body: rows.map((row, index) => [
+          index + 1,
+          row.student.registerNo || 'N/A',
+          row.student.name,
+          row.summary.conducted,
+          row.summary.attended,
+          `${row.summary.percentage.toFixed(1)}%`,
+          getEligibilityLabel(row.bucket, row.condonation),
+        ]),
+        headStyles: { fillColor: [30, 58, 138], lineColor: [44, 62, 80], lineWidth: 0.1 },
+        styles: { cellPadding: 2, fontSize: 9, lineColor: [44, 62, 80], lineWidth: 0.1 },
+        theme: 'grid',
+        didParseCell: (data) => {
+          if (data.section === 'body') {
+            const row = rows[data.row.index];
+            if (row.bucket === 'Detained') {
+              data.cell.styles.fillColor = [254, 226, 226];
+              data.cell.styles.textColor = [153, 27, 27];
+            } else if (row.bucket === 'Condonation' && row.condonation?.status !== 'Approved') {
+              data.cell.styles.fillColor = [254, 243, 199];
+              data.cell.styles.textColor = [146, 64, 14];
+            }
+          }
+        },
+      });
+
+      const finalY = (pdf as any).lastAutoTable.finalY + 25;
+      pdf.setFontSize(10);
+      pdf.text('Class Teacher', 20, finalY);
+      pdf.text('HOD', pageWidth / 2, finalY, { align: 'center' });
+      pdf.text('Principal', pageWidth - 20, finalY, { align: 'right' });
+
+      pdf.save(`Eligibility-List-${selectedClass.name}-${fromDate}-to-${toDate}.pdf`);
+    };
+
+    if (logoBase64) {
+      const img = new window.Image();
+      img.src = logoBase64;
+      img.onload = () => {
+        const imgWidth = 190 * 0.75;
+        const imgHeight = imgWidth / (img.width / img.height);
+        pdf.addImage(logoBase64, 'PNG', (pageWidth - imgWidth) / 2, contentY, imgWidth, imgHeight);
+        contentY += imgHeight + 5;
+        drawContent();
+      };
+      img.onerror = () => {
+        console.error("Error loading image for PDF.");
+        drawContent();
+      };
+    } else {
+      drawContent();
+    }
+  };
+
+  if (isUserLoading || !canAccess) {
+    return (
+        <div className="space-y-8">
+            <Card>
+                <CardHeader><Skeleton className="h-8 w-48" /><Skeleton className="h-4 w-64" /></CardHeader>
+                <CardContent><Skeleton className="h-96 w-full" /></CardContent>
+            </Card>
+        </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <Card>
+        <CardHeader className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <CardTitle>Attendance Shortage</CardTitle>
+            <CardDescription>
+              Running attendance over the semester. Students below {settings.eligibilityPercentage}% need condonation; below {settings.condonationPercentage}% they are detained.
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={handleExportPdf} disabled={!classFilter || rows.length === 0}>
+            <Download className="mr-2 h-4 w-4" /> Eligibility List
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex flex-wrap items-end gap-4">
+            {semesters.length > 0 && (
+              <div>
+                <Label>Semester</Label>
+                <Select
+                  value={semesters.find(s => s.startDate === fromDate && s.endDate === toDate)?.id ?? ''}
+                  onValueChange={(id) => {
+                    const semester = semesters.find(s => s.id === id);
+                    if (semester) setRange({ fromDate: semester.startDate, toDate: semester.endDate });
+                  }}
+                >
+                  <SelectTrigger className="w-full sm:w-[220px]">
+                    <SelectValue placeholder="Custom range" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {semesters.map(semester => (
+                      <SelectItem key={semester.id} value={semester.id}>{semester.name} {semester.academicYear}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div>
+              <Label htmlFor="semesterFrom">From</Label>
+              <Input id="semesterFrom" type="date" value={fromDate} max={toDate} onChange={(e) => setRange(prev => ({ ...prev, fromDate: e.target.value }))} />
+            </div>
+            <div>
+              <Label htmlFor="semesterTo">To</Label>
+              <Input id="semesterTo" type="date" value={toDate} min={fromDate} onChange={(e) => setRange(prev => ({ ...prev, toDate: e.target.value }))} />
+            </div>
+            {(staff?.role === 'admin' || staff?.role === 'dean') && (
+              <Select value={departmentFilter} onValueChange={setDepartmentFilter}>
+                <SelectTrigger className="w-full sm:w-[200px]">
+                  <SelectValue placeholder="Select Department" />
+                </SelectTrigger>
+                <SelectContent>
+                  {departments.map(dept => (
+                    <SelectItem key={dept.id} value={dept.id}>{dept.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Select value={classFilter} onValueChange={setClassFilter} disabled={availableClasses.length === 0}>
+              <SelectTrigger className="w-full sm:w-[200px]">
+                <SelectValue placeholder="Select Class" />
+              </SelectTrigger>
+              <SelectContent>
+                {availableClasses.map(c => (
+                  <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={bucketFilter} onValueChange={(value) => setBucketFilter(value as EligibilityBucket | 'all')}>
+              <SelectTrigger className="w-full sm:w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Students</SelectItem>
+                <SelectItem value="Eligible">Eligible</SelectItem>
+                <SelectItem value="Condonation">Condonation</SelectItem>
+                <SelectItem value="Detained">Detained</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {classFilter && (
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              {(Object.keys(bucketCounts) as EligibilityBucket[]).map(bucket => (
+                <Card key={bucket}>
+                  <CardHeader className="pb-2">
+                    <CardDescription>{bucket === 'Condonation' ? 'Condonation Eligible' : bucket}</CardDescription>
+                    <CardTitle className="text-3xl">{bucketCounts[bucket]}</CardTitle>
+                  </CardHeader>
+                </Card>
+              ))}
+            </div>
+          )}
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Register No.</TableHead>
+                  <TableHead>Student</TableHead>
+                  <TableHead className="text-right">Conducted</TableHead>
+                  <TableHead className="text-right">Attended</TableHead>
+                  <TableHead className="text-right">%</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Condonation</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  Array.from({ length: 5 }).map((_, i) => (
+                    <TableRow key={i}>
+                      <TableCell colSpan={8}><Skeleton className="h-6" /></TableCell>
+                    </TableRow>
+                  ))
+                ) : filteredRows.length > 0 ? (
+                  filteredRows.map(row => (
+                    <TableRow key={row.student.id}>
+                      <TableCell>{row.student.registerNo || 'N/A'}</TableCell>
+                      <TableCell className="font-medium">{row.student.name}</TableCell>
+                      <TableCell className="text-right">{row.summary.conducted}</TableCell>
+                      <TableCell className="text-right">{row.summary.attended}</TableCell>
+                      <TableCell className="text-right">{row.summary.percentage.toFixed(1)}%</TableCell>
+                      <TableCell>
+                        <Badge className={bucketClassNames[row.bucket]}>{row.bucket}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        {row.condonation ? (
+                          <div>
+                            <Badge variant={row.condonation.status === 'Rejected' ? 'destructive' : row.condonation.status === 'Approved' ? 'default' : 'secondary'}>
+                              {row.condonation.status}
+                            </Badge>
+                            {row.condonation.fee !== undefined && <div className="text-xs text-muted-foreground mt-1">Fee: ₹{row.condonation.fee}</div>}
+                            {row.condonation.remarks && <div className="text-xs text-muted-foreground">{row.condonation.remarks}</div>}
+                          </div>
+                        ) : '-'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {row.condonation && canReview(row.condonation) ? (
+                          <div className="flex justify-end gap-2">
+                            <Button variant="outline" size="sm" onClick={() => setReviewing({ condonation: row.condonation!, approve: true })}>
+                              <Check className="mr-2 h-4 w-4" /> Approve
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => setReviewing({ condonation: row.condonation!, approve: false })}>
+                              <X className="mr-2 h-4 w-4" /> Reject
+                            </Button>
+                          </div>
+                        ) : row.bucket === 'Condonation' && canRequest && (!row.condonation || row.condonation.status === 'Rejected') && (
+                          <Button variant="outline" size="sm" onClick={() => setRequesting(row)}>
+                            <FileQuestion className="mr-2 h-4 w-4" /> Request Condonation
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={8} className="h-24 text-center">
+                      {classFilter ? 'No students found.' : 'Select a class to see its attendance shortage.'}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {requesting && (
+        <CondonationRequestDialog
+          row={requesting}
+          setIsOpen={(open) => !open && setRequesting(null)}
+          onSubmit={handleRequestCondonation}
+        />
+      )}
+
+      {reviewing && (
+        <CondonationReviewDialog
+          condonation={reviewing.condonation}
+          approve={reviewing.approve}
+          setIsOpen={(open) => !open && setReviewing(null)}
+          onConfirm={handleReviewCondonation}
+        />
+      )}
+    </div>
+  );
+}
+
+function CondonationRequestDialog({ row, setIsOpen, onSubmit }: {
+  row: ShortageRow;
+  setIsOpen: (open: boolean) => void;
+  onSubmit: (row: ShortageRow, reason: string) => Promise<void>;
+}) {
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) return;
+    setIsSaving(true);
+    await onSubmit(row, reason.trim());
+    setIsSaving(false);
+  };
+
+  return (
+    <Dialog open onOpenChange={setIsOpen}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Request Condonation</DialogTitle>
+          <DialogDescription>
+            {row.student.name} ({row.student.registerNo || 'N/A'}) has {row.summary.percentage.toFixed(1)}% attendance ({row.summary.attended} of {row.summary.conducted} days).
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="condonationReason">Reason</Label>
+            <Textarea id="condonationReason" value={reason} onChange={(e) => setReason(e.target.value)} placeholder="e.g., Hospitalised for two weeks; medical certificate submitted" required />
+          </div>
+          <DialogFooter>
+            <DialogClose asChild><Button type="button" variant="outline">Cancel</Button></DialogClose>
+            <Button type="submit" disabled={isSaving || !reason.trim()}>
+              {isSaving ? 'Sending...' : 'Send Request'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function CondonationReviewDialog({ condonation, approve, setIsOpen, onConfirm }: {
+  condonation: CondonationRequest;
+  approve: boolean;
+  setIsOpen: (open: boolean) => void;
+  onConfirm: (condonation: CondonationRequest, approve: boolean, fee: number | undefined, remarks: string) => Promise<void>;
+}) {
+  const [fee, setFee] = useState('');
+  const [remarks, setRemarks] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    await onConfirm(condonation, approve, fee === '' ? undefined : Number(fee), remarks.trim());
+    setIsSaving(false);
+  };
+
+  return (
+    <Dialog open onOpenChange={setIsOpen}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{approve ? 'Approve Condonation' : 'Reject Condonation'}</DialogTitle>
+          <DialogDescription>
+            {condonation.studentName} ({condonation.registerNo}), {condonation.percentage.toFixed(1)}% attendance. Requested by {condonation.requestedByName}: {condonation.reason}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {approve && (
+            <div>
+              <Label htmlFor="condonationFee">Condonation Fee (₹)</Label>
+              <Input id="condonationFee" type="number" min={0} value={fee} onChange={(e) => setFee(e.target.value)} required />
+            </div>
+          )}
+          <div>
+            <Label htmlFor="condonationRemarks">Remarks {approve ? '(optional)' : ''}</Label>
+            <Textarea id="condonationRemarks" value={remarks} onChange={(e) => setRemarks(e.target.value)} required={!approve} />
+          </div>
+          <DialogFooter>
+            <DialogClose asChild><Button type="button" variant="outline">Cancel</Button></DialogClose>
+            <Button type="submit" disabled={isSaving} variant={approve ? 'default' : 'destructive'}>
+              {isSaving ? 'Saving...' : approve ? 'Approve' : 'Reject'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
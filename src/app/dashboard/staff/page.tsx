@@ -15,7 +15,7 @@ import {
 } from '@/components/ui/table';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
-import { Staff, Student, Department, Class } from '@/lib/types';
+import { Staff, Student, Department, Class, ClassAssignment, ClassAssignmentRole } from '@/lib/types';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import {
   Dialog,
@@ -29,10 +29,19 @@ import {
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { PlusCircle, Edit, Trash2, UserPlus } from 'lucide-react';
+import { PlusCircle, Edit, Trash2, UserPlus, School, FileUp } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Progress } from '@/components/ui/progress';
+import * as XLSX from 'xlsx';
 import { errorEmitter } from '@/firebase/error-emitter';
 import { FirestorePermissionError } from '@/firebase/errors';
+import { getStaffAssignments } from '@/lib/assignments';
+import { guessColumnMapping, studentImportFields, validateStudentRows, type StudentColumnMapping } from '@/lib/student-import';
+import { commitInBatches, type BatchOperation } from '@/lib/batch';
+
+const NO_COLUMN = 'none'; // Select items cannot have an empty value
 
 export default function StaffPage() {
   const { firestore } = useFirebase();
@@ -43,10 +52,13 @@ export default function StaffPage() {
   const [staffList, setStaffList] = useState<Staff[]>([]);
   const [departments, setDepartments] = useState<Department[]>([]);
   const [classes, setClasses] = useState<Class[]>([]);
+  const [assignments, setAssignments] = useState<ClassAssignment[]>([]);
+  const [assigningStaff, setAssigningStaff] = useState<Staff | null>(null);
   
   const [loading, setLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isStudentDialogOpen, setIsStudentDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
   const [editingStaff, setEditingStaff] = useState<Staff | null>(null);
 
   const [deptFilter, setDeptFilter] = useState('all');
@@ -68,10 +80,12 @@ export default function StaffPage() {
         const staffSnap = await getDocs(collection(firestore, 'staff'));
         const deptsSnap = await getDocs(query(collection(firestore, 'departments'), orderBy('name')));
         const classesSnap = await getDocs(query(collection(firestore, 'classes'), orderBy('name')));
+        const assignmentsSnap = await getDocs(collection(firestore, 'classAssignments'));
 
         setStaffList(staffSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as Staff)).sort((a, b) => a.name.localeCompare(b.name)));
         setDepartments(deptsSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as Department)));
         setClasses(classesSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as Class)));
+        setAssignments(assignmentsSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as ClassAssignment)));
       } catch (error) {
         console.error("Error fetching staff data:", error);
         toast({ variant: 'destructive', title: 'Error', description: 'Failed to fetch management data.' });
@@ -116,7 +130,7 @@ export default function StaffPage() {
     }
   };
 
-  const handleSaveStudent = async (studentData: Omit<Student, 'id' | 'departmentId' | 'classId'>) => {
+  const handleSaveStudent = async (studentData: Omit<Student, 'id' | 'departmentId' | 'classId'>, joinedOn?: string) => {
     if (deptFilter === 'all' || classFilter === 'all') {
       toast({ variant: 'destructive', title: 'Error', description: 'Please select a department and class first.' });
       return;
@@ -127,7 +141,11 @@ export default function StaffPage() {
       ...studentData, 
       id: studentId,
       departmentId: deptFilter,
-      classId: classFilter
+      classId: classFilter,
+      // A late joiner is only counted from their joining date.
+      ...(joinedOn && currentStaff && {
+        enrolmentHistory: [{ type: 'joined', date: joinedOn, classId: classFilter, recordedBy: currentStaff.id, recordedByName: currentStaff.name, recordedAt: new Date() }],
+      }),
     };
 
     const studentRef = doc(firestore, 'students', studentId);
@@ -146,6 +164,29 @@ export default function StaffPage() {
     }
   };
 
+  const handleAddAssignment = async (assignmentData: Omit<ClassAssignment, 'id'>) => {
+    try {
+      const assignmentRef = doc(collection(firestore, 'classAssignments'));
+      await setDoc(assignmentRef, assignmentData);
+      setAssignments(prev => [...prev, { ...assignmentData, id: assignmentRef.id }]);
+      toast({ title: 'Success', description: 'Class assignment added.' });
+    } catch (error) {
+      console.error("Error adding class assignment:", error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Failed to add class assignment.' });
+    }
+  };
+
+  const handleRemoveAssignment = async (assignmentId: string) => {
+    try {
+      await deleteDoc(doc(firestore, 'classAssignments', assignmentId));
+      setAssignments(prev => prev.filter(a => a.id !== assignmentId));
+      toast({ title: 'Success', description: 'Class assignment removed.' });
+    } catch (error) {
+      console.error("Error removing class assignment:", error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Failed to remove class assignment.' });
+    }
+  };
+
   const handleDeleteStaff = async (staffId: string) => {
      if (staffId === currentStaff?.id) {
       toast({ variant: 'destructive', title: 'Error', description: 'You cannot delete your own account.' });
@@ -192,7 +233,7 @@ export default function StaffPage() {
                   <TableHead>Name</TableHead>
                   <TableHead>Email</TableHead>
                   <TableHead>Role</TableHead>
-                  <TableHead>Class ID</TableHead>
+                  <TableHead>Classes</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
@@ -209,8 +250,17 @@ export default function StaffPage() {
                       <TableCell className="font-medium">{staff.name}</TableCell>
                       <TableCell>{staff.email}</TableCell>
                       <TableCell>{staff.role}</TableCell>
-                      <TableCell>{staff.classId || 'N/A'}</TableCell>
+                      <TableCell>
+                        {staff.role === 'teacher' && getStaffAssignments(staff, assignments).length > 0
+                          ? getStaffAssignments(staff, assignments).map(a => `${classes.find(c => c.id === a.classId)?.name || a.classId} (${a.role})`).join(', ')
+                          : 'N/A'}
+                      </TableCell>
                       <TableCell className="text-right">
+                        {staff.role === 'teacher' && (
+                          <Button variant="ghost" size="icon" onClick={() => setAssigningStaff(staff)} title="Class assignments">
+                            <School className="h-4 w-4" />
+                          </Button>
+                        )}
                         <Button variant="ghost" size="icon" onClick={() => setEditingStaff(staff) || setIsDialogOpen(true)}>
                           <Edit className="h-4 w-4" />
                         </Button>
@@ -234,13 +284,18 @@ export default function StaffPage() {
                     <CardTitle>Student Management</CardTitle>
                     <CardDescription>Add new students to the institution. (Admin Only)</CardDescription>
                 </div>
-                <Button 
-                    onClick={() => setIsStudentDialogOpen(true)} 
-                    disabled={classFilter === 'all'}
-                    className="bg-accent hover:bg-accent/90"
-                >
-                    <UserPlus className="mr-2 h-4 w-4" /> Add Student
-                </Button>
+                <div className="flex gap-2">
+                    <Button variant="outline" onClick={() => setIsImportDialogOpen(true)}>
+                        <FileUp className="mr-2 h-4 w-4" /> Import Students
+                    </Button>
+                    <Button 
+                        onClick={() => setIsStudentDialogOpen(true)} 
+                        disabled={classFilter === 'all'}
+                        className="bg-accent hover:bg-accent/90"
+                    >
+                        <UserPlus className="mr-2 h-4 w-4" /> Add Student
+                    </Button>
+                </div>
             </div>
         </CardHeader>
         <CardContent>
@@ -277,10 +332,22 @@ export default function StaffPage() {
           isOpen={isDialogOpen}
           setIsOpen={setIsDialogOpen}
           staff={editingStaff}
+          departments={departments}
           onSave={handleSaveStaff}
         />
       )}
 
+      {assigningStaff && (
+        <ClassAssignmentsDialog
+          setIsOpen={(open) => !open && setAssigningStaff(null)}
+          staff={assigningStaff}
+          assignments={assignments.filter(a => a.staffId === assigningStaff.id)}
+          classes={classes}
+          onAdd={handleAddAssignment}
+          onRemove={handleRemoveAssignment}
+        />
+      )}
+
       {isStudentDialogOpen && (
         <StudentFormDialog 
             isOpen={isStudentDialogOpen} 
@@ -288,11 +355,20 @@ export default function StaffPage() {
             onSave={handleSaveStudent} 
         />
       )}
+
+      {isImportDialogOpen && (
+        <ImportStudentsDialog
+            setIsOpen={setIsImportDialogOpen}
+            classes={classes}
+            departments={departments}
+            defaultClassId={classFilter === 'all' ? '' : classFilter}
+        />
+      )}
     </div>
   );
 }
 
-function StaffFormDialog({ isOpen, setIsOpen, staff, onSave }: { isOpen: boolean; setIsOpen: (open: boolean) => void; staff: Staff | null; onSave: (staff: Staff) => void; }) {
+function StaffFormDialog({ isOpen, setIsOpen, staff, departments, onSave }: { isOpen: boolean; setIsOpen: (open: boolean) => void; staff: Staff | null; departments: Department[]; onSave: (staff: Staff) => void; }) {
   const { firestore } = useFirebase();
   const [formData, setFormData] = useState<Partial<Staff>>(staff || { role: 'teacher' });
 
@@ -308,12 +384,14 @@ function StaffFormDialog({ isOpen, setIsOpen, staff, onSave }: { isOpen: boolean
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (formData.name && formData.email && formData.role) {
+      if (formData.role === 'hod' && !formData.departmentId) return;
       const staffToSave: Staff = {
         id: formData.id || doc(collection(firestore, 'staff')).id,
         name: formData.name,
         email: formData.email,
         role: formData.role as Staff['role'],
         classId: formData.role === 'teacher' ? formData.classId : undefined,
+        ...(formData.role === 'hod' && { departmentId: formData.departmentId }),
         password: formData.password || 'svcet@123',
       };
       onSave(staffToSave);
@@ -349,6 +427,7 @@ function StaffFormDialog({ isOpen, setIsOpen, staff, onSave }: { isOpen: boolean
                 <SelectItem value="teacher">Teacher</SelectItem>
                 <SelectItem value="viewer">Viewer</SelectItem>
                 <SelectItem value="dean">Dean</SelectItem>
+                <SelectItem value="hod">HOD</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -358,6 +437,19 @@ function StaffFormDialog({ isOpen, setIsOpen, staff, onSave }: { isOpen: boolean
               <Input id="classId" name="classId" value={formData.classId || ''} onChange={handleChange} placeholder="e.g., cse-2-a" />
             </div>
           )}
+          {formData.role === 'hod' && (
+            <div>
+              <Label htmlFor="departmentId">Department</Label>
+              <Select onValueChange={(value) => handleSelectChange('departmentId', value)} value={formData.departmentId}>
+                <SelectTrigger id="departmentId"><SelectValue placeholder="Select a department" /></SelectTrigger>
+                <SelectContent>
+                  {departments.map(dept => (
+                    <SelectItem key={dept.id} value={dept.id}>{dept.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
           <DialogFooter>
             <DialogClose asChild><Button type="button" variant="outline">Cancel</Button></DialogClose>
             <Button type="submit">Save</Button>
@@ -368,12 +460,134 @@ function StaffFormDialog({ isOpen, setIsOpen, staff, onSave }: { isOpen: boolean
   );
 }
 
+const assignmentRoles: ClassAssignmentRole[] = ['Class Teacher', 'Co-Class Teacher', 'Substitute'];
+
+function ClassAssignmentsDialog({ setIsOpen, staff, assignments, classes, onAdd, onRemove }: {
+  setIsOpen: (open: boolean) => void;
+  staff: Staff;
+  assignments: ClassAssignment[];
+  classes: Class[];
+  onAdd: (assignment: Omit<ClassAssignment, 'id'>) => Promise<void>;
+  onRemove: (assignmentId: string) => Promise<void>;
+}) {
+  const [classId, setClassId] = useState('');
+  const [role, setRole] = useState<ClassAssignmentRole>('Co-Class Teacher');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const isSubstitute = role === 'Substitute';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!classId || (isSubstitute && (!startDate || !endDate || endDate < startDate))) return;
+    await onAdd({
+      staffId: staff.id,
+      classId,
+      role,
+      ...(isSubstitute && { startDate, endDate }),
+    });
+    setClassId('');
+    setStartDate('');
+    setEndDate('');
+  };
+
+  return (
+    <Dialog open onOpenChange={setIsOpen}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Class Assignments: {staff.name}</DialogTitle>
+          <DialogDescription>
+            Teachers can take attendance for every class they are assigned to. Substitutes only cover their dates.
+            {staff.classId && ` Their own class (${classes.find(c => c.id === staff.classId)?.name || staff.classId}) is set on the staff record.`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Class</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Dates</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {assignments.length > 0 ? (
+                assignments.map(a => (
+                  <TableRow key={a.id}>
+                    <TableCell>{classes.find(c => c.id === a.classId)?.name || a.classId}</TableCell>
+                    <TableCell>{a.role}</TableCell>
+                    <TableCell>{a.startDate && a.endDate ? `${a.startDate} to ${a.endDate}` : 'Ongoing'}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" onClick={() => onRemove(a.id)}>
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={4} className="h-16 text-center text-muted-foreground">
+                    No additional class assignments.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="assignmentClass">Class</Label>
+              <Select onValueChange={setClassId} value={classId}>
+                <SelectTrigger id="assignmentClass"><SelectValue placeholder="Select a class" /></SelectTrigger>
+                <SelectContent>
+                  {classes.map(c => (
+                    <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="assignmentRole">Role</Label>
+              <Select onValueChange={(value) => setRole(value as ClassAssignmentRole)} value={role}>
+                <SelectTrigger id="assignmentRole"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {assignmentRoles.map(r => (
+                    <SelectItem key={r} value={r}>{r}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {isSubstitute && (
+              <>
+                <div>
+                  <Label htmlFor="assignmentStart">From</Label>
+                  <Input id="assignmentStart" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} required />
+                </div>
+                <div>
+                  <Label htmlFor="assignmentEnd">To</Label>
+                  <Input id="assignmentEnd" type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} required />
+                </div>
+              </>
+            )}
+          </div>
+          <DialogFooter>
+            <DialogClose asChild><Button type="button" variant="outline">Close</Button></DialogClose>
+            <Button type="submit" disabled={!classId}>Add Assignment</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 function StudentFormDialog({ isOpen, setIsOpen, onSave }: { 
     isOpen: boolean; 
     setIsOpen: (open: boolean) => void; 
-    onSave: (studentData: Omit<Student, 'id' | 'departmentId' | 'classId'>) => void;
+    onSave: (studentData: Omit<Student, 'id' | 'departmentId' | 'classId'>, joinedOn?: string) => void;
 }) {
   const [formData, setFormData] = useState<Partial<Omit<Student, 'id' | 'departmentId' | 'classId'>>>({ gender: 'MALE', admissionType: 'CENTAC' });
+  const [joinedOn, setJoinedOn] = useState('');
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -393,7 +607,7 @@ function StudentFormDialog({ isOpen, setIsOpen, onSave }: {
           gender: formData.gender as 'MALE' | 'FEMALE',
           mentor: formData.mentor || '',
           admissionType: formData.admissionType as 'CENTAC' | 'Management',
-      });
+      }, joinedOn || undefined);
     }
   };
 
@@ -437,6 +651,11 @@ function StudentFormDialog({ isOpen, setIsOpen, onSave }: {
             <Label htmlFor="mentor">Mentor</Label>
             <Input id="mentor" name="mentor" value={formData.mentor || ''} onChange={handleChange} />
           </div>
+          <div>
+            <Label htmlFor="joinedOn">Joined On (optional)</Label>
+            <Input id="joinedOn" type="date" value={joinedOn} onChange={(e) => setJoinedOn(e.target.value)} />
+            <p className="text-xs text-muted-foreground mt-1">For students joining after the semester has started. Leave empty to count them from the start.</p>
+          </div>
           <DialogFooter>
             <DialogClose asChild><Button type="button" variant="outline">Cancel</Button></DialogClose>
             <Button type="submit">Add Student</Button>
@@ -445,4 +664,202 @@ function StudentFormDialog({ isOpen, setIsOpen, onSave }: {
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
+
+function ImportStudentsDialog({ setIsOpen, classes, departments, defaultClassId: initialClassId }: {
+    setIsOpen: (open: boolean) => void;
+    classes: Class[];
+    departments: Department[];
+    defaultClassId: string;
+}) {
+  const { firestore } = useFirebase();
+  const { toast } = useToast();
+  const [existingStudents, setExistingStudents] = useState<Student[] | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<Record<string, unknown>[]>([]);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<StudentColumnMapping>(() => guessColumnMapping([]));
+  const [defaultClassId, setDefaultClassId] = useState(initialClassId);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  // Register numbers are checked against every student, not just the chosen class.
+  useEffect(() => {
+    getDocs(collection(firestore, 'students'))
+      .then(snap => setExistingStudents(snap.docs.map(doc => ({ id: doc.id, ...doc.data() } as Student))))
+      .catch(error => {
+        console.error("Error fetching students:", error);
+        toast({ variant: 'destructive', title: 'Error', description: 'Failed to load existing students.' });
+      });
+  }, [firestore, toast]);
+
+  const results = useMemo(() => {
+    if (!existingStudents) return [];
+    return validateStudentRows(rows, mapping, { classes, departments, existingStudents, defaultClassId });
+  }, [rows, mapping, classes, departments, existingStudents, defaultClassId]);
+
+  const readyRows = results.filter(r => r.student);
+  const missingFields = studentImportFields.filter(f => f.required && !mapping[f.field]);
+
+  const getClassLabel = (classId: string) => {
+    const cls = classes.find(c => c.id === classId);
+    return cls ? `${cls.name} (${departments.find(d => d.id === cls.departmentId)?.name || 'N/A'})` : classId;
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    try {
+      // CSV is read as text so register numbers with leading zeros are kept as written.
+      const workbook = file.name.toLowerCase().endsWith('.csv')
+        ? XLSX.read(await file.text(), { type: 'string', raw: true })
+        : XLSX.read(await file.arrayBuffer());
+      const sheetRows = XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets[workbook.SheetNames[0]], { defval: '', raw: false });
+      const sheetHeaders = Array.from(new Set(sheetRows.flatMap(row => Object.keys(row))));
+      setRows(sheetRows);
+      setHeaders(sheetHeaders);
+      setMapping(guessColumnMapping(sheetHeaders));
+    } catch (error) {
+      console.error('Error reading student file:', error);
+      setRows([]);
+      setHeaders([]);
+      toast({ variant: 'destructive', title: 'Error', description: 'Could not read the file. Use a CSV or XLSX file.' });
+    }
+  };
+
+  const handleImport = async () => {
+    const students = readyRows.map(r => ({ ...r.student!, id: doc(collection(firestore, 'students')).id }));
+    let saved = 0;
+    setProgress({ done: 0, total: students.length });
+    try {
+      const operations: BatchOperation[] = students.map(student => batch => batch.set(doc(firestore, 'students', student.id), student));
+      await commitInBatches(firestore, operations, done => {
+        saved = done;
+        setProgress({ done, total: students.length });
+      });
+      toast({ title: 'Import Complete', description: `${saved} student(s) added.` });
+      setIsOpen(false);
+    } catch (error) {
+      console.error("Error importing students:", error);
+      toast({
+        variant: 'destructive',
+        title: 'Import Interrupted',
+        description: `${saved} of ${students.length} student(s) were added before the error. Import the file again to add the rest; students already added are reported as duplicates.`,
+      });
+      // The report now shows the saved rows as duplicates, so the same file can be imported again.
+      setExistingStudents(prev => [...(prev ?? []), ...students.slice(0, saved)]);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={setIsOpen}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Import Students</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or XLSX sheet with one student per row. Nothing is saved until you review the report and import the valid rows.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 max-h-[70vh] overflow-y-auto pr-1">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="studentFile">File</Label>
+              <Input id="studentFile" type="file" accept=".csv,.xlsx,.xls" onChange={handleFileChange} disabled={!existingStudents || !!progress} />
+            </div>
+            <div>
+              <Label>Class For Rows Without One</Label>
+              <Select value={defaultClassId || NO_COLUMN} onValueChange={(value) => setDefaultClassId(value === NO_COLUMN ? '' : value)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_COLUMN}>None</SelectItem>
+                  {classes.map(c => (
+                    <SelectItem key={c.id} value={c.id}>{getClassLabel(c.id)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {headers.length > 0 && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {studentImportFields.map(({ field, label, required }) => (
+                <div key={field}>
+                  <Label>{label}{required && ' *'}</Label>
+                  <Select value={mapping[field] || NO_COLUMN} onValueChange={(value) => setMapping(prev => ({ ...prev, [field]: value === NO_COLUMN ? '' : value }))}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_COLUMN}>Not in file</SelectItem>
+                      {headers.map(header => (
+                        <SelectItem key={header} value={header}>{header}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {fileName && (
+            <p className="text-sm text-muted-foreground">
+              {fileName}: {rows.length} row(s), {readyRows.length} ready to import, {results.length - readyRows.length} with problems.
+            </p>
+          )}
+
+          {headers.length > 0 && missingFields.length > 0 && (
+            <Alert variant="destructive">
+              <AlertDescription>Choose a column for {missingFields.map(f => f.label).join(', ')}.</AlertDescription>
+            </Alert>
+          )}
+
+          {results.length > 0 && (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Register No.</TableHead>
+                    <TableHead>Class</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map(result => (
+                    <TableRow key={result.rowNumber}>
+                      <TableCell>{result.rowNumber}</TableCell>
+                      <TableCell>{result.student?.name ?? (mapping.name ? String(rows[result.rowNumber - 2]?.[mapping.name] ?? '') : '')}</TableCell>
+                      <TableCell>{result.student?.registerNo ?? (mapping.registerNo ? String(rows[result.rowNumber - 2]?.[mapping.registerNo] ?? '') : '')}</TableCell>
+                      <TableCell>{result.student ? getClassLabel(result.student.classId) : '-'}</TableCell>
+                      <TableCell>
+                        {result.student ? <Badge variant="secondary">Ready</Badge> : (
+                          <ul className="list-disc pl-4 text-xs text-destructive">
+                            {result.errors.map(error => <li key={error}>{error}</li>)}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {progress && (
+            <div className="space-y-1">
+              <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 0} />
+              <p className="text-xs text-muted-foreground">{progress.done} of {progress.total} students saved...</p>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <DialogClose asChild><Button type="button" variant="outline" disabled={!!progress}>Cancel</Button></DialogClose>
+          <Button type="button" onClick={handleImport} disabled={!!progress || readyRows.length === 0 || missingFields.length > 0}>
+            {progress ? 'Importing...' : `Import ${readyRows.length} Student${readyRows.length === 1 ? '' : 's'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
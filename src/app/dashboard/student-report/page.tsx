@@ -2,17 +2,31 @@
 'use client';
 
 import { useState, useEffect, useMemo } from 'react';
-import { collection, getDocs, query, orderBy, Timestamp, where } from 'firebase/firestore';
+import { collection, getDocs, query, orderBy, Timestamp, where, doc, updateDoc } from 'firebase/firestore';
 import { useFirebase } from '@/firebase';
-import type { AttendanceRecord, Student, WorkingDay, AttendanceSubmission } from '@/lib/types';
+import type { AttendanceRecord, Class, Department, EnrolmentEvent, EnrolmentEventType, Student, WorkingDay, AttendanceSubmission, AttendanceSettings } from '@/lib/types';
 import { useToast } from '@/hooks/use-toast';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
-import { Search } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogClose } from '@/components/ui/dialog';
+import { Search, PlusCircle, Trash2 } from 'lucide-react';
 import { StudentAttendanceGrid } from '../_components/student-attendance-grid';
 import { Skeleton } from '@/components/ui/skeleton';
-import { format, isSunday } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 import { useAuth } from '@/context/auth-context';
+import { defaultAttendanceSettings, fetchAttendanceSettings } from '@/lib/settings';
+import { createCalendarResolver, fetchCalendarDays } from '@/lib/calendar';
+import { enrolmentEventLabels, enrolmentStatusLabels, getEnrolmentOn, sortEnrolmentEvents } from '@/lib/enrolment';
+import { fetchStaffAssignments, getAssignedClassIds, getDocsWhereIn } from '@/lib/assignments';
+
+// Later than any effective date, for reading a student's latest class off their history.
+const END_OF_HISTORY = '9999-12-31';
 
 export default function StudentReportPage() {
   const { firestore: db } = useFirebase();
@@ -20,7 +34,10 @@ export default function StudentReportPage() {
   const [allStudents, setAllStudents] = useState<Student[]>([]);
   const [records, setRecords] = useState<AttendanceRecord[]>([]);
   const [workingDays, setWorkingDays] = useState<WorkingDay[]>([]);
+  const [classes, setClasses] = useState<Class[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
   const [submissions, setSubmissions] = useState<AttendanceSubmission[]>([]);
+  const [settings, setSettings] = useState<AttendanceSettings>(defaultAttendanceSettings);
   const [initialDataLoading, setInitialDataLoading] = useState(true);
   const { toast } = useToast();
 
@@ -34,18 +51,26 @@ export default function StudentReportPage() {
       try {
         setInitialDataLoading(true);
         
+        // Teachers see the students of the classes they currently teach, including ones they are substituting in.
+        const teacherClassIds = staff.role === 'teacher'
+            ? getAssignedClassIds(await fetchStaffAssignments(db, staff), format(new Date(), 'yyyy-MM-dd'))
+            : [];
+
         let studentsPromise;
-        if (staff.role === 'teacher' && staff.classId) {
-            studentsPromise = getDocs(query(collection(db, 'students'), where('classId', '==', staff.classId)));
+        if (staff.role === 'teacher') {
+            studentsPromise = getDocsWhereIn(db, 'students', 'classId', teacherClassIds).then(docs => ({ docs }));
         } else {
             studentsPromise = getDocs(query(collection(db, 'students'), orderBy('name')));
         }
         
-        const [studs, recs, workDays, subs] = await Promise.all([
+        const [studs, clss, depts, recs, workDaysData, subs, settingsData] = await Promise.all([
           studentsPromise,
+          getDocs(collection(db, 'classes')),
+          getDocs(query(collection(db, 'departments'), orderBy('name'))),
           getDocs(query(collection(db, 'attendanceRecords'), orderBy('timestamp', 'desc'))),
-          getDocs(query(collection(db, 'workingDays'))),
-          getDocs(collection(db, 'attendanceSubmissions'))
+          fetchCalendarDays(db),
+          getDocs(collection(db, 'attendanceSubmissions')),
+          fetchAttendanceSettings(db),
         ]);
 
         let studsData = studs.docs.map(doc => ({id: doc.id, ...doc.data()} as Student));
@@ -55,28 +80,23 @@ export default function StudentReportPage() {
             const timestamp = data.timestamp instanceof Timestamp ? data.timestamp.toDate() : new Date(data.timestamp);
             return { id: doc.id, ...data, timestamp } as AttendanceRecord;
         });
-        const workDaysData = workDays.docs.map(doc => {
-            const data = doc.data();
-            const timestamp = data.timestamp instanceof Timestamp ? data.timestamp.toDate() : new Date(data.timestamp);
-            return { id: doc.id, ...data, timestamp } as WorkingDay;
-        });
-
-        const workingDaysMap = new Map<string, boolean>();
-        workDaysData.forEach(wd => {
-            workingDaysMap.set(format(wd.timestamp, 'yyyy-MM-dd'), wd.isWorkingDay);
-        });
+        const clssData = clss.docs.map(doc => ({id: doc.id, ...doc.data()} as Class));
 
+        const calendar = createCalendarResolver(workDaysData, clssData, settingsData);
+        const studentClassIds = new Map(studsData.map(s => [s.id, s.classId]));
         const filteredRecords = recsData.filter(record => {
             const recordDate = record.timestamp;
             const dateKey = format(recordDate, 'yyyy-MM-dd');
-            if (isSunday(recordDate)) return false;
-            return workingDaysMap.get(dateKey) ?? false;
+            return calendar.isInstructional({ classId: record.classId ?? studentClassIds.get(record.studentId) }, dateKey);
         });
 
         setAllStudents(studsData);
+        setClasses(clssData);
+        setDepartments(depts.docs.map(doc => ({ id: doc.id, ...doc.data() } as Department)));
         setRecords(filteredRecords);
         setWorkingDays(workDaysData);
         setSubmissions(subsData);
+        setSettings(settingsData);
 
       } catch (error) {
         console.error("Error fetching report data: ", error);
@@ -117,6 +137,27 @@ export default function StudentReportPage() {
     setSelectedStudent(student);
   };
   
+  const canEditEnrolment = staff?.role === 'admin' || staff?.role === 'hod';
+
+  // Saves the student's new history and keeps their current class in step with the latest transfer.
+  const handleSaveHistory = async (student: Student, enrolmentHistory: EnrolmentEvent[]) => {
+    const originalClassId = sortEnrolmentEvents(student.enrolmentHistory ?? []).find(e => e.type === 'transferred')?.fromClassId || student.classId;
+    const classId = getEnrolmentOn({ ...student, classId: originalClassId, enrolmentHistory }, END_OF_HISTORY).classId;
+    const departmentId = classes.find(c => c.id === classId)?.departmentId ?? student.departmentId;
+    const updated: Student = { ...student, enrolmentHistory, classId, departmentId };
+    try {
+      await updateDoc(doc(db, 'students', student.id), { enrolmentHistory, classId, departmentId });
+      setAllStudents(prev => prev.map(s => s.id === student.id ? updated : s));
+      setSelectedStudent(updated);
+      toast({ title: 'Success', description: 'Enrolment history updated.' });
+      return true;
+    } catch (error) {
+      console.error("Error saving enrolment history:", error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Failed to update the enrolment history.' });
+      return false;
+    }
+  };
+
   const studentRecords = useMemo(() => {
       if (!selectedStudent) return [];
       return records.filter(r => r.studentId === selectedStudent.id);
@@ -170,12 +211,23 @@ export default function StudentReportPage() {
               )}
             </div>
             {selectedStudent ? (
+              <div className="space-y-6">
                 <StudentAttendanceGrid 
                     student={selectedStudent} 
                     records={studentRecords} 
                     workingDays={workingDays} 
+                    classes={classes}
                     submissions={submissions}
+                    settings={settings}
+                />
+                <EnrolmentHistoryCard
+                    student={selectedStudent}
+                    classes={classes}
+                    departments={departments}
+                    canEdit={canEditEnrolment}
+                    onSave={(history) => handleSaveHistory(selectedStudent, history)}
                 />
+              </div>
             ) : (
                 <div className="text-center text-muted-foreground py-12">
                     <p>Search for a student to view their report.</p>
@@ -186,3 +238,192 @@ export default function StudentReportPage() {
     </div>
   );
 }
+
+function EnrolmentHistoryCard({ student, classes, departments, canEdit, onSave }: {
+  student: Student;
+  classes: Class[];
+  departments: Department[];
+  canEdit: boolean;
+  onSave: (history: EnrolmentEvent[]) => Promise<boolean>;
+}) {
+  const { staff } = useAuth();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const history = sortEnrolmentEvents(student.enrolmentHistory ?? []);
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const status = getEnrolmentOn(student, today).status;
+
+  const getClassLabel = (classId?: string) => {
+    const cls = classes.find(c => c.id === classId);
+    if (!cls) return classId || 'N/A';
+    return `${cls.name} (${departments.find(d => d.id === cls.departmentId)?.name || 'N/A'})`;
+  };
+
+  const describeEvent = (event: EnrolmentEvent) => {
+    switch (event.type) {
+      case 'joined':
+        return event.classId ? `Joined ${getClassLabel(event.classId)}` : 'Joined';
+      case 'transferred':
+        return `${getClassLabel(event.fromClassId)} to ${getClassLabel(event.classId)}`;
+      case 'longAbsence':
+        return event.endDate ? `Away until ${format(parseISO(event.endDate), 'PPP')}` : 'Away until further notice';
+      default:
+        return '';
+    }
+  };
+
+  const handleAdd = async (event: Omit<EnrolmentEvent, 'recordedBy' | 'recordedByName' | 'recordedAt'>) => {
+    if (!staff) return;
+    const saved = await onSave(sortEnrolmentEvents([...history, { ...event, recordedBy: staff.id, recordedByName: staff.name, recordedAt: new Date() }]));
+    if (saved) setIsDialogOpen(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            Enrolment History
+            <Badge variant={status === 'enrolled' ? 'secondary' : 'destructive'}>{enrolmentStatusLabels[status]}</Badge>
+          </CardTitle>
+          <CardDescription>
+            Attendance and strength only count {student.name} on days they were enrolled, in the class they were in on each day.
+          </CardDescription>
+        </div>
+        {canEdit && (
+          <Button size="sm" onClick={() => setIsDialogOpen(true)}>
+            <PlusCircle className="mr-2 h-4 w-4" /> Record Event
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No events recorded. Counted as enrolled in {getClassLabel(student.classId)} throughout.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Effective</TableHead>
+                <TableHead>Event</TableHead>
+                <TableHead>Details</TableHead>
+                <TableHead>Recorded By</TableHead>
+                {canEdit && <TableHead className="text-right">Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {history.map((event, index) => (
+                <TableRow key={`${event.type}_${event.date}_${index}`}>
+                  <TableCell>{format(parseISO(event.date), 'PPP')}</TableCell>
+                  <TableCell>{enrolmentEventLabels[event.type]}</TableCell>
+                  <TableCell>
+                    {describeEvent(event)}
+                    {event.note && <p className="text-xs text-muted-foreground">{event.note}</p>}
+                  </TableCell>
+                  <TableCell>{event.recordedByName}</TableCell>
+                  {canEdit && (
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" onClick={() => onSave(history.filter(e => e !== event))}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+      {isDialogOpen && (
+        <EnrolmentEventDialog
+          setIsOpen={setIsDialogOpen}
+          student={student}
+          classes={classes}
+          getClassLabel={getClassLabel}
+          onSave={handleAdd}
+        />
+      )}
+    </Card>
+  );
+}
+
+function EnrolmentEventDialog({ setIsOpen, student, classes, getClassLabel, onSave }: {
+  setIsOpen: (open: boolean) => void;
+  student: Student;
+  classes: Class[];
+  getClassLabel: (classId?: string) => string;
+  onSave: (event: Omit<EnrolmentEvent, 'recordedBy' | 'recordedByName' | 'recordedAt'>) => void;
+}) {
+  const [type, setType] = useState<EnrolmentEventType>('transferred');
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [classId, setClassId] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [note, setNote] = useState('');
+  const fromClassId = date ? getEnrolmentOn(student, date).classId : student.classId;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!date || (type === 'transferred' && !classId)) return;
+    onSave({
+      type,
+      date,
+      ...(type === 'transferred' && { classId, fromClassId }),
+      ...(type === 'joined' && classId && { classId }),
+      ...(type === 'longAbsence' && endDate && { endDate }),
+      ...(note.trim() && { note: note.trim() }),
+    });
+  };
+
+  return (
+    <Dialog open onOpenChange={setIsOpen}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Record Enrolment Event</DialogTitle>
+          <DialogDescription>The event applies from its effective date, including for attendance already taken.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="eventType">Event</Label>
+            <Select value={type} onValueChange={(value) => { setType(value as EnrolmentEventType); setClassId(''); }}>
+              <SelectTrigger id="eventType"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(enrolmentEventLabels) as EnrolmentEventType[]).map(eventType => (
+                  <SelectItem key={eventType} value={eventType}>{enrolmentEventLabels[eventType]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="eventDate">{type === 'longAbsence' ? 'Away From' : 'Effective From'}</Label>
+            <Input id="eventDate" type="date" value={date} onChange={(e) => setDate(e.target.value)} required />
+          </div>
+          {type === 'longAbsence' && (
+            <div>
+              <Label htmlFor="eventEndDate">Away Until (optional)</Label>
+              <Input id="eventEndDate" type="date" value={endDate} min={date} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+          )}
+          {(type === 'transferred' || type === 'joined') && (
+            <div>
+              <Label htmlFor="eventClass">{type === 'transferred' ? `Transfer From ${getClassLabel(fromClassId)} To` : 'Class (optional)'}</Label>
+              <Select value={classId} onValueChange={setClassId}>
+                <SelectTrigger id="eventClass"><SelectValue placeholder={type === 'joined' ? getClassLabel(fromClassId) : 'Select a class'} /></SelectTrigger>
+                <SelectContent>
+                  {classes.filter(c => type === 'joined' || c.id !== fromClassId).map(c => (
+                    <SelectItem key={c.id} value={c.id}>{getClassLabel(c.id)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div>
+            <Label htmlFor="eventNote">Note</Label>
+            <Textarea id="eventNote" value={note} onChange={(e) => setNote(e.target.value)} placeholder="e.g., Reason or reference number" />
+          </div>
+          <DialogFooter>
+            <DialogClose asChild><Button type="button" variant="outline">Cancel</Button></DialogClose>
+            <Button type="submit" disabled={!date || (type === 'transferred' && !classId)}>Save Event</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
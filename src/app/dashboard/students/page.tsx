@@ -0,0 +1,460 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { collection, getDocs, getDoc, doc, query, orderBy, where, updateDoc, deleteField } from 'firebase/firestore';
+import { useFirebase } from '@/firebase';
+import { useAuth } from '@/context/auth-context';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogClose } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Edit, Save, Search, UserCheck, UserX, X } from 'lucide-react';
+import type { Class, Department, EnrolmentEvent, Student } from '@/lib/types';
+import { sortEnrolmentEvents } from '@/lib/enrolment';
+import { commitInBatches, type BatchOperation } from '@/lib/batch';
+
+const ALL = 'all';
+
+type StudentDraft = Pick<Student, 'name' | 'registerNo' | 'gender' | 'admissionType' | 'mentor' | 'parentPhoneNumber'>;
+
+type StatusFilter = 'active' | 'inactive' | typeof ALL;
+
+export default function StudentsPage() {
+  const { firestore: db } = useFirebase();
+  const { staff, isUserLoading } = useAuth();
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [classes, setClasses] = useState<Class[]>([]);
+  const [students, setStudents] = useState<Student[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [searchTerm, setSearchTerm] = useState('');
+  const [deptFilter, setDeptFilter] = useState(ALL);
+  const [classFilter, setClassFilter] = useState(ALL);
+  const [mentorFilter, setMentorFilter] = useState(ALL);
+  const [admissionFilter, setAdmissionFilter] = useState(ALL);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('active');
+
+  const [editing, setEditing] = useState<{ id: string; draft: StudentDraft } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [statusChange, setStatusChange] = useState<Student | null>(null);
+
+  const canAccess = staff?.role === 'admin';
+
+  useEffect(() => {
+    if (!isUserLoading && !canAccess) {
+      router.push('/dashboard');
+    }
+  }, [canAccess, isUserLoading, router]);
+
+  useEffect(() => {
+    if (isUserLoading || !canAccess) return;
+    const fetchData = async () => {
+      setLoading(true);
+      try {
+        const [deptsSnap, classesSnap, studentsSnap] = await Promise.all([
+          getDocs(query(collection(db, 'departments'), orderBy('name'))),
+          getDocs(query(collection(db, 'classes'), orderBy('name'))),
+          getDocs(query(collection(db, 'students'), orderBy('name'))),
+        ]);
+        setDepartments(deptsSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as Department)));
+        setClasses(classesSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as Class)));
+        setStudents(studentsSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as Student)));
+      } catch (error) {
+        console.error("Error fetching students:", error);
+        toast({ variant: 'destructive', title: 'Error', description: 'Failed to load students.' });
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchData();
+  }, [db, canAccess, isUserLoading, toast]);
+
+  const availableClasses = useMemo(() => {
+    if (deptFilter === ALL) return classes;
+    return classes.filter(c => c.departmentId === deptFilter);
+  }, [deptFilter, classes]);
+
+  useEffect(() => {
+    if (classFilter !== ALL && !availableClasses.some(c => c.id === classFilter)) {
+      setClassFilter(ALL);
+    }
+  }, [availableClasses, classFilter]);
+
+  const mentors = useMemo(() => {
+    return Array.from(new Set(students.map(s => s.mentor).filter((m): m is string => !!m))).sort();
+  }, [students]);
+
+  const filteredStudents = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return students.filter(s => {
+      if (term && !s.name.toLowerCase().includes(term) && !s.registerNo?.toLowerCase().includes(term)) return false;
+      if (deptFilter !== ALL && s.departmentId !== deptFilter) return false;
+      if (classFilter !== ALL && s.classId !== classFilter) return false;
+      if (mentorFilter !== ALL && s.mentor !== mentorFilter) return false;
+      if (admissionFilter !== ALL && s.admissionType !== admissionFilter) return false;
+      if (statusFilter !== ALL && (s.isActive === false ? 'inactive' : 'active') !== statusFilter) return false;
+      return true;
+    });
+  }, [students, searchTerm, deptFilter, classFilter, mentorFilter, admissionFilter, statusFilter]);
+
+  const getClassLabel = (student: Student) => {
+    const cls = classes.find(c => c.id === student.classId);
+    const dept = departments.find(d => d.id === student.departmentId);
+    return `${cls?.name || student.classId} (${dept?.name || 'N/A'})`;
+  };
+
+  const startEditing = (student: Student) => {
+    setEditing({
+      id: student.id,
+      draft: {
+        name: student.name,
+        registerNo: student.registerNo || '',
+        gender: student.gender,
+        admissionType: student.admissionType,
+        mentor: student.mentor || '',
+        parentPhoneNumber: student.parentPhoneNumber || '',
+      },
+    });
+  };
+
+  const updateDraft = (changes: Partial<StudentDraft>) => {
+    setEditing(prev => prev && { ...prev, draft: { ...prev.draft, ...changes } });
+  };
+
+  // Attendance records and the fee profile carry their own copy of the name and register number, so they are
+  // rewritten along with the student.
+  const handleSaveEdit = async () => {
+    if (!editing) return;
+    const student = students.find(s => s.id === editing.id);
+    if (!student) return;
+    const draft = {
+      ...editing.draft,
+      name: editing.draft.name.trim(),
+      registerNo: editing.draft.registerNo.trim(),
+      mentor: editing.draft.mentor?.trim() || '',
+      parentPhoneNumber: editing.draft.parentPhoneNumber?.trim() || '',
+    };
+    if (!draft.name) {
+      toast({ variant: 'destructive', title: 'Error', description: 'Name is required.' });
+      return;
+    }
+    const clash = draft.registerNo && students.find(s => s.id !== student.id && s.registerNo?.trim().toUpperCase() === draft.registerNo.toUpperCase());
+    if (clash) {
+      toast({ variant: 'destructive', title: 'Duplicate Register No.', description: `${draft.registerNo} already belongs to ${clash.name}.` });
+      return;
+    }
+
+    setIsSaving(true);
+    let saved = 0;
+    try {
+      const operations: BatchOperation[] = [];
+      operations.push(batch => batch.update(doc(db, 'students', student.id), {
+        name: draft.name,
+        registerNo: draft.registerNo,
+        gender: draft.gender,
+        admissionType: draft.admissionType ?? deleteField(),
+        mentor: draft.mentor || deleteField(),
+        parentPhoneNumber: draft.parentPhoneNumber || deleteField(),
+      }));
+
+      const copiesChanged = draft.name !== student.name || draft.registerNo !== (student.registerNo || '') || draft.gender !== student.gender;
+      let recordCount = 0;
+      if (copiesChanged) {
+        const [recordsSnap, feeSnap] = await Promise.all([
+          getDocs(query(collection(db, 'attendanceRecords'), where('studentId', '==', student.id))),
+          getDoc(doc(db, 'fees', student.id)),
+        ]);
+        recordCount = recordsSnap.size;
+        recordsSnap.docs.forEach(recordDoc => {
+          operations.push(batch => batch.update(recordDoc.ref, { studentName: draft.name, registerNo: draft.registerNo, gender: draft.gender }));
+        });
+        if (feeSnap.exists()) {
+          operations.push(batch => batch.update(feeSnap.ref, { studentName: draft.name, registerNo: draft.registerNo }));
+        }
+      }
+
+      await commitInBatches(db, operations, done => { saved = done; });
+
+      const updated: Student = { ...student, ...draft };
+      if (!draft.mentor) delete updated.mentor;
+      if (!draft.parentPhoneNumber) delete updated.parentPhoneNumber;
+      setStudents(prev => prev.map(s => s.id === student.id ? updated : s));
+      setEditing(null);
+      toast({
+        title: 'Student Updated',
+        description: copiesChanged ? `${student.name}'s details were saved and ${recordCount} attendance record(s) updated.` : `${student.name}'s details were saved.`,
+      });
+    } catch (error) {
+      console.error("Error updating student:", error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: saved > 0
+          ? 'The student was saved but some attendance records or fees still show the old details. Save again to finish.'
+          : 'Failed to update the student.',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Deactivating records a discontinuation so the student stops counting from that date; history stays intact.
+  const handleStatusChange = async (student: Student, date: string, note: string) => {
+    if (!staff) return false;
+    const activate = student.isActive === false;
+    const event: EnrolmentEvent = {
+      type: activate ? 'joined' : 'discontinued',
+      date,
+      ...(note && { note }),
+      recordedBy: staff.id,
+      recordedByName: staff.name,
+      recordedAt: new Date(),
+    };
+    const enrolmentHistory = sortEnrolmentEvents([...(student.enrolmentHistory ?? []), event]);
+    try {
+      await updateDoc(doc(db, 'students', student.id), { enrolmentHistory, isActive: activate ? deleteField() : false });
+      setStudents(prev => prev.map(s => s.id === student.id ? { ...s, enrolmentHistory, isActive: activate ? undefined : false } : s));
+      toast({ title: 'Success', description: `${student.name} has been ${activate ? 'reactivated' : 'deactivated'}.` });
+      return true;
+    } catch (error) {
+      console.error("Error changing student status:", error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Failed to change the student status.' });
+      return false;
+    }
+  };
+
+  if (isUserLoading || !canAccess || loading) {
+    return (
+      <div className="space-y-8">
+        <Skeleton className="h-12 w-1/2" />
+        <Card>
+          <CardHeader><Skeleton className="h-8 w-1/3" /></CardHeader>
+          <CardContent><Skeleton className="h-96 w-full" /></CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-2xl font-headline font-bold">Student Directory</h1>
+        <p className="text-muted-foreground">Search, correct and deactivate students. Use the Staff page to add or import them.</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Students</CardTitle>
+          <CardDescription>
+            Showing {filteredStudents.length} of {students.length} students. Name and register number corrections are copied to past attendance and fees.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="relative w-full sm:w-[260px]">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input type="search" placeholder="Search name or register no..." className="pl-8" value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} />
+            </div>
+            <Select value={deptFilter} onValueChange={setDeptFilter}>
+              <SelectTrigger className="w-full sm:w-[180px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All Departments</SelectItem>
+                {departments.map(d => <SelectItem key={d.id} value={d.id}>{d.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Select value={classFilter} onValueChange={setClassFilter}>
+              <SelectTrigger className="w-full sm:w-[180px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All Classes</SelectItem>
+                {availableClasses.map(c => (
+                  <SelectItem key={c.id} value={c.id}>{deptFilter === ALL ? `${c.name} (${departments.find(d => d.id === c.departmentId)?.name || 'N/A'})` : c.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={mentorFilter} onValueChange={setMentorFilter}>
+              <SelectTrigger className="w-full sm:w-[180px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All Mentors</SelectItem>
+                {mentors.map(m => <SelectItem key={m} value={m}>{m}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Select value={admissionFilter} onValueChange={setAdmissionFilter}>
+              <SelectTrigger className="w-full sm:w-[180px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All Admission Types</SelectItem>
+                <SelectItem value="CENTAC">CENTAC</SelectItem>
+                <SelectItem value="Management">Management</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+              <SelectTrigger className="w-full sm:w-[140px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="active">Active</SelectItem>
+                <SelectItem value="inactive">Inactive</SelectItem>
+                <SelectItem value={ALL}>All Statuses</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Register No.</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Class</TableHead>
+                  <TableHead>Gender</TableHead>
+                  <TableHead>Admission</TableHead>
+                  <TableHead>Mentor</TableHead>
+                  <TableHead>Parent Phone</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredStudents.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center text-muted-foreground">No students match the filters.</TableCell>
+                  </TableRow>
+                ) : filteredStudents.map(student => {
+                  const draft = editing?.id === student.id ? editing.draft : null;
+                  return (
+                    <TableRow key={student.id} className={student.isActive === false ? 'opacity-60' : ''}>
+                      {draft ? (
+                        <>
+                          <TableCell><Input value={draft.registerNo} onChange={(e) => updateDraft({ registerNo: e.target.value })} className="h-8 w-32" /></TableCell>
+                          <TableCell><Input value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} className="h-8" /></TableCell>
+                          <TableCell>{getClassLabel(student)}</TableCell>
+                          <TableCell>
+                            <Select value={draft.gender} onValueChange={(value) => updateDraft({ gender: value as Student['gender'] })}>
+                              <SelectTrigger className="h-8 w-28"><SelectValue /></SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="MALE">Male</SelectItem>
+                                <SelectItem value="FEMALE">Female</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            <Select value={draft.admissionType ?? ''} onValueChange={(value) => updateDraft({ admissionType: value as Student['admissionType'] })}>
+                              <SelectTrigger className="h-8 w-32"><SelectValue placeholder="Not set" /></SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="CENTAC">CENTAC</SelectItem>
+                                <SelectItem value="Management">Management</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell><Input value={draft.mentor ?? ''} onChange={(e) => updateDraft({ mentor: e.target.value })} className="h-8 w-32" /></TableCell>
+                          <TableCell><Input value={draft.parentPhoneNumber ?? ''} onChange={(e) => updateDraft({ parentPhoneNumber: e.target.value })} className="h-8 w-32" /></TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            <Button variant="ghost" size="icon" onClick={handleSaveEdit} disabled={isSaving} title="Save">
+                              <Save className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="icon" onClick={() => setEditing(null)} disabled={isSaving} title="Cancel">
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </>
+                      ) : (
+                        <>
+                          <TableCell>{student.registerNo || <span className="text-destructive">Missing</span>}</TableCell>
+                          <TableCell className="font-medium">
+                            {student.name}
+                            {student.isActive === false && <Badge variant="outline" className="ml-2">Inactive</Badge>}
+                          </TableCell>
+                          <TableCell>{getClassLabel(student)}</TableCell>
+                          <TableCell>{student.gender === 'MALE' ? 'Male' : 'Female'}</TableCell>
+                          <TableCell>{student.admissionType || '-'}</TableCell>
+                          <TableCell>{student.mentor || '-'}</TableCell>
+                          <TableCell>{student.parentPhoneNumber || '-'}</TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            <Button variant="ghost" size="icon" onClick={() => startEditing(student)} disabled={!!editing} title="Edit">
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="icon" onClick={() => setStatusChange(student)} disabled={!!editing} title={student.isActive === false ? 'Reactivate' : 'Deactivate'}>
+                              {student.isActive === false ? <UserCheck className="h-4 w-4" /> : <UserX className="h-4 w-4 text-destructive" />}
+                            </Button>
+                          </TableCell>
+                        </>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {statusChange && (
+        <StudentStatusDialog
+          student={statusChange}
+          setIsOpen={(open) => !open && setStatusChange(null)}
+          onConfirm={async (date, note) => {
+            if (await handleStatusChange(statusChange, date, note)) setStatusChange(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+function StudentStatusDialog({ student, setIsOpen, onConfirm }: {
+  student: Student;
+  setIsOpen: (open: boolean) => void;
+  onConfirm: (date: string, note: string) => Promise<void>;
+}) {
+  const activate = student.isActive === false;
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!date) return;
+    setIsSaving(true);
+    await onConfirm(date, note.trim());
+    setIsSaving(false);
+  };
+
+  return (
+    <Dialog open onOpenChange={setIsOpen}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{activate ? 'Reactivate' : 'Deactivate'} {student.name}</DialogTitle>
+          <DialogDescription>
+            {activate
+              ? 'The student rejoins their current class and counts towards attendance again from this date.'
+              : 'The student stops counting towards attendance and strength from this date. Their records and fees are kept, and they can be reactivated later.'}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="statusDate">Effective From</Label>
+            <Input id="statusDate" type="date" value={date} onChange={(e) => setDate(e.target.value)} required />
+          </div>
+          <div>
+            <Label htmlFor="statusNote">Reason</Label>
+            <Textarea id="statusNote" value={note} onChange={(e) => setNote(e.target.value)} placeholder={activate ? 'e.g., Readmitted' : 'e.g., Discontinued, TC issued'} />
+          </div>
+          <DialogFooter>
+            <DialogClose asChild><Button type="button" variant="outline">Cancel</Button></DialogClose>
+            <Button type="submit" variant={activate ? 'default' : 'destructive'} disabled={isSaving || !date}>
+              {isSaving ? 'Saving...' : activate ? 'Reactivate' : 'Deactivate'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,45 +1,129 @@
-
 'use client';
 
 import { useState, useEffect, useMemo } from 'react';
-import { collection, getDocs, doc, setDoc, Timestamp } from 'firebase/firestore';
+import { collection, getDocs, doc, query, setDoc, deleteDoc, deleteField, where, writeBatch, Timestamp } from 'firebase/firestore';
 import { useFirebase } from '@/firebase';
-import { useRouter } from 'next/navigation';
+import { useAuth } from '@/context/auth-context';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Calendar } from '@/components/ui/calendar';
 import { useToast } from '@/hooks/use-toast';
 import { Skeleton } from '@/components/ui/skeleton';
-import { WorkingDay } from '@/lib/types';
-import { format, getMonth, startOfMonth } from 'date-fns';
+import type { AttendanceReconcileAction, AttendanceRecord, AttendanceSettings, AttendanceSubmission, CalendarAuditEntry, CalendarScope, Class, DayType, Department, Semester, WorkingDay } from '@/lib/types';
+import { eachDayOfInterval, endOfMonth, endOfWeek, format, parseISO, startOfMonth, startOfWeek } from 'date-fns';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose
+} from '@/components/ui/dialog';
+import { Checkbox } from '@/components/ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { CalendarRange, Copy, Download, Edit, Layers, PlusCircle, Trash2, Upload } from 'lucide-react';
+import * as XLSX from 'xlsx';
+import { calendarScopeLabels, createCalendarResolver, dayTypeLabels, dayTypes, defaultRecurringRule, expandImportedRanges, expandRecurringRule, fetchCalendarDays, findRetroactiveHolidaySubmissions, getCalendarOverrideId, getDayType, isInstructionalDay, parseCalendarRows, planCalendarChanges, toCalendarDay, type CalendarChange, type CalendarTarget, type ImportedRange, type RecurringRule } from '@/lib/calendar';
+import { parseIcsEvents } from '@/lib/ics';
+import { exportToCsv } from '@/lib/utils';
+import { defaultAttendanceSettings, fetchAttendanceSettings } from '@/lib/settings';
+import { describeWeeklyOffs, isOffDay, isWeeklyOff, weekOfMonthLabels, type WeeklyOffPolicy } from '@/lib/date-policy';
+import { commitInBatches, type BatchOperation } from '@/lib/batch';
+
+const dayTypeStyles: Record<DayType, { backgroundColor: string; color: string }> = {
+  instructional: { backgroundColor: 'hsl(var(--primary))', color: 'hsl(var(--primary-foreground))' },
+  exam: { backgroundColor: '#7c3aed', color: '#ffffff' },
+  holiday: { backgroundColor: 'hsl(var(--destructive))', color: 'hsl(var(--destructive-foreground))' },
+  event: { backgroundColor: '#0284c7', color: '#ffffff' },
+  vacation: { backgroundColor: '#d97706', color: '#ffffff' },
+};
+
+const weekdayOptions = [
+  { value: 0, label: 'Sun' },
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+];
+
+const dayTypeIndicators: Record<DayType, string> = {
+  instructional: 'W',
+  exam: 'X',
+  holiday: 'H',
+  event: 'E',
+  vacation: 'V',
+};
+
+/**
+ * A calendar change waiting to be saved. `dayType` and `label` are only set when every changed day gets the same
+ * ones, for the audit entry.
+ */
+type PendingCalendarChange = {
+  dates: string[];
+  dayType?: DayType;
+  label?: string;
+  nextCalendarDays: WorkingDay[];
+  apply: () => Promise<boolean>;
+};
+
+type AffectedAttendance = {
+  submissions: AttendanceSubmission[];
+  records: AttendanceRecord[];
+  recordCounts: Record<string, number>; // submission id -> absence records under it
+};
 
 export default function WorkingDaysPage() {
   const { firestore: db } = useFirebase();
-  const router = useRouter();
+  const { staff } = useAuth();
   const { toast } = useToast();
 
-  const [workingDays, setWorkingDays] = useState<Map<string, boolean>>(new Map());
+  const [allCalendarDays, setAllCalendarDays] = useState<WorkingDay[]>([]);
+  const [classes, setClasses] = useState<Class[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [scope, setScope] = useState<CalendarScope | 'institution'>('institution');
+  const [scopeId, setScopeId] = useState('');
+  const [semesters, setSemesters] = useState<Semester[]>([]);
+  const [settings, setSettings] = useState<AttendanceSettings>(defaultAttendanceSettings);
   const [loading, setLoading] = useState(true);
   const [currentMonth, setCurrentMonth] = useState<Date>(startOfMonth(new Date()));
+  const [editingDay, setEditingDay] = useState<Date | null>(null);
+  const [editingSemester, setEditingSemester] = useState<Semester | null>(null);
+  const [isSemesterDialogOpen, setIsSemesterDialogOpen] = useState(false);
+  const [isBulkDialogOpen, setIsBulkDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [isBatchDialogOpen, setIsBatchDialogOpen] = useState(false);
+  const [reconciling, setReconciling] = useState<(PendingCalendarChange & AffectedAttendance) | null>(null);
 
-  const fetchWorkingDays = async (month: Date) => {
+  const fetchCalendar = async () => {
     setLoading(true);
     try {
-      const workingDaysCollection = collection(db, 'workingDays');
-      const querySnapshot = await getDocs(workingDaysCollection);
-      const daysMap = new Map<string, boolean>();
-      querySnapshot.forEach((doc) => {
-        const data = doc.data() as Omit<WorkingDay, 'id'>;
-        const dateKey = format(data.timestamp.toDate(), 'yyyy-MM-dd');
-        daysMap.set(dateKey, data.isWorkingDay);
-      });
-      setWorkingDays(daysMap);
+      const [calendarDaysData, semestersSnap, classesSnap, departmentsSnap, settingsData] = await Promise.all([
+        fetchCalendarDays(db),
+        getDocs(collection(db, 'semesters')),
+        getDocs(collection(db, 'classes')),
+        getDocs(collection(db, 'departments')),
+        fetchAttendanceSettings(db),
+      ]);
+      setAllCalendarDays(calendarDaysData);
+      setSettings(settingsData);
+      setClasses(classesSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as Class)).sort((a, b) => a.name.localeCompare(b.name)));
+      setDepartments(departmentsSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as Department)).sort((a, b) => a.name.localeCompare(b.name)));
+      setSemesters(semestersSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as Semester)).sort((a, b) => b.startDate.localeCompare(a.startDate)));
     } catch (error) {
-      console.error("Error fetching working days: ", error);
+      console.error("Error fetching academic calendar: ", error);
       toast({
         variant: "destructive",
         title: "Error",
-        description: "Could not fetch working days data.",
+        description: "Could not fetch the academic calendar.",
       });
     } finally {
       setLoading(false);
@@ -47,69 +131,372 @@ export default function WorkingDaysPage() {
   };
 
   useEffect(() => {
-    fetchWorkingDays(currentMonth);
-  }, [currentMonth, db]);
+    fetchCalendar();
+  }, [db]);
+
+  const batches = useMemo(() => Array.from(new Set(classes.map(c => c.batch).filter((b): b is string => !!b))).sort(), [classes]);
+
+  const scopeOptions = useMemo(() => {
+    if (scope === 'department') return departments.map(d => ({ id: d.id, name: d.name }));
+    if (scope === 'batch') return batches.map(b => ({ id: b, name: b }));
+    if (scope === 'class') return classes.map(c => ({ id: c.id, name: `${c.name} (${departments.find(d => d.id === c.departmentId)?.name || 'N/A'})` }));
+    return [];
+  }, [scope, departments, batches, classes]);
+
+  const isScoped = scope !== 'institution' && !!scopeId;
+  // Nothing is editable until a department, batch or class is picked, so no change lands on the institution calendar by mistake.
+  const isScopePending = scope !== 'institution' && !scopeId;
+  const scopeName = isScoped ? scopeOptions.find(o => o.id === scopeId)?.name ?? scopeId : 'Institution';
+
+  // The effective calendar for the selected scope, and the dates this scope sets itself rather than inherits.
+  const { calendarDays, ownDates } = useMemo(() => {
+    const target: CalendarTarget = !isScoped ? {}
+      : scope === 'department' ? { departmentId: scopeId }
+      : scope === 'batch' ? { batch: scopeId }
+      : { classId: scopeId };
+    const resolver = createCalendarResolver(allCalendarDays, classes, settings);
+    const days = new Map<string, WorkingDay>();
+    resolver.markedDates().forEach(dateKey => {
+      const day = resolver.getDay(target, dateKey);
+      if (day) days.set(dateKey, day);
+    });
+    const own = new Set<string>();
+    days.forEach((day, dateKey) => {
+      const isOwn = isScoped ? day.scope === scope && day.scopeId === scopeId : !day.scope;
+      if (isOwn) own.add(dateKey);
+    });
+    return { calendarDays: days, ownDates: own };
+  }, [allCalendarDays, classes, settings, scope, scopeId, isScoped]);
 
-  const handleDayClick = async (day: Date, modifiers: { disabled?: boolean }) => {
+  const handleScopeChange = (value: CalendarScope | 'institution') => {
+    setScope(value);
+    setScopeId('');
+  };
+
+  // Institution days live in `workingDays`, keyed by date; everything narrower is an override in `calendarOverrides`.
+  const getDayRef = (dateKey: string) => isScoped
+    ? doc(db, 'calendarOverrides', getCalendarOverrideId(scope as CalendarScope, scopeId, dateKey))
+    : doc(db, 'workingDays', dateKey);
+
+  const toScopedDay = (date: Date, dayType: DayType, label: string) => ({
+    ...toCalendarDay(date, dayType, label),
+    ...(isScoped && { scope: scope as CalendarScope, scopeId }),
+    // Marking a weekly off as instructional is what makes it a working day.
+    ...(dayType === 'instructional' && isWeeklyOff(date, settings) && { compensatory: true }),
+  });
+
+  const mergeCalendarDays = (days: WorkingDay[]) => {
+    setAllCalendarDays(prev => {
+      const ids = new Set(days.map(day => day.id));
+      return [...prev.filter(day => !ids.has(day.id)), ...days];
+    });
+  };
+
+  const handleDayClick = (day: Date, modifiers: { disabled?: boolean }) => {
     if (modifiers.disabled) {
       return;
     }
-    const dateKey = format(day, 'yyyy-MM-dd');
-    const isCurrentlyWorking = workingDays.get(dateKey) ?? false; // Default to holiday
-    const newIsWorking = !isCurrentlyWorking;
+    setEditingDay(day);
+  };
 
-    try {
-      const docRef = doc(db, 'workingDays', dateKey);
-      const newWorkingDay: Omit<WorkingDay, 'id'> = {
-        isWorkingDay: newIsWorking,
-        timestamp: Timestamp.fromDate(day),
-      };
-      await setDoc(docRef, newWorkingDay, { merge: true });
+  const closeCalendarDialogs = () => {
+    setEditingDay(null);
+    setIsBulkDialogOpen(false);
+    setIsImportDialogOpen(false);
+  };
 
-      setWorkingDays(new Map(workingDays.set(dateKey, newIsWorking)));
+  const saveCalendarChanges = async (changes: CalendarChange[]) => {
+    let saved = 0;
+    try {
+      const days: WorkingDay[] = [];
+      const operations: BatchOperation[] = changes.map(change => {
+        const calendarDay = toScopedDay(change.date, change.dayType, change.label);
+        const dayRef = getDayRef(change.dateKey);
+        days.push({ id: dayRef.id, ...calendarDay });
+        return batch => batch.set(dayRef, { ...calendarDay, timestamp: Timestamp.fromDate(change.date) });
+      });
+      await commitInBatches(db, operations, done => {
+        mergeCalendarDays(days.slice(saved, done));
+        saved = done;
+      });
+      const [first] = changes;
       toast({
         title: 'Success',
-        description: `Date ${dateKey} marked as ${newIsWorking ? 'a working day' : 'a holiday'}.`,
+        description: changes.length === 1
+          ? `${first.dateKey} marked as ${dayTypeLabels[first.dayType].toLowerCase()}${first.label ? ` (${first.label})` : ''} for ${scopeName}.`
+          : `${changes.length} day(s) updated for ${scopeName}.`,
       });
+      return true;
     } catch (error) {
-      console.error('Error updating working day:', error);
+      console.error('Error applying calendar update:', error);
       toast({
         variant: 'destructive',
         title: 'Error',
-        description: 'Failed to update the date status.',
+        description: saved > 0
+          ? `Only ${saved} of ${changes.length} days were saved. Apply again to finish the rest.`
+          : 'Failed to update the calendar.',
       });
+      return false;
     }
   };
 
-  const workingDayModifiers = useMemo(() => {
-    const working: Date[] = [];
-    workingDays.forEach((isWorkingDay, dateStr) => {
-      if (isWorkingDay) {
-        working.push(new Date(dateStr));
-      }
+  const removeOverride = async (day: Date) => {
+    const dateKey = format(day, 'yyyy-MM-dd');
+    try {
+      const dayRef = getDayRef(dateKey);
+      await deleteDoc(dayRef);
+      setAllCalendarDays(prev => prev.filter(d => d.id !== dayRef.id));
+      toast({ title: 'Success', description: `${dateKey} now follows the wider calendar for ${scopeName}.` });
+      return true;
+    } catch (error) {
+      console.error('Error removing calendar override:', error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Failed to update the date.' });
+      return false;
+    }
+  };
+
+  const getRecordClassId = (record: AttendanceRecord) => record.classId
+    ?? classes.find(c => c.name === record.className && departments.find(d => d.id === c.departmentId)?.name === record.departmentName)?.id;
+
+  // Attendance already submitted on days that the change would turn into non-instructional days for their class.
+  const findAffectedAttendance = async (dateKeys: string[], nextCalendarDays: WorkingDay[]): Promise<AffectedAttendance | null> => {
+    const sortedKeys = [...dateKeys].sort();
+    const firstDate = sortedKeys[0];
+    const lastDate = sortedKeys[sortedKeys.length - 1];
+    if (!firstDate || firstDate > format(new Date(), 'yyyy-MM-dd')) return null;
+
+    const dateSet = new Set(dateKeys);
+    const submissionsSnap = await getDocs(query(collection(db, 'attendanceSubmissions'), where('date', '>=', firstDate), where('date', '<=', lastDate)));
+    const submissions = submissionsSnap.docs
+      .map(doc => ({ id: doc.id, ...doc.data() } as AttendanceSubmission))
+      .filter(sub => dateSet.has(sub.date));
+    const affected = findRetroactiveHolidaySubmissions(
+      submissions,
+      createCalendarResolver(allCalendarDays, classes, settings),
+      createCalendarResolver(nextCalendarDays, classes, settings),
+    );
+    if (affected.length === 0) return null;
+
+    const affectedKeys = new Set(affected.map(sub => `${sub.classId}_${sub.date}`));
+    const recordsSnap = await getDocs(query(collection(db, 'attendanceRecords'), where('date', '>=', firstDate), where('date', '<=', lastDate)));
+    const records = recordsSnap.docs
+      .map(doc => ({ id: doc.id, ...doc.data() } as AttendanceRecord))
+      .filter(record => affectedKeys.has(`${getRecordClassId(record)}_${record.date}`));
+    const recordCounts = Object.fromEntries(affected.map(sub => [
+      sub.id,
+      records.filter(r => r.date === sub.date && getRecordClassId(r) === sub.classId && (r.period ?? 0) === (sub.period ?? 0)).length,
+    ]));
+    return { submissions: affected, records, recordCounts };
+  };
+
+  // Saves straight away unless attendance was already taken on a day that stops being instructional; then the
+  // admin decides what happens to it first.
+  const runCalendarChange = async (change: PendingCalendarChange) => {
+    let affected;
+    try {
+      affected = await findAffectedAttendance(change.dates, change.nextCalendarDays);
+    } catch (error) {
+      console.error('Error checking attendance on changed dates:', error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Could not check for attendance already taken on these dates.' });
+      return;
+    }
+    if (affected) {
+      setReconciling({ ...change, ...affected });
+      return;
+    }
+    if (await change.apply()) closeCalendarDialogs();
+  };
+
+  const withChangedDays = (changes: CalendarChange[]) => {
+    const changedDays = changes.map(change => ({ id: getDayRef(change.dateKey).id, ...toScopedDay(change.date, change.dayType, change.label) }));
+    const ids = new Set(changedDays.map(day => day.id));
+    return [...allCalendarDays.filter(day => !ids.has(day.id)), ...changedDays];
+  };
+
+  const handleSaveDay = async (day: Date, dayType: DayType, label: string) => {
+    const dateKey = format(day, 'yyyy-MM-dd');
+    const change: CalendarChange = { date: day, dayType, label, dateKey, current: calendarDays.get(dateKey) };
+    await runCalendarChange({
+      dates: [dateKey],
+      dayType,
+      label,
+      nextCalendarDays: withChangedDays([change]),
+      apply: () => saveCalendarChanges([change]),
     });
-    return {
-      working: working,
-      holiday: (date: Date) => {
-        const dateKey = format(date, 'yyyy-MM-dd');
-        return workingDays.get(dateKey) === false;
-      },
-    };
-  }, [workingDays]);
-  
-  const modifierStyles = {
-    holiday: {
-      backgroundColor: 'hsl(var(--destructive))',
-      color: 'hsl(var(--destructive-foreground))',
-      borderRadius: 'var(--radius)',
-    },
-    working: {
-      backgroundColor: 'hsl(var(--primary))',
-      color: 'hsl(var(--primary-foreground))',
-      borderRadius: 'var(--radius)',
+  };
+
+  const handleInheritDay = async (day: Date) => {
+    const dayId = getDayRef(format(day, 'yyyy-MM-dd')).id;
+    await runCalendarChange({
+      dates: [format(day, 'yyyy-MM-dd')],
+      nextCalendarDays: allCalendarDays.filter(d => d.id !== dayId),
+      apply: () => removeOverride(day),
+    });
+  };
+
+  const handleBulkApply = async (changes: CalendarChange[]) => {
+    const dayTypesInChange = new Set(changes.map(change => change.dayType));
+    const labels = new Set(changes.map(change => change.label));
+    await runCalendarChange({
+      dates: changes.map(change => change.dateKey),
+      ...(dayTypesInChange.size === 1 && { dayType: changes[0].dayType }),
+      ...(labels.size === 1 && { label: changes[0].label }),
+      nextCalendarDays: withChangedDays(changes),
+      apply: () => saveCalendarChanges(changes),
+    });
+  };
+
+  const handleReconcile = async (action: AttendanceReconcileAction) => {
+    if (!reconciling || !staff) return;
+    if (!(await reconciling.apply())) return;
+    closeCalendarDialogs();
+
+    const { submissions, records } = reconciling;
+    const auditRef = doc(collection(db, 'calendarAuditLog'));
+    try {
+      if (action !== 'keep') {
+        const archivedAt = new Date();
+        const operations: BatchOperation[] = [];
+        ([['attendanceSubmissions', submissions], ['attendanceRecords', records]] as const).forEach(([collectionName, docs]) => {
+          const archiveName = collectionName === 'attendanceSubmissions' ? 'archivedAttendanceSubmissions' : 'archivedAttendanceRecords';
+          docs.forEach(({ id, ...data }) => {
+            if (action === 'archive') {
+              operations.push(batch => batch.set(doc(db, archiveName, id), { ...data, archivedAt, archivedBy: staff.name, auditId: auditRef.id }));
+            }
+            operations.push(batch => batch.delete(doc(db, collectionName, id)));
+          });
+        });
+        await commitInBatches(db, operations);
+      }
+
+      const auditEntry: Omit<CalendarAuditEntry, 'id'> = {
+        dates: [...reconciling.dates].sort(),
+        ...(isScoped && { scope: scope as CalendarScope, scopeId }),
+        ...(reconciling.dayType && { dayType: reconciling.dayType }),
+        ...(reconciling.label && { label: reconciling.label }),
+        action,
+        submissionIds: submissions.map(sub => sub.id),
+        recordCount: records.length,
+        changedBy: staff.id,
+        changedByName: staff.name,
+        changedAt: new Date(),
+      };
+      await setDoc(auditRef, auditEntry);
+      toast({
+        title: 'Attendance Reconciled',
+        description: action === 'keep'
+          ? `${submissions.length} submission(s) were kept as they are.`
+          : `${submissions.length} submission(s) and ${records.length} record(s) were ${action === 'archive' ? 'archived' : 'deleted'}.`,
+      });
+    } catch (error) {
+      console.error('Error reconciling attendance:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'The calendar was saved, but the attendance already taken could not be fully updated. Check the affected dates.',
+      });
+    } finally {
+      setReconciling(null);
     }
   };
 
+  const handleExportCsv = () => {
+    const rows = Array.from(calendarDays.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([dateKey, day]) => ({
+        'Date': dateKey,
+        'Day': format(day.timestamp, 'EEEE'),
+        'Type': dayTypeLabels[getDayType(day)],
+        'Label': day.label || '',
+      }));
+    exportToCsv(isScoped ? `academic-calendar-${scopeName.replace(/[^A-Za-z0-9]+/g, '-').toLowerCase()}.csv` : 'academic-calendar.csv', rows);
+  };
+
+  const handleCopyFeedUrl = async () => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/calendar.ics`);
+      toast({ title: 'Link Copied', description: 'Add it to your phone calendar as a subscription.' });
+    } catch (error) {
+      console.error('Error copying calendar link:', error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Could not copy the link.' });
+    }
+  };
+
+  const handleSaveBatches = async (batchByClass: Record<string, string>) => {
+    const changed = classes.filter(c => (c.batch || '') !== batchByClass[c.id]);
+    try {
+      const batch = writeBatch(db);
+      changed.forEach(c => {
+        batch.update(doc(db, 'classes', c.id), { batch: batchByClass[c.id] || deleteField() });
+      });
+      await batch.commit();
+      setClasses(prev => prev.map(c => ({ ...c, batch: batchByClass[c.id] || undefined })));
+      setIsBatchDialogOpen(false);
+      toast({ title: 'Success', description: `${changed.length} class(es) updated.` });
+    } catch (error) {
+      console.error('Error saving batches:', error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Failed to save the batches.' });
+    }
+  };
+
+  const handleSaveSemester = async (semesterData: Omit<Semester, 'id'>) => {
+    try {
+      const semesterRef = editingSemester ? doc(db, 'semesters', editingSemester.id) : doc(collection(db, 'semesters'));
+      await setDoc(semesterRef, semesterData);
+      const saved = { ...semesterData, id: semesterRef.id };
+      setSemesters(prev => [...prev.filter(s => s.id !== saved.id), saved].sort((a, b) => b.startDate.localeCompare(a.startDate)));
+      setIsSemesterDialogOpen(false);
+      toast({ title: 'Success', description: `${semesterData.name} ${semesterData.academicYear} saved.` });
+    } catch (error) {
+      console.error('Error saving semester:', error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Failed to save the semester.' });
+    }
+  };
+
+  const handleDeleteSemester = async (semester: Semester) => {
+    if (!window.confirm(`Delete ${semester.name} ${semester.academicYear}? Marked days are kept.`)) return;
+    try {
+      await deleteDoc(doc(db, 'semesters', semester.id));
+      setSemesters(prev => prev.filter(s => s.id !== semester.id));
+      toast({ title: 'Success', description: 'Semester deleted.' });
+    } catch (error) {
+      console.error('Error deleting semester:', error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Failed to delete the semester.' });
+    }
+  };
+
+  const dayTypeModifiers = useMemo(() => {
+    const modifiers = Object.fromEntries(dayTypes.map(type => [type, [] as Date[]])) as Record<DayType, Date[]>;
+    calendarDays.forEach(day => {
+      if (!isOffDay(day.timestamp, settings, day)) modifiers[getDayType(day)].push(day.timestamp);
+    });
+    const inherited = Array.from(calendarDays.entries()).filter(([dateKey]) => !ownDates.has(dateKey)).map(([, day]) => day.timestamp);
+    const weeklyOff = (date: Date) => isOffDay(date, settings, calendarDays.get(format(date, 'yyyy-MM-dd')));
+    return { ...modifiers, inherited, weeklyOff };
+  }, [calendarDays, ownDates, settings]);
+
+  const modifierStyles = useMemo(() => ({
+    ...Object.fromEntries(dayTypes.map(type => [type, { ...dayTypeStyles[type], borderRadius: 'var(--radius)' }])),
+    inherited: { opacity: 0.5 },
+    weeklyOff: { color: 'hsl(var(--muted-foreground))' },
+  }), []);
+
+  // Days this month that are not plain instructional days, or that have a label.
+  const monthEntries = useMemo(() => {
+    const monthKey = format(currentMonth, 'yyyy-MM');
+    return Array.from(calendarDays.entries())
+      .filter(([dateKey, day]) => dateKey.startsWith(monthKey) && (day.label || !isInstructionalDay(day)))
+      .sort(([a], [b]) => a.localeCompare(b));
+  }, [calendarDays, currentMonth]);
+
+  const countInstructionalDays = (semester: Semester) => {
+    return eachDayOfInterval({ start: parseISO(semester.startDate), end: parseISO(semester.endDate) })
+      .filter(day => {
+        const calendarDay = calendarDays.get(format(day, 'yyyy-MM-dd'));
+        return !!calendarDay && isInstructionalDay(calendarDay) && !isOffDay(day, settings, calendarDay);
+      }).length;
+  };
+
   if (loading) {
     return (
       <div className="space-y-8">
@@ -126,55 +513,837 @@ export default function WorkingDaysPage() {
     <div className="space-y-8">
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-2xl font-headline font-bold">Manage Working Days</h1>
-          <p className="text-muted-foreground">Click on a date to mark it as a working day or a holiday.</p>
+          <h1 className="text-2xl font-headline font-bold">Academic Calendar</h1>
+          <p className="text-muted-foreground">Click on a date to set its day type and label, or update a range of days at once.</p>
+        </div>
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button variant="outline" onClick={handleCopyFeedUrl}>
+            <Copy className="mr-2 h-4 w-4" /> Subscribe Link
+          </Button>
+          <Button variant="outline" asChild>
+            <a href="/calendar.ics" download="svcet-holidays.ics"><Download className="mr-2 h-4 w-4" /> ICS</a>
+          </Button>
+          <Button variant="outline" onClick={handleExportCsv} disabled={calendarDays.size === 0}>
+            <Download className="mr-2 h-4 w-4" /> CSV
+          </Button>
+          <Button variant="outline" onClick={() => setIsBatchDialogOpen(true)}>
+            <Layers className="mr-2 h-4 w-4" /> Batches
+          </Button>
+          <Button variant="outline" onClick={() => setIsImportDialogOpen(true)} disabled={isScopePending}>
+            <Upload className="mr-2 h-4 w-4" /> Import
+          </Button>
+          <Button onClick={() => setIsBulkDialogOpen(true)} disabled={isScopePending}>
+            <CalendarRange className="mr-2 h-4 w-4" /> Bulk Update
+          </Button>
         </div>
       </div>
 
       <Alert>
         <AlertDescription>
-          By default, all days are holidays. Click a date to mark it as a working day. Click it again to revert it to a holiday. Sundays are always holidays.
+          By default, all days are holidays. Only instructional days count towards attendance and reports; exam, event and vacation days are shown on the calendar but not counted. Weekly offs ({describeWeeklyOffs(settings)}) are holidays unless marked instructional as a compensatory working day; change them in Settings.
         </AlertDescription>
       </Alert>
 
-      <div className="flex justify-center">
-        <Card className="p-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Calendar For</CardTitle>
+          <CardDescription>
+            Departments, batches and classes follow the institution calendar unless a day is set for them. A class uses its own days first, then its batch's, then its department's. Faded days are inherited.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap gap-4">
+          <div className="w-48">
+            <Select value={scope} onValueChange={(value) => handleScopeChange(value as CalendarScope | 'institution')}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="institution">Institution</SelectItem>
+                {(Object.keys(calendarScopeLabels) as CalendarScope[]).map(s => (
+                  <SelectItem key={s} value={s}>{calendarScopeLabels[s]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {scope !== 'institution' && (
+            <div className="w-72">
+              <Select value={scopeId} onValueChange={setScopeId}>
+                <SelectTrigger><SelectValue placeholder={`Select ${calendarScopeLabels[scope].toLowerCase()}`} /></SelectTrigger>
+                <SelectContent>
+                  {scopeOptions.map(option => (
+                    <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {scope === 'batch' && batches.length === 0 && (
+                <p className="mt-1 text-xs text-muted-foreground">No batches yet. Assign classes to batches first.</p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="flex flex-col lg:flex-row justify-center gap-8">
+        <Card className={`p-4 self-start ${isScopePending ? 'pointer-events-none opacity-50' : ''}`}>
             <Calendar
                 mode="single"
                 onDayClick={handleDayClick}
                 month={currentMonth}
                 onMonthChange={setCurrentMonth}
-                modifiers={workingDayModifiers}
+                modifiers={dayTypeModifiers}
                 modifiersStyles={modifierStyles}
                 className="p-0"
-                disabled={{ dayOfWeek: [0] }}
                 components={{
                     DayContent: (props) => {
-                        const dateKey = format(props.date, 'yyyy-MM-dd');
-                        const isWorking = workingDays.get(dateKey);
-                        const isSunday = props.date.getDay() === 0;
-                        
+                        const calendarDay = calendarDays.get(format(props.date, 'yyyy-MM-dd'));
                         let indicator = null;
-                        if (isSunday) {
-                            indicator = 'H';
-                        } else if (isWorking === false) { // Explicitly a holiday
+                        if (isOffDay(props.date, settings, calendarDay)) {
                             indicator = 'H';
-                        } else if (isWorking === true) { // Explicitly a working day
-                            indicator = 'W';
+                        } else if (calendarDay?.compensatory) {
+                            indicator = 'C';
+                        } else if (calendarDay) {
+                            indicator = dayTypeIndicators[getDayType(calendarDay)];
                         }
-                        // If undefined, it's a default holiday, no indicator needed
+                        // If unmarked, it's a default holiday, no indicator needed
 
                         return (
-                            <div className="relative w-full h-full flex items-center justify-center">
+                            <div className="relative w-full h-full flex items-center justify-center" title={calendarDay?.label}>
                                <span>{props.date.getDate()}</span>
                                {indicator && <span className="absolute bottom-0 right-0 text-[8px] font-bold">{indicator}</span>}
+                               {calendarDay?.label && <span className="absolute top-0 right-0 h-1.5 w-1.5 rounded-full bg-current" />}
                             </div>
                         )
                     }
                 }}
             />
+            <div className="mt-4 grid grid-cols-2 gap-2 text-xs">
+              {dayTypes.map(type => (
+                <div key={type} className="flex items-center gap-2">
+                  <span className="flex h-4 w-4 items-center justify-center rounded text-[8px] font-bold" style={dayTypeStyles[type]}>
+                    {dayTypeIndicators[type]}
+                  </span>
+                  {dayTypeLabels[type]}
+                </div>
+              ))}
+              <div className="flex items-center gap-2">
+                <span className="flex h-4 w-4 items-center justify-center rounded text-[8px] font-bold" style={dayTypeStyles.instructional}>C</span>
+                Compensatory
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="h-1.5 w-1.5 rounded-full bg-foreground ml-[5px] mr-[5px]" />
+                Has a label
+              </div>
+              {isScoped && (
+                <div className="flex items-center gap-2">
+                  <span className="h-4 w-4 rounded bg-primary opacity-50" />
+                  Inherited
+                </div>
+              )}
+            </div>
         </Card>
+
+        <Card className="flex-1 max-w-xl">
+          <CardHeader>
+            <CardTitle>{format(currentMonth, 'MMMM yyyy')}{isScoped ? ` - ${scopeName}` : ''}</CardTitle>
+            <CardDescription>Holidays, exams, events and labelled days this month.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {monthEntries.length > 0 ? (
+              <div className="space-y-2">
+                {monthEntries.map(([dateKey, day]) => (
+                  <button
+                    key={dateKey}
+                    type="button"
+                    onClick={() => setEditingDay(day.timestamp)}
+                    className="flex w-full items-center justify-between rounded-md border p-2 text-left text-sm hover:bg-muted"
+                  >
+                    <span>
+                      <span className="font-medium">{format(parseISO(dateKey), 'EEE, dd MMM')}</span>
+                      {day.label && <span className="text-muted-foreground"> - {day.label}</span>}
+                      {isScoped && !ownDates.has(dateKey) && <span className="text-xs text-muted-foreground"> (inherited)</span>}
+                    </span>
+                    <Badge style={dayTypeStyles[getDayType(day)]}>{dayTypeLabels[getDayType(day)]}</Badge>
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Nothing marked this month apart from instructional days.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Semesters</CardTitle>
+            <CardDescription>Semester dates are used as the default range for shortage and eligibility reports.</CardDescription>
+          </div>
+          <Button onClick={() => { setEditingSemester(null); setIsSemesterDialogOpen(true); }}>
+            <PlusCircle className="mr-2 h-4 w-4" /> Add Semester
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Semester</TableHead>
+                  <TableHead>Academic Year</TableHead>
+                  <TableHead>Start</TableHead>
+                  <TableHead>End</TableHead>
+                  <TableHead className="text-right">Instructional Days</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {semesters.length > 0 ? (
+                  semesters.map(semester => (
+                    <TableRow key={semester.id}>
+                      <TableCell className="font-medium">{semester.name}</TableCell>
+                      <TableCell>{semester.academicYear}</TableCell>
+                      <TableCell>{format(parseISO(semester.startDate), 'dd MMM yyyy')}</TableCell>
+                      <TableCell>{format(parseISO(semester.endDate), 'dd MMM yyyy')}</TableCell>
+                      <TableCell className="text-right">{countInstructionalDays(semester)}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="icon" onClick={() => { setEditingSemester(semester); setIsSemesterDialogOpen(true); }}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => handleDeleteSemester(semester)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={6} className="h-24 text-center">
+                      No semesters added yet.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {editingDay && !isScopePending && (
+        <CalendarDayDialog
+          date={editingDay}
+          calendarDay={calendarDays.get(format(editingDay, 'yyyy-MM-dd'))}
+          scopeName={scopeName}
+          isWeeklyOff={isWeeklyOff(editingDay, settings)}
+          setIsOpen={(open) => !open && setEditingDay(null)}
+          onSave={handleSaveDay}
+          onInherit={isScoped && ownDates.has(format(editingDay, 'yyyy-MM-dd')) ? handleInheritDay : undefined}
+        />
+      )}
+
+      {isBulkDialogOpen && (
+        <BulkUpdateDialog
+          month={currentMonth}
+          calendarDays={calendarDays}
+          weeklyOffs={settings}
+          setIsOpen={setIsBulkDialogOpen}
+          onApply={handleBulkApply}
+        />
+      )}
+
+      {isImportDialogOpen && (
+        <ImportCalendarDialog
+          calendarDays={calendarDays}
+          weeklyOffs={settings}
+          setIsOpen={setIsImportDialogOpen}
+          onApply={handleBulkApply}
+        />
+      )}
+
+      {reconciling && (
+        <ReconcileAttendanceDialog
+          pending={reconciling}
+          classes={classes}
+          setIsOpen={(open) => !open && setReconciling(null)}
+          onConfirm={handleReconcile}
+        />
+      )}
+
+      {isBatchDialogOpen && (
+        <ManageBatchesDialog
+          classes={classes}
+          departments={departments}
+          setIsOpen={setIsBatchDialogOpen}
+          onSave={handleSaveBatches}
+        />
+      )}
+
+      {isSemesterDialogOpen && (
+        <SemesterDialog
+          semester={editingSemester}
+          setIsOpen={setIsSemesterDialogOpen}
+          onSave={handleSaveSemester}
+        />
+      )}
+    </div>
+  );
+}
+
+function BulkUpdateDialog({ month, calendarDays, weeklyOffs, setIsOpen, onApply }: {
+  month: Date;
+  calendarDays: Map<string, WorkingDay>;
+  weeklyOffs: WeeklyOffPolicy;
+  setIsOpen: (open: boolean) => void;
+  onApply: (changes: CalendarChange[]) => Promise<void>;
+}) {
+  const [fromDate, setFromDate] = useState(format(startOfMonth(month), 'yyyy-MM-dd'));
+  const [toDate, setToDate] = useState(format(endOfMonth(month), 'yyyy-MM-dd'));
+  const [rule, setRule] = useState<RecurringRule>(defaultRecurringRule);
+  const [dayType, setDayType] = useState<DayType>('instructional');
+  const [label, setLabel] = useState('');
+  const [keepMarked, setKeepMarked] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const changes = useMemo(() => {
+    const entries = expandRecurringRule(fromDate, toDate, rule, weeklyOffs).map(date => ({ date, dayType, label: label.trim() }));
+    return planCalendarChanges(entries, calendarDays, keepMarked);
+  }, [fromDate, toDate, rule, weeklyOffs, calendarDays, dayType, label, keepMarked]);
+
+  const setRange = (start: Date, end: Date) => {
+    setFromDate(format(start, 'yyyy-MM-dd'));
+    setToDate(format(end, 'yyyy-MM-dd'));
+  };
+
+  const toggleWeekday = (weekday: number, checked: boolean) => {
+    setRule(prev => ({ ...prev, weekdays: checked ? [...prev.weekdays, weekday] : prev.weekdays.filter(d => d !== weekday) }));
+  };
+
+  const toggleSaturday = (week: number, excluded: boolean) => {
+    setRule(prev => ({ ...prev, excludedSaturdays: excluded ? [...prev.excludedSaturdays, week] : prev.excludedSaturdays.filter(w => w !== week) }));
+  };
+
+  const handleApply = async () => {
+    setIsSaving(true);
+    await onApply(changes);
+    setIsSaving(false);
+  };
+
+  return (
+    <Dialog open onOpenChange={setIsOpen}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Bulk Update</DialogTitle>
+          <DialogDescription>Mark a range of days at once. Weekly offs ({describeWeeklyOffs(weeklyOffs)}) are never changed.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <Label htmlFor="bulkFrom">From</Label>
+              <Input id="bulkFrom" type="date" value={fromDate} max={toDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="bulkTo">To</Label>
+              <Input id="bulkTo" type="date" value={toDate} min={fromDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+            <Button type="button" variant="outline" onClick={() => setRange(startOfWeek(parseISO(fromDate || format(month, 'yyyy-MM-dd'))), endOfWeek(parseISO(fromDate || format(month, 'yyyy-MM-dd'))))}>
+              Week
+            </Button>
+            <Button type="button" variant="outline" onClick={() => setRange(startOfMonth(month), endOfMonth(month))}>
+              {format(month, 'MMMM')}
+            </Button>
+          </div>
+
+          <div>
+            <Label>Days of the Week</Label>
+            <div className="mt-2 flex flex-wrap gap-4">
+              {weekdayOptions.map(option => (
+                <div key={option.value} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`weekday-${option.value}`}
+                    checked={rule.weekdays.includes(option.value)}
+                    onCheckedChange={(checked) => toggleWeekday(option.value, !!checked)}
+                  />
+                  <Label htmlFor={`weekday-${option.value}`} className="font-normal">{option.label}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {rule.weekdays.includes(6) && (
+            <div>
+              <Label>Skip Saturdays</Label>
+              <div className="mt-2 flex flex-wrap gap-4">
+                {[1, 2, 3, 4, 5].map(week => (
+                  <div key={week} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`saturday-${week}`}
+                      checked={rule.excludedSaturdays.includes(week)}
+                      onCheckedChange={(checked) => toggleSaturday(week, !!checked)}
+                    />
+                    <Label htmlFor={`saturday-${week}`} className="font-normal">{weekOfMonthLabels[week - 1]}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Mark As</Label>
+              <Select value={dayType} onValueChange={(value) => setDayType(value as DayType)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {dayTypes.map(type => (
+                    <SelectItem key={type} value={type}>{dayTypeLabels[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="bulkLabel">Label (optional)</Label>
+              <Input id="bulkLabel" value={label} onChange={(e) => setLabel(e.target.value)} placeholder="e.g., Summer Vacation" />
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox id="keepMarked" checked={keepMarked} onCheckedChange={(checked) => setKeepMarked(!!checked)} />
+            <Label htmlFor="keepMarked" className="font-normal">Keep days already marked as holiday, exam, event or vacation</Label>
+          </div>
+
+          <CalendarChangesPreview changes={changes} />
+        </div>
+        <DialogFooter>
+          <DialogClose asChild><Button type="button" variant="outline">Cancel</Button></DialogClose>
+          <Button type="button" onClick={handleApply} disabled={isSaving || changes.length === 0}>
+            {isSaving ? 'Saving...' : `Apply ${changes.length} Change${changes.length === 1 ? '' : 's'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function CalendarChangesPreview({ changes }: { changes: CalendarChange[] }) {
+  return (
+    <div>
+      <Label>Preview</Label>
+      <div className="mt-2 rounded-md border max-h-60 overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Currently</TableHead>
+              <TableHead>Will Be</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {changes.length > 0 ? (
+              changes.map(change => (
+                <TableRow key={change.dateKey}>
+                  <TableCell>{format(change.date, 'EEE, dd MMM yyyy')}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {change.current ? `${dayTypeLabels[getDayType(change.current)]}${change.current.label ? ` (${change.current.label})` : ''}` : 'Unmarked'}
+                  </TableCell>
+                  <TableCell>{dayTypeLabels[change.dayType]}{change.label ? ` (${change.label})` : ''}</TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={3} className="h-16 text-center text-muted-foreground">
+                  No days would change.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
       </div>
     </div>
   );
 }
+
+function ImportCalendarDialog({ calendarDays, weeklyOffs, setIsOpen, onApply }: {
+  calendarDays: Map<string, WorkingDay>;
+  weeklyOffs: WeeklyOffPolicy;
+  setIsOpen: (open: boolean) => void;
+  onApply: (changes: CalendarChange[]) => Promise<void>;
+}) {
+  const { toast } = useToast();
+  const [fileName, setFileName] = useState('');
+  const [ranges, setRanges] = useState<ImportedRange[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [defaultType, setDefaultType] = useState<DayType>('holiday');
+  const [keepMarked, setKeepMarked] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { entries, skippedOffDays } = useMemo(() => expandImportedRanges(ranges, defaultType, weeklyOffs), [ranges, defaultType, weeklyOffs]);
+  const changes = useMemo(() => planCalendarChanges(entries, calendarDays, keepMarked), [entries, calendarDays, keepMarked]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    try {
+      if (file.name.toLowerCase().endsWith('.ics')) {
+        const events = parseIcsEvents(await file.text());
+        setRanges(events.map(event => ({ startDate: event.startDate, endDate: event.endDate, label: event.summary })));
+        setErrors(events.length === 0 ? ['No events were found in the file.'] : []);
+      } else {
+        // CSV is read as text so dates like 05-01-2026 are not guessed as US dates.
+        const workbook = file.name.toLowerCase().endsWith('.csv')
+          ? XLSX.read(await file.text(), { type: 'string', raw: true })
+          : XLSX.read(await file.arrayBuffer(), { cellDates: true });
+        const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets[workbook.SheetNames[0]]);
+        const result = parseCalendarRows(rows);
+        setRanges(result.ranges);
+        setErrors(rows.length === 0 ? ['The file has no rows.'] : result.errors);
+      }
+    } catch (error) {
+      console.error('Error reading calendar file:', error);
+      setRanges([]);
+      toast({ variant: 'destructive', title: 'Error', description: 'Could not read the file. Use an ICS, CSV or XLSX file.' });
+    }
+  };
+
+  const handleApply = async () => {
+    setIsSaving(true);
+    await onApply(changes);
+    setIsSaving(false);
+  };
+
+  return (
+    <Dialog open onOpenChange={setIsOpen}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Holidays</DialogTitle>
+          <DialogDescription>
+            Upload an ICS calendar, or a CSV/XLSX sheet with Date, Label and optional To and Type columns. Review the changes before applying them.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="calendarFile">File</Label>
+              <Input id="calendarFile" type="file" accept=".ics,.csv,.xlsx,.xls" onChange={handleFileChange} />
+            </div>
+            <div>
+              <Label>Mark Days Without a Type As</Label>
+              <Select value={defaultType} onValueChange={(value) => setDefaultType(value as DayType)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {dayTypes.map(type => (
+                    <SelectItem key={type} value={type}>{dayTypeLabels[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox id="importKeepMarked" checked={keepMarked} onCheckedChange={(checked) => setKeepMarked(!!checked)} />
+            <Label htmlFor="importKeepMarked" className="font-normal">Keep days already marked as holiday, exam, event or vacation</Label>
+          </div>
+
+          {fileName && (
+            <p className="text-sm text-muted-foreground">
+              {fileName}: {entries.length} day(s) read, {changes.length} to change
+              {entries.length > changes.length ? `, ${entries.length - changes.length} already up to date or kept` : ''}
+              {skippedOffDays > 0 ? `, ${skippedOffDays} weekly off(s) skipped` : ''}.
+            </p>
+          )}
+
+          {errors.length > 0 && (
+            <Alert variant="destructive">
+              <AlertDescription>
+                <ul className="list-disc pl-4 max-h-24 overflow-y-auto">
+                  {errors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <CalendarChangesPreview changes={changes} />
+        </div>
+        <DialogFooter>
+          <DialogClose asChild><Button type="button" variant="outline">Cancel</Button></DialogClose>
+          <Button type="button" onClick={handleApply} disabled={isSaving || changes.length === 0}>
+            {isSaving ? 'Saving...' : `Apply ${changes.length} Change${changes.length === 1 ? '' : 's'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function CalendarDayDialog({ date, calendarDay, scopeName, isWeeklyOff, setIsOpen, onSave, onInherit }: {
+  date: Date;
+  calendarDay?: WorkingDay;
+  scopeName: string;
+  isWeeklyOff: boolean;
+  setIsOpen: (open: boolean) => void;
+  onSave: (date: Date, dayType: DayType, label: string) => Promise<void>;
+  onInherit?: (date: Date) => Promise<void>;
+}) {
+  const [dayType, setDayType] = useState<DayType>(calendarDay ? getDayType(calendarDay) : 'instructional');
+  const [label, setLabel] = useState(calendarDay?.label || '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    await onSave(date, dayType, label.trim());
+    setIsSaving(false);
+  };
+
+  const handleInherit = async () => {
+    if (!onInherit) return;
+    setIsSaving(true);
+    await onInherit(date);
+    setIsSaving(false);
+  };
+
+  return (
+    <Dialog open onOpenChange={setIsOpen}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{format(date, 'EEEE, dd MMMM yyyy')}</DialogTitle>
+          <DialogDescription>
+            {scopeName}. Only instructional days count towards attendance.
+            {isWeeklyOff && ' This is a weekly off; marking it instructional makes it a compensatory working day.'}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label>Day Type</Label>
+            <Select value={dayType} onValueChange={(value) => setDayType(value as DayType)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {dayTypes.map(type => (
+                  <SelectItem key={type} value={type}>{dayTypeLabels[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="dayLabel">Label (optional)</Label>
+            <Input id="dayLabel" value={label} onChange={(e) => setLabel(e.target.value)} placeholder="e.g., Pongal, Model Exam I, Sports Day" />
+          </div>
+          <DialogFooter>
+            {onInherit && (
+              <Button type="button" variant="outline" className="sm:mr-auto" onClick={handleInherit} disabled={isSaving}>Inherit</Button>
+            )}
+            <DialogClose asChild><Button type="button" variant="outline">Cancel</Button></DialogClose>
+            <Button type="submit" disabled={isSaving}>{isSaving ? 'Saving...' : 'Save'}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+const reconcileOptions: { value: AttendanceReconcileAction; label: string; description: string }[] = [
+  { value: 'archive', label: 'Archive', description: 'Move the submissions and absence records to the archive. They drop out of every page and report but are not lost.' },
+  { value: 'keep', label: 'Keep', description: 'Leave them as they are. Percentages skip the day, but submission counts and exports may still show it.' },
+  { value: 'delete', label: 'Delete', description: 'Remove them permanently.' },
+];
+
+function ReconcileAttendanceDialog({ pending, classes, setIsOpen, onConfirm }: {
+  pending: PendingCalendarChange & AffectedAttendance;
+  classes: Class[];
+  setIsOpen: (open: boolean) => void;
+  onConfirm: (action: AttendanceReconcileAction) => Promise<void>;
+}) {
+  const [action, setAction] = useState<AttendanceReconcileAction>('archive');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const rows = useMemo(() => pending.submissions
+    .map(sub => ({
+      ...sub,
+      className: classes.find(c => c.id === sub.classId)?.name || sub.classId,
+      recordCount: pending.recordCounts[sub.id] ?? 0,
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.className.localeCompare(b.className) || (a.period ?? 0) - (b.period ?? 0)),
+  [pending, classes]);
+
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    await onConfirm(action);
+    setIsSaving(false);
+  };
+
+  return (
+    <Dialog open onOpenChange={setIsOpen}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Attendance Already Taken</DialogTitle>
+          <DialogDescription>
+            {pending.submissions.length} submission(s) with {pending.records.length} absence record(s) fall on days this change makes non-instructional. Choose what happens to them before the calendar is saved.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="rounded-md border max-h-60 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Class</TableHead>
+                  <TableHead>Period</TableHead>
+                  <TableHead className="text-right">Present</TableHead>
+                  <TableHead className="text-right">Absent</TableHead>
+                  <TableHead className="text-right">Records</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(row => (
+                  <TableRow key={row.id}>
+                    <TableCell>{format(parseISO(row.date), 'EEE, dd MMM yyyy')}</TableCell>
+                    <TableCell>{row.className}</TableCell>
+                    <TableCell>{row.period ?? '-'}</TableCell>
+                    <TableCell className="text-right">{row.presentCount}</TableCell>
+                    <TableCell className="text-right">{row.absentCount}</TableCell>
+                    <TableCell className="text-right">{row.recordCount}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <RadioGroup value={action} onValueChange={(value) => setAction(value as AttendanceReconcileAction)} className="space-y-2">
+            {reconcileOptions.map(option => (
+              <div key={option.value} className="flex items-start space-x-2">
+                <RadioGroupItem value={option.value} id={`reconcile-${option.value}`} className="mt-1" />
+                <Label htmlFor={`reconcile-${option.value}`} className="font-normal">
+                  <span className="font-medium">{option.label}</span>
+                  <span className="block text-xs text-muted-foreground">{option.description}</span>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+        <DialogFooter>
+          <DialogClose asChild><Button type="button" variant="outline">Cancel</Button></DialogClose>
+          <Button type="button" variant={action === 'delete' ? 'destructive' : 'default'} onClick={handleConfirm} disabled={isSaving}>
+            {isSaving ? 'Saving...' : `Save Calendar and ${reconcileOptions.find(o => o.value === action)?.label}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ManageBatchesDialog({ classes, departments, setIsOpen, onSave }: {
+  classes: Class[];
+  departments: Department[];
+  setIsOpen: (open: boolean) => void;
+  onSave: (batchByClass: Record<string, string>) => Promise<void>;
+}) {
+  const [batchByClass, setBatchByClass] = useState<Record<string, string>>(
+    Object.fromEntries(classes.map(c => [c.id, c.batch || '']))
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    await onSave(Object.fromEntries(Object.entries(batchByClass).map(([id, batch]) => [id, batch.trim()])));
+    setIsSaving(false);
+  };
+
+  return (
+    <Dialog open onOpenChange={setIsOpen}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Batches</DialogTitle>
+          <DialogDescription>Classes with the same batch, e.g. 2025-2029, can share a calendar. Leave blank for none.</DialogDescription>
+        </DialogHeader>
+        <div className="rounded-md border max-h-96 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Department</TableHead>
+                <TableHead>Class</TableHead>
+                <TableHead>Batch</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {classes.map(c => (
+                <TableRow key={c.id}>
+                  <TableCell>{departments.find(d => d.id === c.departmentId)?.name || 'N/A'}</TableCell>
+                  <TableCell className="font-medium">{c.name}</TableCell>
+                  <TableCell>
+                    <Input
+                      value={batchByClass[c.id]}
+                      onChange={(e) => setBatchByClass(prev => ({ ...prev, [c.id]: e.target.value }))}
+                      placeholder="e.g., 2025-2029"
+                      className="h-8"
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        <DialogFooter>
+          <DialogClose asChild><Button type="button" variant="outline">Cancel</Button></DialogClose>
+          <Button type="button" onClick={handleSave} disabled={isSaving}>{isSaving ? 'Saving...' : 'Save'}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function SemesterDialog({ semester, setIsOpen, onSave }: {
+  semester: Semester | null;
+  setIsOpen: (open: boolean) => void;
+  onSave: (semesterData: Omit<Semester, 'id'>) => Promise<void>;
+}) {
+  const [formData, setFormData] = useState<Omit<Semester, 'id'>>({
+    name: semester?.name || '',
+    academicYear: semester?.academicYear || '',
+    startDate: semester?.startDate || '',
+    endDate: semester?.endDate || '',
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (formData.endDate < formData.startDate) return;
+    setIsSaving(true);
+    await onSave({ ...formData, name: formData.name.trim(), academicYear: formData.academicYear.trim() });
+    setIsSaving(false);
+  };
+
+  return (
+    <Dialog open onOpenChange={setIsOpen}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{semester ? 'Edit Semester' : 'Add Semester'}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="name">Name</Label>
+              <Input id="name" name="name" value={formData.name} onChange={handleChange} placeholder="e.g., Odd Semester" required />
+            </div>
+            <div>
+              <Label htmlFor="academicYear">Academic Year</Label>
+              <Input id="academicYear" name="academicYear" value={formData.academicYear} onChange={handleChange} placeholder="e.g., 2025-26" required />
+            </div>
+            <div>
+              <Label htmlFor="startDate">Start Date</Label>
+              <Input id="startDate" name="startDate" type="date" value={formData.startDate} onChange={handleChange} required />
+            </div>
+            <div>
+              <Label htmlFor="endDate">End Date</Label>
+              <Input id="endDate" name="endDate" type="date" value={formData.endDate} min={formData.startDate} onChange={handleChange} required />
+            </div>
+          </div>
+          <DialogFooter>
+            <DialogClose asChild><Button type="button" variant="outline">Cancel</Button></DialogClose>
+            <Button type="submit" disabled={isSaving}>{isSaving ? 'Saving...' : 'Save'}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,7 +3,7 @@
 
 import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { BarChart3, UserSearch, Home, LogOut, KeyRound, Users, LockKeyhole, DollarSign } from 'lucide-react';
+import { BarChart3, UserSearch, Home, LogOut, KeyRound, Users, LockKeyhole, DollarSign, Settings, CalendarCheck, Percent, BellRing, GraduationCap, BookUser } from 'lucide-react';
 import Image from 'next/image';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
@@ -135,12 +135,18 @@ export function Header() {
   const isAdmin = !isUserLoading && staff?.role === 'admin';
   
   const navItems = [
-    { href: '/dashboard', icon: Home, label: 'Home', roles: ['admin', 'teacher', 'viewer', 'dean'] },
-    { href: '/dashboard/student-report', icon: UserSearch, label: 'Student', roles: ['admin', 'teacher', 'viewer', 'dean'] },
+    { href: '/dashboard', icon: Home, label: 'Home', roles: ['admin', 'teacher', 'viewer', 'dean', 'hod'] },
+    { href: '/dashboard/student-report', icon: UserSearch, label: 'Student', roles: ['admin', 'teacher', 'viewer', 'dean', 'hod'] },
     { href: '/dashboard/fees', icon: DollarSign, label: 'Fees', roles: ['admin', 'teacher'] },
-    { href: '/dashboard/analytics', icon: BarChart3, label: 'Analytics', roles: ['admin', 'teacher', 'viewer', 'dean'] },
+    { href: '/dashboard/leaves', icon: CalendarCheck, label: 'Leaves', roles: ['admin', 'teacher', 'hod'] },
+    { href: '/dashboard/shortage', icon: Percent, label: 'Shortage', roles: ['admin', 'teacher', 'hod', 'dean'] },
+    { href: '/dashboard/alerts', icon: BellRing, label: 'Alerts', roles: ['admin', 'teacher', 'hod'] },
+    { href: '/dashboard/analytics', icon: BarChart3, label: 'Analytics', roles: ['admin', 'teacher', 'viewer', 'dean', 'hod'] },
     { href: '/dashboard/staff', icon: Users, label: 'Staff', roles: ['admin'] },
-    { href: '/dashboard/working-days', icon: KeyRound, label: 'Days', roles: ['admin'] },
+    { href: '/dashboard/students', icon: BookUser, label: 'Students', roles: ['admin'] },
+    { href: '/dashboard/working-days', icon: KeyRound, label: 'Calendar', roles: ['admin'] },
+    { href: '/dashboard/rollover', icon: GraduationCap, label: 'Rollover', roles: ['admin'] },
+    { href: '/dashboard/settings', icon: Settings, label: 'Settings', roles: ['admin'] },
   ].filter(item => staff && item.roles.includes(staff.role));
 
 
@@ -3,8 +3,10 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode, useMemo } from 'react';
 import type { Staff } from '@/lib/types';
 import { collection, getDocs, query, where } from 'firebase/firestore';
+import { signInWithCustomToken, signOut } from 'firebase/auth';
 import { useFirebase } from '@/firebase';
 import { useRouter } from 'next/navigation';
+import { createStaffAuthToken } from '@/lib/actions';
 
 interface AuthContextType {
   user: Staff | null;
@@ -17,7 +19,7 @@ interface AuthContextType {
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
-  const { firestore } = useFirebase();
+  const { firestore, auth } = useFirebase();
   const [user, setUser] = useState<Staff | null>(null);
   const [isUserLoading, setIsUserLoading] = useState(true);
   const router = useRouter();
@@ -57,6 +59,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       });
 
       if (foundUser) {
+        // Server actions check a Firebase ID token, so the same account is signed in to Firebase Auth as well.
+        // Login still succeeds without it; only those actions are refused.
+        try {
+          const result = await createStaffAuthToken(email, password);
+          if ('token' in result) await signInWithCustomToken(auth, result.token);
+        } catch (error) {
+          console.error("Firebase Auth sign-in error:", error);
+        }
         setUser(foundUser);
         localStorage.setItem('svcet-staff-user', JSON.stringify(foundUser));
         return { success: true };
@@ -73,6 +83,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const logout = () => {
     setUser(null);
     localStorage.removeItem('svcet-staff-user');
+    signOut(auth).catch(error => console.error("Firebase Auth sign-out error:", error));
     router.push('/login');
   };
 
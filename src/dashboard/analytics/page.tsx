@@ -5,6 +5,7 @@ import { useState, useEffect, useMemo } from 'react';
 import { collection, getDocs, query, orderBy, Timestamp, where } from 'firebase/firestore';
 import { useFirebase } from '@/firebase';
 import type { AttendanceRecord, Class, Department, Student, WorkingDay } from '@/lib/types';
+import { isInstructionalDay } from '@/lib/calendar';
 import { useToast } from '@/hooks/use-toast';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Card, CardDescription, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
@@ -83,7 +84,7 @@ export default function AnalyticsPage() {
 
         const workingDaysMap = new Map<string, boolean>();
         workDaysData.forEach(wd => {
-            workingDaysMap.set(format(wd.timestamp, 'yyyy-MM-dd'), wd.isWorkingDay);
+            workingDaysMap.set(format(wd.timestamp, 'yyyy-MM-dd'), isInstructionalDay(wd));
         });
 
         const filteredRecords = fetchedRecords.filter(record => {
@@ -3,7 +3,7 @@
 
 import { firebaseConfig } from '@/firebase/config';
 import { initializeApp, getApps, getApp, FirebaseApp } from 'firebase/app';
-import { getFirestore, Firestore } from 'firebase/firestore';
+import { getFirestore, initializeFirestore, persistentLocalCache, persistentMultipleTabManager, Firestore } from 'firebase/firestore';
 import { getAuth, Auth } from 'firebase/auth';
 
 /**
@@ -12,14 +12,19 @@ import { getAuth, Auth } from 'firebase/auth';
  */
 export function initializeFirebase() {
   let app: FirebaseApp;
+  let firestore: Firestore;
 
   if (getApps().length === 0) {
     app = initializeApp(firebaseConfig);
+    // Persist the Firestore cache in IndexedDB so loaded data stays available when the connection drops.
+    firestore = typeof window !== 'undefined'
+      ? initializeFirestore(app, { localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }) })
+      : getFirestore(app);
   } else {
     app = getApp();
+    firestore = getFirestore(app);
   }
 
-  const firestore = getFirestore(app);
   const auth = getAuth(app);
 
   return {
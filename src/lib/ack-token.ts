@@ -0,0 +1,56 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+const DEFAULT_TTL_HOURS = 72;
+
+function sign(payload: string, secret: string) {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * Creates a signed token that lets a parent acknowledge one absence record until it expires.
+ * The token carries only the record id and expiry; it is single-use because the record is marked acknowledged.
+ */
+export function createAckToken(recordId: string, ttlHours = Number(process.env.ACK_TOKEN_TTL_HOURS) || DEFAULT_TTL_HOURS) {
+  const secret = process.env.ACK_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error('ACK_TOKEN_SECRET is not configured.');
+  }
+  const payload = Buffer.from(JSON.stringify({ r: recordId, e: Date.now() + ttlHours * 60 * 60 * 1000 })).toString('base64url');
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * Returns the public acknowledgement URL for a record, or an empty string when links are not configured.
+ */
+export function getAckLink(recordId: string) {
+  const baseUrl = process.env.APP_BASE_URL;
+  if (!baseUrl || !process.env.ACK_TOKEN_SECRET) return '';
+  return `${baseUrl.replace(/\/$/, '')}/acknowledge/${createAckToken(recordId)}`;
+}
+
+export function verifyAckToken(token: string): { recordId: string } | { error: string } {
+  const secret = process.env.ACK_TOKEN_SECRET;
+  const [payload, signature] = token.split('.');
+  if (!secret || !payload || !signature) {
+    return { error: 'This link is not valid.' };
+  }
+
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { error: 'This link is not valid.' };
+  }
+
+  try {
+    const { r, e } = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    if (typeof r !== 'string' || typeof e !== 'number') {
+      return { error: 'This link is not valid.' };
+    }
+    if (Date.now() > e) {
+      return { error: 'This link has expired. Please contact the class teacher.' };
+    }
+    return { recordId: r };
+  } catch {
+    return { error: 'This link is not valid.' };
+  }
+}
@@ -1,6 +1,14 @@
 'use server';
 
+import { format, parseISO } from "date-fns";
+import { after } from "next/server";
+import { FieldValue } from "firebase-admin/firestore";
 import { getAdminServices } from "./firebase-admin";
+import { getNotificationProvider, type NotificationProvider } from "./notifications";
+import { getAckLink, verifyAckToken } from "./ack-token";
+import { defaultNotificationSettings, omitPlaceholderSentence, renderTemplate } from "./settings";
+import { isSpecialStatus } from "./attendance";
+import type { AttendanceRecord, NotificationDelivery, NotificationSettings, Staff } from "./types";
 
 export async function cleanupOldRecords() {
     const { adminDb } = await getAdminServices();
@@ -85,3 +93,265 @@ export async function cleanupRecordsBeforeDate() {
         throw new Error('Failed to cleanup old records. Check server logs.');
     }
 }
+
+// Roles that submit attendance, and so may queue parent messages.
+const NOTIFYING_ROLES: Staff['role'][] = ['admin', 'dean', 'hod', 'teacher'];
+
+// A claimed queue item is given this long to send before another drain may take it over.
+const QUEUE_CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Staff sign in against their `staff` document, so the server also mints a Firebase custom token for the
+ * account. Signing in with it gives the browser an ID token that server actions can verify.
+ */
+export async function createStaffAuthToken(email: string, password: string): Promise<{ error: string } | { token: string }> {
+    const { adminDb, adminAuth } = await getAdminServices();
+    try {
+        const snapshot = await adminDb.collection('staff').where('email', '==', email).get();
+        const staffDoc = snapshot.docs.find(doc => doc.data().password === password);
+        if (!staffDoc) {
+            return { error: 'Invalid email or password.' };
+        }
+        return { token: await adminAuth.createCustomToken(staffDoc.id, { role: staffDoc.data().role }) };
+    } catch (error: any) {
+        console.error("Error creating staff auth token: ", error);
+        throw new Error('Failed to sign in to the server. Check server logs.');
+    }
+}
+
+/**
+ * Checks the caller's Firebase ID token and returns their staff profile, throwing unless their current role
+ * is one of `roles`.
+ */
+async function verifyStaffCaller(idToken: string | undefined, roles: Staff['role'][]): Promise<Staff> {
+    if (!idToken) {
+        throw new Error('You must be signed in to do this.');
+    }
+    const { adminDb, adminAuth } = await getAdminServices();
+    let uid: string;
+    try {
+        ({ uid } = await adminAuth.verifyIdToken(idToken));
+    } catch (error: any) {
+        console.error("Error verifying ID token: ", error);
+        throw new Error('Your session has expired. Please sign in again.');
+    }
+    const staffSnap = await adminDb.collection('staff').doc(uid).get();
+    const staff = staffSnap.exists ? { id: staffSnap.id, ...staffSnap.data() } as Staff : null;
+    if (!staff || !roles.includes(staff.role)) {
+        throw new Error('You are not allowed to do this.');
+    }
+    return staff;
+}
+
+/**
+ * Queues a parent message for each plain absence among the records and returns the 'queued' status written
+ * to them. Records whose parent was already notified, or whose message is still queued, are left alone, so
+ * retries do not message the parent twice. The queue is drained after the response is sent.
+ */
+export async function queueAbsenceNotifications(idToken: string | undefined, recordIds: string[]) {
+    const caller = await verifyStaffCaller(idToken, NOTIFYING_ROLES);
+    const { adminDb } = await getAdminServices();
+    const deliveries: Record<string, NotificationDelivery> = {};
+    try {
+        const settings = await getNotificationSettings();
+        if (!settings.enabled || recordIds.length === 0) {
+            return deliveries;
+        }
+
+        const provider = getNotificationProvider();
+        const recordSnaps = await adminDb.getAll(...recordIds.map(id => adminDb.collection('attendanceRecords').doc(id)));
+        const batch = adminDb.batch();
+        const queuedAt = new Date();
+
+        recordSnaps.forEach(recordSnap => {
+            if (!recordSnap.exists) return;
+            const record = recordSnap.data() as AttendanceRecord;
+            if (!needsAbsenceNotification(record)) return;
+            if (record.notification?.status === 'sent' || record.notification?.status === 'queued') return;
+
+            const delivery: NotificationDelivery = { status: 'queued', channel: settings.channel, provider: provider.name, sentAt: queuedAt };
+            batch.set(adminDb.collection('notificationQueue').doc(recordSnap.id), { recordId: recordSnap.id, queuedAt, queuedBy: caller.id });
+            batch.update(recordSnap.ref, { notification: delivery });
+            deliveries[recordSnap.id] = delivery;
+        });
+
+        if (Object.keys(deliveries).length === 0) {
+            return deliveries;
+        }
+        await batch.commit();
+        after(drainNotificationQueue);
+        return deliveries;
+
+    } catch (error: any) {
+        console.error("Error queueing absence notifications: ", error);
+        throw new Error('Failed to queue absence notifications. Check server logs.');
+    }
+}
+
+async function getNotificationSettings() {
+    const { adminDb } = await getAdminServices();
+    const settingsSnap = await adminDb.collection('settings').doc('notifications').get();
+    return { ...defaultNotificationSettings, ...settingsSnap.data() } as NotificationSettings;
+}
+
+// On Duty, Medical Leave and Late are not absences the parent needs to hear about,
+// and the parent already knows about absences covered by an approved leave.
+function needsAbsenceNotification(record: AttendanceRecord) {
+    return !isSpecialStatus(record.status) && !record.leaveId;
+}
+
+/**
+ * Sends the queued parent messages. Each item is claimed in a transaction before sending, so overlapping
+ * drains do not send it twice; an item whose drain died mid-send is retried once its claim times out.
+ */
+async function drainNotificationQueue() {
+    const { adminDb } = await getAdminServices();
+    try {
+        const pending = await adminDb.collection('notificationQueue').orderBy('queuedAt').limit(500).get();
+        if (pending.empty) return;
+
+        const settings = await getNotificationSettings();
+        const provider = getNotificationProvider();
+
+        for (const queueDoc of pending.docs) {
+            const recordRef = adminDb.collection('attendanceRecords').doc(queueDoc.id);
+            try {
+                const record = await adminDb.runTransaction(async (transaction) => {
+                    const [itemSnap, recordSnap] = await transaction.getAll(queueDoc.ref, recordRef);
+                    if (!itemSnap.exists) return null;
+                    const claimedAt = itemSnap.data()?.claimedAt?.toMillis();
+                    if (claimedAt && Date.now() - claimedAt < QUEUE_CLAIM_TIMEOUT_MS) return null;
+
+                    const record = recordSnap.data() as AttendanceRecord | undefined;
+                    if (!record || record.notification?.status === 'sent') {
+                        transaction.delete(queueDoc.ref);
+                        return null;
+                    }
+                    // The absence may have been changed to a special status or covered by a leave since it was queued.
+                    if (!needsAbsenceNotification(record)) {
+                        transaction.delete(queueDoc.ref);
+                        transaction.update(recordRef, { notification: FieldValue.delete() });
+                        return null;
+                    }
+                    transaction.update(queueDoc.ref, { claimedAt: new Date() });
+                    return record;
+                });
+                if (!record) continue;
+
+                const delivery = await deliverAbsenceNotification(queueDoc.id, record, settings, provider);
+                const batch = adminDb.batch();
+                batch.update(recordRef, { notification: delivery });
+                batch.delete(queueDoc.ref);
+                await batch.commit();
+            } catch (error: any) {
+                // The item stays queued and is picked up again once its claim times out.
+                console.error(`Error sending queued notification ${queueDoc.id}: `, error);
+            }
+        }
+    } catch (error: any) {
+        console.error("Error draining the notification queue: ", error);
+    }
+}
+
+async function deliverAbsenceNotification(recordId: string, record: AttendanceRecord, settings: NotificationSettings, provider: NotificationProvider): Promise<NotificationDelivery> {
+    const base = { channel: settings.channel, provider: provider.name, sentAt: new Date() };
+    if (!settings.enabled) {
+        return { ...base, status: 'skipped', error: 'Notifications were turned off' };
+    }
+
+    const { adminDb } = await getAdminServices();
+    const studentSnap = await adminDb.collection('students').doc(record.studentId).get();
+    const to = studentSnap.data()?.parentPhoneNumber as string | undefined;
+    if (!to) {
+        return { ...base, status: 'skipped', error: 'No parent phone number' };
+    }
+
+    const ackLink = getAckLink(recordId);
+    const template = ackLink ? settings.absenceTemplate : omitPlaceholderSentence(settings.absenceTemplate, 'ackLink');
+    const body = renderTemplate(template, {
+        studentName: record.studentName,
+        registerNo: record.registerNo,
+        className: record.className,
+        date: format(parseISO(record.date), 'dd MMM yyyy'),
+        session: getSessionLabel(record),
+        ackLink,
+    });
+    const result = await provider.send({ to, channel: settings.channel, body });
+    return result.ok
+        ? { ...base, status: 'sent', to }
+        : { ...base, status: 'failed', to, error: result.error || 'Unknown error' };
+}
+
+function getSessionLabel(record: AttendanceRecord) {
+    if (record.session) return ` (${record.session === 'FN' ? 'forenoon' : 'afternoon'})`;
+    if (record.period) return ` (period ${record.period})`;
+    return '';
+}
+
+export type AbsenceAcknowledgement = {
+    studentName: string;
+    className: string;
+    date: string;
+    acknowledged: boolean;
+};
+
+export async function getAbsenceAcknowledgement(token: string): Promise<{ error: string } | { absence: AbsenceAcknowledgement }> {
+    const verified = verifyAckToken(token);
+    if ('error' in verified) return verified;
+
+    const { adminDb } = await getAdminServices();
+    try {
+        const recordSnap = await adminDb.collection('attendanceRecords').doc(verified.recordId).get();
+        if (!recordSnap.exists) {
+            return { error: 'This absence record no longer exists.' };
+        }
+        const record = recordSnap.data() as AttendanceRecord;
+        return {
+            absence: {
+                studentName: record.studentName,
+                className: record.className,
+                date: `${format(parseISO(record.date), 'dd MMM yyyy')}${getSessionLabel(record)}`,
+                acknowledged: !!record.parentAcknowledgedAt,
+            },
+        };
+    } catch (error: any) {
+        console.error("Error loading absence for acknowledgement: ", error);
+        throw new Error('Failed to load the absence. Please try again later.');
+    }
+}
+
+export async function acknowledgeAbsence(token: string, reason: string): Promise<{ error: string } | { message: string }> {
+    const verified = verifyAckToken(token);
+    if ('error' in verified) return verified;
+    if (!reason.trim()) {
+        return { error: 'Please enter the reason for the absence.' };
+    }
+
+    const { adminDb } = await getAdminServices();
+    try {
+        const recordRef = adminDb.collection('attendanceRecords').doc(verified.recordId);
+        return await adminDb.runTransaction(async (transaction) => {
+            const recordSnap = await transaction.get(recordRef);
+            if (!recordSnap.exists) {
+                return { error: 'This absence record no longer exists.' };
+            }
+            const record = recordSnap.data() as AttendanceRecord;
+            if (record.parentAcknowledgedAt) {
+                return { error: 'This absence has already been acknowledged.' };
+            }
+
+            const now = new Date();
+            transaction.update(recordRef, {
+                // Only a plain absence moves to 'Informed'; a letter or special status already says more.
+                ...(record.status === 'Not Informed' && { status: 'Informed' }),
+                reason: reason.trim().slice(0, 500),
+                parentAcknowledgedAt: now,
+                ...(!record.followedUpAt && { followedUpAt: now, followedUpBy: 'Parent (acknowledgement link)' }),
+            });
+            return { message: 'Thank you. The college has been informed.' };
+        });
+    } catch (error: any) {
+        console.error("Error acknowledging absence: ", error);
+        throw new Error('Failed to save the acknowledgement. Please try again later.');
+    }
+}
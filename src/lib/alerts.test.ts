@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { detectAbsenceAlerts } from './alerts';
+import { createCalendarResolver } from './calendar';
+import { defaultAttendanceSettings } from './settings';
+import type { AttendanceRecord, AttendanceSubmission, Class, Student, WorkingDay } from './types';
+
+const classes: Class[] = [
+  { id: 'cse-2-a', name: 'II CSE A', departmentId: 'cse' },
+  { id: 'ece-2-a', name: 'II ECE A', departmentId: 'ece' },
+] as Class[];
+
+// Monday 2 June to Friday 6 June 2025, all instructional.
+const dates = ['2025-06-02', '2025-06-03', '2025-06-04', '2025-06-05', '2025-06-06'];
+const calendar = createCalendarResolver(
+  dates.map(date => ({ id: date, isWorkingDay: true, dayType: 'instructional', timestamp: new Date(`${date}T00:00:00`) }) as WorkingDay),
+  classes,
+  defaultAttendanceSettings,
+);
+
+const submission = (classId: string, date: string) => ({ id: `${classId}_${date}`, classId, date }) as AttendanceSubmission;
+const absence = (studentId: string, classId: string, date: string) =>
+  ({ id: `${studentId}_${date}`, studentId, classId, date, status: 'Not Informed' }) as AttendanceRecord;
+
+describe('detectAbsenceAlerts', () => {
+  it('checks each day against the class the student was enrolled in then', () => {
+    // Moved from ECE to CSE on Wednesday; CSE only started submitting that day.
+    const student = {
+      id: 's1',
+      name: 'Priya',
+      registerNo: '23CS001',
+      gender: 'FEMALE',
+      classId: 'cse-2-a',
+      departmentId: 'cse',
+      enrolmentHistory: [{ type: 'transferred', date: '2025-06-04', fromClassId: 'ece-2-a', classId: 'cse-2-a', recordedBy: 'admin', recordedByName: 'Admin', recordedAt: new Date() }],
+    } as Student;
+    const submissions = [
+      submission('ece-2-a', '2025-06-02'),
+      submission('ece-2-a', '2025-06-03'),
+      submission('cse-2-a', '2025-06-04'),
+      submission('cse-2-a', '2025-06-05'),
+    ];
+    const records = [
+      absence('s1', 'ece-2-a', '2025-06-02'),
+      absence('s1', 'ece-2-a', '2025-06-03'),
+      absence('s1', 'cse-2-a', '2025-06-04'),
+    ];
+
+    const { created } = detectAbsenceAlerts([student], classes, records, submissions, calendar, defaultAttendanceSettings, [], new Date('2025-06-06T12:00:00'));
+
+    expect(created).toHaveLength(1);
+    expect(created[0]).toMatchObject({ type: 'Consecutive', dates: ['2025-06-02', '2025-06-03', '2025-06-04'], classId: 'cse-2-a', departmentId: 'cse' });
+  });
+
+  it('skips the days before a student joined', () => {
+    const student = {
+      id: 's2',
+      name: 'Arun',
+      registerNo: '23CS002',
+      gender: 'MALE',
+      classId: 'cse-2-a',
+      departmentId: 'cse',
+      enrolmentHistory: [{ type: 'joined', date: '2025-06-05', classId: 'cse-2-a', recordedBy: 'admin', recordedByName: 'Admin', recordedAt: new Date() }],
+    } as Student;
+    const submissions = dates.map(date => submission('cse-2-a', date));
+    // Marked absent by mistake before joining, then absent on both days since.
+    const records = dates.map(date => absence('s2', 'cse-2-a', date));
+
+    const { created } = detectAbsenceAlerts([student], classes, records, submissions, calendar, defaultAttendanceSettings, [], new Date('2025-06-06T12:00:00'));
+
+    expect(created).toEqual([]);
+  });
+});
@@ -0,0 +1,147 @@
+import { eachDayOfInterval, format, isMonday, parseISO, subDays } from 'date-fns';
+import type { AbsenceAlert, AbsenceAlertType, AttendanceRecord, AttendanceSettings, AttendanceSubmission, Class, Student } from './types';
+import { getStudentDayAbsences, getStudentDayKey } from './attendance';
+import { getDayType, type CalendarResolver, type CalendarTarget } from './calendar';
+import { getEnrolledClassId } from './enrolment';
+
+export const CONSECUTIVE_ABSENCE_DAYS = 3;
+export const PATTERN_ABSENCE_COUNT = 3; // Monday or after-holiday absences within the lookback window
+export const ALERT_LOOKBACK_DAYS = 60;
+
+export function getAlertWindowStart(today: Date = new Date()) {
+  return format(subDays(today, ALERT_LOOKBACK_DAYS), 'yyyy-MM-dd');
+}
+
+/**
+ * True when the last day before `date` that is not a weekly off was a holiday or vacation in the class's calendar.
+ * Unmarked days are holidays, as on the academic calendar page; exam and event days are not.
+ */
+function isAfterHoliday(date: Date, calendar: CalendarResolver, target: CalendarTarget) {
+  let previous = subDays(date, 1);
+  while (calendar.isOffDay(target, format(previous, 'yyyy-MM-dd'))) {
+    previous = subDays(previous, 1);
+  }
+  const previousDay = calendar.getDay(target, format(previous, 'yyyy-MM-dd'));
+  const previousType = previousDay ? getDayType(previousDay) : 'holiday';
+  return previousType === 'holiday' || previousType === 'vacation';
+}
+
+/**
+ * Splits the days a student was absent into runs of consecutive conducted days.
+ * A working day on which the class has no submission neither breaks nor extends a run.
+ */
+function getAbsenceStreaks(conductedDays: string[], absentDays: Set<string>) {
+  const streaks: string[][] = [];
+  let current: string[] = [];
+  conductedDays.forEach(date => {
+    if (absentDays.has(date)) {
+      current.push(date);
+    } else {
+      if (current.length > 0) streaks.push(current);
+      current = [];
+    }
+  });
+  if (current.length > 0) streaks.push(current);
+  return streaks;
+}
+
+/**
+ * Scans the lookback window for students absent on 3+ consecutive working days, or repeatedly absent on Mondays
+ * or on the day after a holiday. Only whole-day absences count, and days are skipped exactly as the dashboard
+ * does: weekly offs, days that are not instructional in the class's calendar, and days the class did not submit attendance.
+ * Each day is checked against the class the student was enrolled in that day, and days they were not enrolled
+ * (before joining, after discontinuing, on long absence) are skipped. An alert is raised against the class of
+ * its latest day.
+ *
+ * Returns the alerts to create, and the open alerts whose dates have grown since the last scan. Consecutive
+ * alerts are matched to existing ones by overlapping dates; a pattern alert stays the single open alert of its
+ * type for the student, and once closed only absences after it count towards a new one.
+ */
+export function detectAbsenceAlerts(
+  students: Student[],
+  classes: Class[],
+  records: AttendanceRecord[],
+  submissions: AttendanceSubmission[],
+  calendar: CalendarResolver,
+  settings: AttendanceSettings,
+  existingAlerts: AbsenceAlert[],
+  today: Date = new Date(),
+) {
+  const created: AbsenceAlert[] = [];
+  const updated: Pick<AbsenceAlert, 'id' | 'dates'>[] = [];
+
+  const windowStart = getAlertWindowStart(today);
+  const todayKey = format(today, 'yyyy-MM-dd');
+  const days = eachDayOfInterval({ start: parseISO(windowStart), end: parseISO(todayKey) });
+
+  const submittedDaysByClass = new Map<string, Set<string>>();
+  submissions.forEach(sub => {
+    if (sub.date < windowStart || sub.date > todayKey) return;
+    const daysForClass = submittedDaysByClass.get(sub.classId) ?? new Set<string>();
+    daysForClass.add(sub.date);
+    submittedDaysByClass.set(sub.classId, daysForClass);
+  });
+
+  const absences = getStudentDayAbsences(records.filter(r => r.date >= windowStart && r.date <= todayKey), submissions, settings);
+
+  students.forEach(student => {
+    const enrolledClassIds = new Map<string, string>();
+    const instructionalDays = days.filter(day => {
+      const date = format(day, 'yyyy-MM-dd');
+      const classId = getEnrolledClassId(student, date);
+      if (!classId || !calendar.isInstructional({ classId }, date)) return false;
+      enrolledClassIds.set(date, classId);
+      return true;
+    });
+    const getTarget = (day: Date) => ({ classId: enrolledClassIds.get(format(day, 'yyyy-MM-dd')) });
+    const mondays = new Set(instructionalDays.filter(day => isMonday(day)).map(day => format(day, 'yyyy-MM-dd')));
+    const afterHolidays = new Set(instructionalDays.filter(day => isAfterHoliday(day, calendar, getTarget(day))).map(day => format(day, 'yyyy-MM-dd')));
+    const conductedDays = Array.from(enrolledClassIds)
+      .filter(([date, classId]) => submittedDaysByClass.get(classId)?.has(date))
+      .map(([date]) => date);
+    const absentDays = new Set(conductedDays.filter(date => (absences.get(getStudentDayKey(student.id, date)) ?? 0) >= 1));
+    if (absentDays.size === 0) return;
+
+    const studentAlerts = existingAlerts.filter(a => a.studentId === student.id);
+
+    const raise = (type: AbsenceAlertType, dates: string[]) => {
+      const match = type === 'Consecutive'
+        ? studentAlerts.find(a => a.type === type && a.dates.some(d => dates.includes(d)))
+        : studentAlerts.find(a => a.type === type && a.status !== 'Closed');
+      if (!match) {
+        const classId = enrolledClassIds.get(dates[dates.length - 1]) ?? student.classId;
+        created.push({
+          id: `${student.id}_${type.replace(' ', '')}_${dates[0]}`,
+          type,
+          studentId: student.id,
+          studentName: student.name,
+          registerNo: student.registerNo || 'N/A',
+          classId,
+          departmentId: classes.find(c => c.id === classId)?.departmentId ?? student.departmentId,
+          mentor: student.mentor || '',
+          dates,
+          raisedAt: today,
+          status: 'Open',
+        });
+      } else if (match.status !== 'Closed' && dates.some(d => !match.dates.includes(d))) {
+        updated.push({ id: match.id, dates: Array.from(new Set([...match.dates, ...dates])).sort() });
+      }
+    };
+
+    getAbsenceStreaks(conductedDays, absentDays)
+      .filter(streak => streak.length >= CONSECUTIVE_ABSENCE_DAYS)
+      .forEach(streak => raise('Consecutive', streak));
+
+    ([['Monday', mondays], ['After Holiday', afterHolidays]] as const).forEach(([type, patternDays]) => {
+      const lastClosed = studentAlerts
+        .filter(a => a.type === type && a.status === 'Closed')
+        .reduce((latest, a) => a.dates[a.dates.length - 1] > latest ? a.dates[a.dates.length - 1] : latest, '');
+      const dates = Array.from(absentDays).filter(date => patternDays.has(date) && date > lastClosed);
+      if (dates.length >= PATTERN_ABSENCE_COUNT) {
+        raise(type, dates);
+      }
+    });
+  });
+
+  return { created, updated };
+}
@@ -0,0 +1,63 @@
+import { collection, getDocs, query, where, type Firestore, type QueryDocumentSnapshot } from 'firebase/firestore';
+import type { ClassAssignment, Staff } from './types';
+
+/** Id of the assignment implied by `Staff.classId`, which predates class assignments. */
+export const PRIMARY_ASSIGNMENT_ID = 'primary';
+
+// Firestore allows at most 30 values in an 'in' filter.
+const MAX_IN_VALUES = 30;
+
+/**
+ * Returns every class assignment of a staff member, including their `classId` as a 'Class Teacher'
+ * assignment unless an explicit assignment already covers that class.
+ */
+export function getStaffAssignments(staff: Staff, assignments: ClassAssignment[]): ClassAssignment[] {
+  const own = assignments.filter(a => a.staffId === staff.id);
+  if (staff.classId && !own.some(a => a.classId === staff.classId)) {
+    own.unshift({ id: PRIMARY_ASSIGNMENT_ID, staffId: staff.id, classId: staff.classId, role: 'Class Teacher' });
+  }
+  return own;
+}
+
+/**
+ * Loads the staff member's `classAssignments` and returns them as `getStaffAssignments` does.
+ */
+export async function fetchStaffAssignments(db: Firestore, staff: Staff): Promise<ClassAssignment[]> {
+  const assignmentsSnap = await getDocs(query(collection(db, 'classAssignments'), where('staffId', '==', staff.id)));
+  return getStaffAssignments(staff, assignmentsSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as ClassAssignment)));
+}
+
+/**
+ * True if the assignment applies on the date (yyyy-MM-dd). Assignments without dates are permanent.
+ */
+export function isAssignmentActive(assignment: ClassAssignment, date: string) {
+  return (!assignment.startDate || assignment.startDate <= date) && (!assignment.endDate || date <= assignment.endDate);
+}
+
+/**
+ * True if one of the staff member's assignments gives them the class on the date (yyyy-MM-dd). This is the
+ * teacher's access check; substitutes only have the class within their dates.
+ */
+export function canTeachClass(assignments: ClassAssignment[], classId: string | undefined, date: string) {
+  return !!classId && assignments.some(a => a.classId === classId && isAssignmentActive(a, date));
+}
+
+/**
+ * The class ids the assignments give access to on the date.
+ */
+export function getAssignedClassIds(assignments: ClassAssignment[], date: string) {
+  return Array.from(new Set(assignments.filter(a => isAssignmentActive(a, date)).map(a => a.classId)));
+}
+
+/**
+ * Loads the documents whose `field` is one of `values`, splitting them over as many 'in' queries as needed.
+ * No values means no documents, so a teacher without assignments gets nothing rather than every document.
+ */
+export async function getDocsWhereIn(db: Firestore, collectionName: string, field: string, values: string[]): Promise<QueryDocumentSnapshot[]> {
+  const chunks: string[][] = [];
+  for (let i = 0; i < values.length; i += MAX_IN_VALUES) {
+    chunks.push(values.slice(i, i + MAX_IN_VALUES));
+  }
+  const snapshots = await Promise.all(chunks.map(chunk => getDocs(query(collection(db, collectionName), where(field, 'in', chunk)))));
+  return snapshots.flatMap(snap => snap.docs);
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { countsAsPresent, getAbsenceFraction, getStudentDayAbsences } from './attendance';
+import { defaultAttendanceSettings } from './settings';
+import type { AttendanceRecord, AttendanceSettings, AttendanceSubmission } from './types';
+
+const record = (fields: Partial<AttendanceRecord>) =>
+  ({ studentId: 's1', classId: 'cse-2-a', date: '2025-06-02', status: 'Not Informed', ...fields }) as AttendanceRecord;
+
+const periodSettings: AttendanceSettings = { ...defaultAttendanceSettings, periodsPerDay: 7, minPeriodsForPresent: 5 };
+
+describe('countsAsPresent', () => {
+  it('follows the institution settings for special statuses', () => {
+    expect(countsAsPresent(record({ status: 'On Duty' }), defaultAttendanceSettings)).toBe(true);
+    expect(countsAsPresent(record({ status: 'Medical Leave' }), defaultAttendanceSettings)).toBe(false);
+
+    const settings = { ...defaultAttendanceSettings, countsAsPresent: { ...defaultAttendanceSettings.countsAsPresent, 'Medical Leave': true } };
+    expect(countsAsPresent(record({ status: 'Medical Leave' }), settings)).toBe(true);
+  });
+
+  it('never counts an ordinary absence as present', () => {
+    expect(countsAsPresent(record({ status: 'Informed' }), defaultAttendanceSettings)).toBe(false);
+  });
+});
+
+describe('getAbsenceFraction', () => {
+  it('treats a record without period or session as a full-day absence', () => {
+    expect(getAbsenceFraction([record({})], 0, defaultAttendanceSettings)).toBe(1);
+  });
+
+  it('gives half a day per session missed', () => {
+    expect(getAbsenceFraction([record({ session: 'FN' })], 0, defaultAttendanceSettings)).toBe(0.5);
+    expect(getAbsenceFraction([record({ session: 'FN' }), record({ session: 'AN' })], 0, defaultAttendanceSettings)).toBe(1);
+  });
+
+  it('marks a period-wise day absent once fewer than the minimum periods were attended', () => {
+    const missed = (count: number) => Array.from({ length: count }, (_, i) => record({ period: i + 1 }));
+    expect(getAbsenceFraction(missed(2), 7, periodSettings)).toBe(0);
+    expect(getAbsenceFraction(missed(3), 7, periodSettings)).toBe(1);
+  });
+
+  it('only asks for the periods submitted so far', () => {
+    expect(getAbsenceFraction([record({ period: 1 })], 3, periodSettings)).toBe(1);
+    expect(getAbsenceFraction([], 3, periodSettings)).toBe(0);
+  });
+});
+
+describe('getStudentDayAbsences', () => {
+  it('leaves out days whose only record counts as present', () => {
+    const absences = getStudentDayAbsences([
+      record({ status: 'On Duty' }),
+      record({ studentId: 's2', status: 'Medical Leave' }),
+    ], [], defaultAttendanceSettings);
+
+    expect(Object.fromEntries(absences)).toEqual({ 's2_2025-06-02': 1 });
+  });
+
+  it('counts the periods submitted for the class that day', () => {
+    const submissions = [1, 2, 3, 4, 5, 6, 7].map(period =>
+      ({ id: `cse-2-a_2025-06-02_P${period}`, classId: 'cse-2-a', date: '2025-06-02', period }) as AttendanceSubmission);
+    const absences = getStudentDayAbsences([record({ period: 1 }), record({ period: 2 })], submissions, periodSettings);
+
+    expect(absences.size).toBe(0);
+  });
+});
@@ -0,0 +1,228 @@
+import { increment } from 'firebase/firestore';
+import { parseISO } from 'date-fns';
+import type { AttendanceRecord, AttendanceSession, AttendanceSettings, AttendanceSubmission, LeaveApplication, SpecialAttendanceStatus } from './types';
+
+/**
+ * Builds the document id of an attendance submission.
+ * Period-wise submissions carry the period number as a suffix; daily submissions keep the original `${classId}_${date}` key.
+ */
+export function getSubmissionId(classId: string, date: string, period?: number) {
+  return period ? `${classId}_${date}_P${period}` : `${classId}_${date}`;
+}
+
+// Upper bound on `AttendanceSettings.periodsPerDay`, enforced by the settings page.
+export const MAX_PERIODS_PER_DAY = 12;
+
+/**
+ * Ids of the submissions that rule out a new one for the class and date. A daily submission covers every period,
+ * so a period-wise submission is blocked by the daily one, and a daily submission by any period's.
+ */
+export function getConflictingSubmissionIds(classId: string, date: string, period?: number) {
+  if (period) return [getSubmissionId(classId, date, period), getSubmissionId(classId, date)];
+  return [
+    getSubmissionId(classId, date),
+    ...Array.from({ length: MAX_PERIODS_PER_DAY }, (_, i) => getSubmissionId(classId, date, i + 1)),
+  ];
+}
+
+/**
+ * Thrown when a class, date (and period) already has a submission, so a second one must not be written.
+ */
+export class SubmissionConflictError extends Error {
+  public readonly existing: AttendanceSubmission;
+
+  constructor(existing: AttendanceSubmission) {
+    super(`Attendance for ${existing.classId} on ${existing.date} has already been submitted.`);
+    this.name = 'SubmissionConflictError';
+    this.existing = existing;
+  }
+}
+
+/** Key used to identify one student on one date in the maps below. */
+export function getStudentDayKey(studentId: string, date: string) {
+  return `${studentId}_${date}`;
+}
+
+export const specialAttendanceStatuses: SpecialAttendanceStatus[] = ['On Duty', 'Medical Leave', 'Late'];
+
+export function isSpecialStatus(status: string): status is SpecialAttendanceStatus {
+  return (specialAttendanceStatuses as string[]).includes(status);
+}
+
+/**
+ * Returns true if the record's status is one the institution counts as present (e.g. On Duty), so it is not an absence.
+ */
+export function countsAsPresent(record: AttendanceRecord, settings: AttendanceSettings) {
+  return isSpecialStatus(record.status) && settings.countsAsPresent[record.status];
+}
+
+/**
+ * An absentee has been followed up once their status has moved off 'Not Informed' or someone has tried calling home.
+ * Special statuses (On Duty etc.) never need a follow-up.
+ */
+export function isFollowedUp(record: AttendanceRecord) {
+  return record.status !== 'Not Informed' || (record.contactLog?.length ?? 0) > 0;
+}
+
+/**
+ * Returns true once the follow-up deadline on the absence date has passed and nobody has followed the record up.
+ */
+export function isFollowUpOverdue(record: AttendanceRecord, settings: AttendanceSettings, now: Date = new Date()) {
+  if (isFollowedUp(record)) return false;
+  return isPastTime(record.date, settings.followUpDeadline, now);
+}
+
+/**
+ * Returns true if `at` is later than the given HH:mm time on the date (yyyy-MM-dd).
+ */
+export function isPastTime(date: string, time: string, at: Date = new Date()) {
+  const [hours, minutes] = time.split(':').map(Number);
+  const deadline = parseISO(date);
+  deadline.setHours(hours, minutes, 0, 0);
+  return at > deadline;
+}
+
+/**
+ * The attendance submission cut-off (HH:mm) for a department, falling back to the institution-wide time.
+ */
+export function getSubmissionCutoff(settings: AttendanceSettings, departmentId: string) {
+  return settings.departmentCutoffs[departmentId] || settings.submissionCutoff;
+}
+
+/**
+ * Finds the approved leave covering a student on a date (yyyy-MM-dd), if there is one.
+ */
+export function findApprovedLeave(leaves: LeaveApplication[], studentId: string, date: string) {
+  return leaves.find(l => l.status === 'Approved' && l.studentId === studentId && l.fromDate <= date && date <= l.toDate);
+}
+
+/**
+ * Returns true if a class has any submission (daily or period-wise) for the date.
+ */
+export function hasSubmissionForDay(submissions: AttendanceSubmission[], classId: string, date: string) {
+  return submissions.some(s => s.classId === classId && s.date === date);
+}
+
+/**
+ * Returns the absentee records written with a submission. Older records have no classId, so those fall back to the class name.
+ */
+export function getSubmissionRecords(records: AttendanceRecord[], submission: AttendanceSubmission, className: string) {
+  return records.filter(r =>
+    r.studentId !== 'placeholder_all_present' &&
+    r.date === submission.date &&
+    (r.classId ? r.classId === submission.classId : r.className === className) &&
+    r.period === submission.period
+  );
+}
+
+/**
+ * Builds the Firestore update that moves one student between the present and absent counts of a submission.
+ * `delta` is +1 when a student becomes absent and -1 when they become present. A full-day absentee is counted
+ * in both session tallies; a half-day absentee only in their own.
+ */
+export function getAbsentCountUpdate(submission: AttendanceSubmission | undefined, session: AttendanceSession | undefined, delta: 1 | -1) {
+  const update: Record<string, any> = {
+    absentCount: increment(delta),
+    presentCount: increment(-delta),
+  };
+  if (submission?.sessionAbsentCounts) {
+    const sessions: AttendanceSession[] = session ? [session] : ['FN', 'AN'];
+    sessions.forEach(s => {
+      update[`sessionAbsentCounts.${s}`] = increment(delta);
+    });
+  }
+  return update;
+}
+
+/** Applies the same change as `getAbsentCountUpdate` to a submission held in local state. */
+export function applyAbsentCountChange(submission: AttendanceSubmission, session: AttendanceSession | undefined, delta: 1 | -1): AttendanceSubmission {
+  const updated = { ...submission, absentCount: submission.absentCount + delta, presentCount: submission.presentCount - delta };
+  if (submission.sessionAbsentCounts) {
+    const sessionAbsentCounts = { ...submission.sessionAbsentCounts };
+    const sessions: AttendanceSession[] = session ? [session] : ['FN', 'AN'];
+    sessions.forEach(s => sessionAbsentCounts[s] += delta);
+    updated.sessionAbsentCounts = sessionAbsentCounts;
+  }
+  return updated;
+}
+
+/**
+ * Counts the periods submitted for a class on a date. A daily submission counts as 0 periods.
+ */
+export function countSubmittedPeriods(submissions: AttendanceSubmission[], classId: string, date: string) {
+  const periods = new Set<number>();
+  submissions.forEach(s => {
+    if (s.classId === classId && s.date === date && s.period) {
+      periods.add(s.period);
+    }
+  });
+  return periods.size;
+}
+
+/**
+ * Works out how much of the day a student missed, from their records on that date: 0, 0.5 or 1.
+ *
+ * - A record with neither a period nor a session is a full-day absence (this covers every record written
+ *   before periods and sessions existed).
+ * - Session records are worth half a day each, so "absent FN only" costs 0.5 and FN + AN costs 1.
+ * - Period records make the day absent if the student attended fewer than `minPeriodsForPresent` of the
+ *   periods submitted so far (or all of them, if fewer were submitted).
+ */
+export function getAbsenceFraction(studentRecords: AttendanceRecord[], submittedPeriods: number, settings: AttendanceSettings) {
+  if (studentRecords.length === 0) return 0;
+  if (studentRecords.some(r => !r.period && !r.session)) return 1;
+
+  const sessionRecords = studentRecords.filter(r => r.session);
+  if (sessionRecords.length > 0) {
+    return Math.min(new Set(sessionRecords.map(r => r.session)).size * 0.5, 1);
+  }
+
+  const absentPeriods = new Set(studentRecords.map(r => r.period)).size;
+  const attended = Math.max(submittedPeriods - absentPeriods, 0);
+  const required = Math.min(settings.minPeriodsForPresent, submittedPeriods);
+  return attended < required ? 1 : 0;
+}
+
+/**
+ * Maps `${studentId}_${date}` to the special status (On Duty, Medical Leave, Late) recorded for that day, if any.
+ * Used for colouring and labelling; whether the day counts as present is decided by `getStudentDayAbsences`.
+ */
+export function getStudentDayStatuses(records: AttendanceRecord[]) {
+  const statuses = new Map<string, SpecialAttendanceStatus>();
+  records.forEach(record => {
+    if (isSpecialStatus(record.status)) {
+      statuses.set(getStudentDayKey(record.studentId, record.date), record.status);
+    }
+  });
+  return statuses;
+}
+
+/**
+ * Maps `${studentId}_${date}` to the fraction of that day the student was absent. Days with no absence are left out.
+ * This is the single place where period-wise and half-day records are folded into day attendance, and where
+ * statuses that count as present are dropped.
+ */
+export function getStudentDayAbsences(records: AttendanceRecord[], submissions: AttendanceSubmission[], settings: AttendanceSettings) {
+  const recordsByStudentDay = new Map<string, AttendanceRecord[]>();
+  records.forEach(record => {
+    if (record.studentId === 'placeholder_all_present' || countsAsPresent(record, settings)) return;
+    const key = getStudentDayKey(record.studentId, record.date);
+    const existing = recordsByStudentDay.get(key);
+    if (existing) {
+      existing.push(record);
+    } else {
+      recordsByStudentDay.set(key, [record]);
+    }
+  });
+
+  const absences = new Map<string, number>();
+  recordsByStudentDay.forEach((studentRecords, key) => {
+    const { classId, date } = studentRecords[0];
+    const submittedPeriods = classId ? countSubmittedPeriods(submissions, classId, date) : 0;
+    const fraction = getAbsenceFraction(studentRecords, submittedPeriods, settings);
+    if (fraction > 0) {
+      absences.set(key, fraction);
+    }
+  });
+  return absences;
+}
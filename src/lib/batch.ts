@@ -0,0 +1,21 @@
+import { writeBatch, type Firestore, type WriteBatch } from 'firebase/firestore';
+
+/** One write to add to a batch, e.g. `batch => batch.set(ref, data)`. */
+export type BatchOperation = (batch: WriteBatch) => void;
+
+// Firestore allows at most 500 writes in one batch.
+const MAX_BATCH_WRITES = 500;
+
+/**
+ * Commits the operations in batches of at most 500 writes, one batch after another. `onCommit` receives the
+ * number of operations committed so far after each batch; if a batch fails, everything before it stays saved.
+ */
+export async function commitInBatches(db: Firestore, operations: BatchOperation[], onCommit?: (done: number) => void) {
+  for (let i = 0; i < operations.length; i += MAX_BATCH_WRITES) {
+    const batch = writeBatch(db);
+    const chunk = operations.slice(i, i + MAX_BATCH_WRITES);
+    chunk.forEach(operation => operation(batch));
+    await batch.commit();
+    onCommit?.(i + chunk.length);
+  }
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { format } from 'date-fns';
+import { createCalendarResolver, defaultRecurringRule, expandImportedRanges, expandRecurringRule, findRetroactiveHolidaySubmissions, parseCalendarRows, planCalendarChanges, type CalendarEntry } from './calendar';
+import { defaultAttendanceSettings } from './settings';
+import type { AttendanceSubmission, Class, WorkingDay } from './types';
+
+const dateKeys = (dates: Date[]) => dates.map(date => format(date, 'yyyy-MM-dd'));
+const day = (date: string, fields: Partial<WorkingDay> = {}): WorkingDay =>
+  ({ id: date, isWorkingDay: true, dayType: 'instructional', timestamp: new Date(`${date}T00:00:00`), ...fields });
+const entry = (date: string, dayType: CalendarEntry['dayType'], label = ''): CalendarEntry => ({ date: new Date(`${date}T00:00:00`), dayType, label });
+
+describe('expandRecurringRule', () => {
+  it('skips weekly offs and the excluded Saturdays', () => {
+    // June 2025 starts on a Sunday; the 14th is the 2nd Saturday.
+    const days = expandRecurringRule('2025-06-01', '2025-06-14', { ...defaultRecurringRule, excludedSaturdays: [2] }, defaultAttendanceSettings);
+
+    expect(dateKeys(days)).toEqual([
+      '2025-06-02', '2025-06-03', '2025-06-04', '2025-06-05', '2025-06-06', '2025-06-07',
+      '2025-06-09', '2025-06-10', '2025-06-11', '2025-06-12', '2025-06-13',
+    ]);
+  });
+
+  it('only includes the chosen weekdays', () => {
+    const days = expandRecurringRule('2025-06-01', '2025-06-14', { weekdays: [3], excludedSaturdays: [] }, defaultAttendanceSettings);
+
+    expect(dateKeys(days)).toEqual(['2025-06-04', '2025-06-11']);
+  });
+
+  it('returns nothing for an incomplete or reversed range', () => {
+    expect(expandRecurringRule('', '2025-06-14', defaultRecurringRule, defaultAttendanceSettings)).toEqual([]);
+    expect(expandRecurringRule('2025-06-14', '2025-06-01', defaultRecurringRule, defaultAttendanceSettings)).toEqual([]);
+  });
+});
+
+describe('planCalendarChanges', () => {
+  const calendarDays = new Map([
+    ['2025-06-02', day('2025-06-02')],
+    ['2025-06-03', day('2025-06-03', { isWorkingDay: false, dayType: 'holiday', label: 'Pongal' })],
+  ]);
+
+  it('leaves out entries that match the day already saved', () => {
+    const changes = planCalendarChanges([entry('2025-06-02', 'instructional'), entry('2025-06-04', 'instructional')], calendarDays, false);
+
+    expect(changes.map(c => [c.dateKey, c.current?.id])).toEqual([['2025-06-04', undefined]]);
+  });
+
+  it('keeps marked days only when asked to', () => {
+    const entries = [entry('2025-06-02', 'exam', 'Model Exam'), entry('2025-06-03', 'exam', 'Model Exam')];
+
+    expect(planCalendarChanges(entries, calendarDays, true).map(c => c.dateKey)).toEqual(['2025-06-02']);
+    expect(planCalendarChanges(entries, calendarDays, false).map(c => c.dateKey)).toEqual(['2025-06-02', '2025-06-03']);
+  });
+});
+
+describe('parseCalendarRows', () => {
+  it('reads single days and ranges in the usual date formats', () => {
+    const { ranges, errors } = parseCalendarRows([
+      { Date: '15/08/2025', Holiday: 'Independence Day' },
+      { ' From ': '2025-10-20', To: '22-Oct-2025', Occasion: 'Deepavali', Type: 'Vacation' },
+    ]);
+
+    expect(errors).toEqual([]);
+    expect(ranges).toEqual([
+      { startDate: '2025-08-15', endDate: '2025-08-15', label: 'Independence Day' },
+      { startDate: '2025-10-20', endDate: '2025-10-22', label: 'Deepavali', dayType: 'vacation' },
+    ]);
+  });
+
+  it('reports rows it cannot read by their spreadsheet row number', () => {
+    const { ranges, errors } = parseCalendarRows([
+      { Date: 'someday', Label: 'Unknown' },
+      { Date: '2025-10-22', To: '2025-10-20', Label: 'Backwards' },
+      { Date: '2025-10-22', Label: 'Sports Day', Type: 'Fun Day' },
+    ]);
+
+    expect(ranges).toEqual([]);
+    expect(errors).toEqual([
+      'Row 2: missing or unreadable date.',
+      'Row 3: the end date is unreadable or before the start date.',
+      'Row 4: unknown day type "Fun Day".',
+    ]);
+  });
+});
+
+describe('expandImportedRanges', () => {
+  it('gives one entry per day, skipping weekly offs', () => {
+    // 7 to 9 June 2025 runs Saturday to Monday.
+    const { entries, skippedOffDays } = expandImportedRanges(
+      [{ startDate: '2025-06-07', endDate: '2025-06-09', label: 'Bakrid' }],
+      'holiday',
+      defaultAttendanceSettings,
+    );
+
+    expect(entries.map(e => [format(e.date, 'yyyy-MM-dd'), e.dayType, e.label])).toEqual([
+      ['2025-06-07', 'holiday', 'Bakrid'],
+      ['2025-06-09', 'holiday', 'Bakrid'],
+    ]);
+    expect(skippedOffDays).toBe(1);
+  });
+});
+
+describe('findRetroactiveHolidaySubmissions', () => {
+  const classes = [
+    { id: 'cse-2-a', name: 'II CSE A', departmentId: 'cse' },
+    { id: 'ece-2-a', name: 'II ECE A', departmentId: 'ece' },
+  ] as Class[];
+  const submission = (classId: string, date: string) => ({ id: `${classId}_${date}`, classId, date }) as AttendanceSubmission;
+  const submissions = [submission('cse-2-a', '2025-06-04'), submission('ece-2-a', '2025-06-04'), submission('cse-2-a', '2025-06-05')];
+  const before = [day('2025-06-04'), day('2025-06-05')];
+
+  it('finds the submissions on a day declared a holiday after the fact', () => {
+    const after = createCalendarResolver([before[0], day('2025-06-05', { isWorkingDay: false, dayType: 'holiday', label: 'Rain Holiday' })], classes, defaultAttendanceSettings);
+
+    expect(findRetroactiveHolidaySubmissions(submissions, createCalendarResolver(before, classes, defaultAttendanceSettings), after).map(s => s.id))
+      .toEqual(['cse-2-a_2025-06-05']);
+  });
+
+  it('only affects the classes a scoped override covers', () => {
+    const override = day('department_ece_2025-06-04', { isWorkingDay: false, dayType: 'event', label: 'Symposium', scope: 'department', scopeId: 'ece', timestamp: new Date('2025-06-04T00:00:00') });
+    const after = createCalendarResolver([...before, override], classes, defaultAttendanceSettings);
+
+    expect(findRetroactiveHolidaySubmissions(submissions, createCalendarResolver(before, classes, defaultAttendanceSettings), after).map(s => s.id))
+      .toEqual(['ece-2-a_2025-06-04']);
+  });
+});
@@ -0,0 +1,285 @@
+import { eachDayOfInterval, format, getDay, isValid, parse, parseISO } from 'date-fns';
+import { collection, getDocs, Timestamp, type Firestore } from 'firebase/firestore';
+import type { AttendanceSubmission, CalendarScope, Class, DayType, Semester, WorkingDay } from './types';
+import { getWeekOfMonth, isOffDay, isWeeklyOff, type WeeklyOffPolicy } from './date-policy';
+
+export const dayTypes: DayType[] = ['instructional', 'exam', 'holiday', 'event', 'vacation'];
+
+export const dayTypeLabels: Record<DayType, string> = {
+  instructional: 'Instructional',
+  exam: 'Exam',
+  holiday: 'Holiday',
+  event: 'College Event',
+  vacation: 'Vacation',
+};
+
+/**
+ * The type of a calendar day. Days saved before day types existed only have `isWorkingDay`.
+ */
+export function getDayType(day: Pick<WorkingDay, 'isWorkingDay' | 'dayType'>): DayType {
+  return day.dayType ?? (day.isWorkingDay ? 'instructional' : 'holiday');
+}
+
+/**
+ * Only instructional days count as conducted days in attendance and reports.
+ */
+export function isInstructionalDay(day: Pick<WorkingDay, 'isWorkingDay' | 'dayType'>) {
+  return getDayType(day) === 'instructional';
+}
+
+/**
+ * The calendar entry to save for a day. `isWorkingDay` is kept in step with the type for older readers.
+ */
+export function toCalendarDay(date: Date, dayType: DayType, label: string): Omit<WorkingDay, 'id'> {
+  return {
+    isWorkingDay: dayType === 'instructional',
+    dayType,
+    ...(label && { label }),
+    timestamp: date,
+  };
+}
+
+export const calendarScopeLabels: Record<CalendarScope, string> = {
+  department: 'Department',
+  batch: 'Batch',
+  class: 'Class',
+};
+
+/**
+ * The date a calendar day is for, taken from its id. `timestamp` is local midnight where the day was saved, so
+ * formatting it on a server in another timezone (the ICS feed runs in UTC) can give the previous date.
+ */
+export function getCalendarDateKey(day: Pick<WorkingDay, 'id'>) {
+  return day.id.slice(-10);
+}
+
+export function getCalendarOverrideId(scope: CalendarScope, scopeId: string, dateKey: string) {
+  return `${scope}_${scopeId}_${dateKey}`;
+}
+
+/**
+ * Loads the institution calendar (`workingDays`) together with the department, batch and class overrides
+ * (`calendarOverrides`). Pass the result to `createCalendarResolver` rather than reading it by date directly.
+ */
+export async function fetchCalendarDays(db: Firestore): Promise<WorkingDay[]> {
+  const [workingDaysSnap, overridesSnap] = await Promise.all([
+    getDocs(collection(db, 'workingDays')),
+    getDocs(collection(db, 'calendarOverrides')),
+  ]);
+  return [...workingDaysSnap.docs, ...overridesSnap.docs].map(doc => {
+    const data = doc.data();
+    const timestamp = data.timestamp instanceof Timestamp ? data.timestamp.toDate() : new Date(data.timestamp);
+    return { id: doc.id, ...data, timestamp } as WorkingDay;
+  });
+}
+
+/**
+ * Who a calendar lookup is for. A class brings its own batch and department; a batch or department on its own
+ * gets that calendar over the institution default.
+ */
+export interface CalendarTarget {
+  classId?: string;
+  batch?: string;
+  departmentId?: string;
+}
+
+/**
+ * Looks up the calendar day that applies to a class: its class override, else its batch's, else its department's,
+ * else the institution default. Older records without a classId get the institution default. Weekly offs are
+ * never instructional unless the applicable day is marked compensatory.
+ */
+export function createCalendarResolver(calendarDays: WorkingDay[], classes: Class[], weeklyOffs: WeeklyOffPolicy) {
+  const institution = new Map<string, WorkingDay>();
+  const overrides = new Map<string, Map<string, WorkingDay>>();
+  calendarDays.forEach(day => {
+    const dateKey = format(day.timestamp, 'yyyy-MM-dd');
+    if (!day.scope || !day.scopeId) {
+      institution.set(dateKey, day);
+      return;
+    }
+    const scopeKey = `${day.scope}_${day.scopeId}`;
+    const scopeDays = overrides.get(scopeKey) ?? new Map<string, WorkingDay>();
+    scopeDays.set(dateKey, day);
+    overrides.set(scopeKey, scopeDays);
+  });
+  const classesById = new Map(classes.map(c => [c.id, c]));
+
+  const getDay = (target: CalendarTarget, dateKey: string): WorkingDay | undefined => {
+    const cls = target.classId ? classesById.get(target.classId) : undefined;
+    const batch = cls?.batch ?? target.batch;
+    const departmentId = cls?.departmentId ?? target.departmentId;
+    return (cls && overrides.get(`class_${cls.id}`)?.get(dateKey))
+      || (batch && overrides.get(`batch_${batch}`)?.get(dateKey))
+      || (departmentId && overrides.get(`department_${departmentId}`)?.get(dateKey))
+      || institution.get(dateKey);
+  };
+
+  return {
+    getDay,
+    isInstructional: (target: CalendarTarget, dateKey: string) => {
+      const day = getDay(target, dateKey);
+      return !!day && isInstructionalDay(day) && !isOffDay(parseISO(dateKey), weeklyOffs, day);
+    },
+    isOffDay: (target: CalendarTarget, dateKey: string) => isOffDay(parseISO(dateKey), weeklyOffs, getDay(target, dateKey)),
+    /** Every date that is marked at some level, for building calendar views. */
+    markedDates: () => new Set([...institution.keys(), ...Array.from(overrides.values()).flatMap(days => Array.from(days.keys()))]),
+  };
+}
+
+export type CalendarResolver = ReturnType<typeof createCalendarResolver>;
+
+/**
+ * The submissions whose day stops being instructional for their class when the calendar changes from `before`
+ * to `after`, such as a rain holiday declared after attendance was taken.
+ */
+export function findRetroactiveHolidaySubmissions(submissions: AttendanceSubmission[], before: CalendarResolver, after: CalendarResolver) {
+  return submissions.filter(sub => {
+    const target = { classId: sub.classId };
+    return before.isInstructional(target, sub.date) && !after.isInstructional(target, sub.date);
+  });
+}
+
+export function findSemester(semesters: Semester[], date: Date) {
+  const dateKey = format(date, 'yyyy-MM-dd');
+  return semesters.find(s => s.startDate <= dateKey && s.endDate >= dateKey);
+}
+
+/**
+ * Which days a bulk update applies to: the weekdays to include (0 = Sunday) and which Saturdays of the month
+ * to leave out, e.g. `[2]` for "all weekdays except the 2nd Saturday". Weekly offs are never included.
+ */
+export interface RecurringRule {
+  weekdays: number[];
+  excludedSaturdays: number[]; // 1-based week of the month
+}
+
+export const defaultRecurringRule: RecurringRule = { weekdays: [1, 2, 3, 4, 5, 6], excludedSaturdays: [] };
+
+export function expandRecurringRule(fromDate: string, toDate: string, rule: RecurringRule, weeklyOffs: WeeklyOffPolicy) {
+  if (!fromDate || !toDate || fromDate > toDate) return [];
+  return eachDayOfInterval({ start: parseISO(fromDate), end: parseISO(toDate) }).filter(day => {
+    const weekday = getDay(day);
+    if (isWeeklyOff(day, weeklyOffs) || !rule.weekdays.includes(weekday)) return false;
+    return !(weekday === 6 && rule.excludedSaturdays.includes(getWeekOfMonth(day)));
+  });
+}
+
+export interface CalendarEntry {
+  date: Date;
+  dayType: DayType;
+  label: string;
+}
+
+export interface CalendarChange extends CalendarEntry {
+  dateKey: string;
+  current?: WorkingDay; // Missing for unmarked days
+}
+
+/**
+ * Works out which entries would actually change the calendar. With `keepMarked`, days already marked as anything
+ * other than instructional (a labelled holiday such as "Pongal", an exam day) are left alone.
+ */
+export function planCalendarChanges(entries: CalendarEntry[], calendarDays: Map<string, WorkingDay>, keepMarked: boolean) {
+  const changes: CalendarChange[] = [];
+  entries.forEach(entry => {
+    const dateKey = format(entry.date, 'yyyy-MM-dd');
+    const current = calendarDays.get(dateKey);
+    if (current) {
+      if (keepMarked && !isInstructionalDay(current)) return;
+      if (getDayType(current) === entry.dayType && (current.label || '') === entry.label) return;
+    }
+    changes.push({ ...entry, dateKey, current });
+  });
+  return changes;
+}
+
+/**
+ * A holiday or other marked range read from an imported ICS or CSV file. Dates are inclusive, YYYY-MM-DD.
+ */
+export interface ImportedRange {
+  startDate: string;
+  endDate: string;
+  label: string;
+  dayType?: DayType; // From the file's Type column, when it has one
+}
+
+const importDateFormats = ['yyyy-MM-dd', 'dd-MM-yyyy', 'dd/MM/yyyy', 'dd.MM.yyyy', 'd MMM yyyy', 'd MMMM yyyy', 'dd-MMM-yyyy', 'd-MMM-yy'];
+
+function parseImportDate(value: unknown) {
+  if (value instanceof Date) return isValid(value) ? format(value, 'yyyy-MM-dd') : null;
+  const text = String(value ?? '').trim();
+  if (!text) return null;
+  for (const dateFormat of importDateFormats) {
+    const parsed = parse(text, dateFormat, new Date());
+    if (isValid(parsed)) return format(parsed, 'yyyy-MM-dd');
+  }
+  return null;
+}
+
+function parseImportDayType(value: unknown): DayType | undefined {
+  const text = String(value ?? '').trim().toLowerCase();
+  if (!text) return undefined;
+  return dayTypes.find(type => type === text || dayTypeLabels[type].toLowerCase() === text);
+}
+
+/**
+ * Reads spreadsheet rows (from CSV or XLSX) with a Date column, an optional To/End Date column for ranges,
+ * a label column (Label, Holiday, Occasion, Name or Description) and an optional Type column.
+ */
+export function parseCalendarRows(rows: Record<string, unknown>[]) {
+  const ranges: ImportedRange[] = [];
+  const errors: string[] = [];
+
+  rows.forEach((row, index) => {
+    const columns = new Map(Object.entries(row).map(([key, value]) => [key.trim().toLowerCase(), value]));
+    const pick = (...names: string[]) => names.map(name => columns.get(name)).find(value => value !== undefined && String(value).trim() !== '');
+
+    const rowNumber = index + 2; // Row 1 is the header
+    const startDate = parseImportDate(pick('date', 'from', 'start date'));
+    if (!startDate) {
+      errors.push(`Row ${rowNumber}: missing or unreadable date.`);
+      return;
+    }
+    const endValue = pick('to', 'end date', 'till');
+    const endDate = endValue === undefined ? startDate : parseImportDate(endValue);
+    if (!endDate || endDate < startDate) {
+      errors.push(`Row ${rowNumber}: the end date is unreadable or before the start date.`);
+      return;
+    }
+    const typeValue = pick('type', 'day type');
+    const dayType = parseImportDayType(typeValue);
+    if (typeValue !== undefined && !dayType) {
+      errors.push(`Row ${rowNumber}: unknown day type "${typeValue}".`);
+      return;
+    }
+    ranges.push({
+      startDate,
+      endDate,
+      label: String(pick('label', 'holiday', 'occasion', 'name', 'description', 'event') ?? '').trim(),
+      ...(dayType && { dayType }),
+    });
+  });
+
+  return { ranges, errors };
+}
+
+/**
+ * Expands imported ranges into one entry per day. Weekly offs are skipped because they are holidays already.
+ */
+export function expandImportedRanges(ranges: ImportedRange[], defaultType: DayType, weeklyOffs: WeeklyOffPolicy) {
+  const entries = new Map<string, CalendarEntry>();
+  let skippedOffDays = 0;
+  ranges.forEach(range => {
+    eachDayOfInterval({ start: parseISO(range.startDate), end: parseISO(range.endDate) }).forEach(date => {
+      if (isWeeklyOff(date, weeklyOffs)) {
+        skippedOffDays++;
+        return;
+      }
+      entries.set(format(date, 'yyyy-MM-dd'), { date, dayType: range.dayType ?? defaultType, label: range.label });
+    });
+  });
+  return {
+    entries: Array.from(entries.values()).sort((a, b) => a.date.getTime() - b.date.getTime()),
+    skippedOffDays,
+  };
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { describeWeeklyOffs, getWeekOfMonth, isOffDay, isWeeklyOff, type WeeklyOffPolicy } from './date-policy';
+
+const date = (dateKey: string) => new Date(`${dateKey}T00:00:00`);
+
+// Sundays and the 2nd and 4th Saturdays off.
+const policy: WeeklyOffPolicy = { weeklyOffDays: [0], offSaturdays: [2, 4] };
+
+describe('getWeekOfMonth', () => {
+  it('counts weeks in blocks of seven days from the 1st', () => {
+    expect(getWeekOfMonth(date('2025-03-01'))).toBe(1);
+    expect(getWeekOfMonth(date('2025-03-07'))).toBe(1);
+    expect(getWeekOfMonth(date('2025-03-08'))).toBe(2);
+    expect(getWeekOfMonth(date('2025-03-29'))).toBe(5);
+  });
+});
+
+describe('isWeeklyOff', () => {
+  it('covers the off weekdays and only the chosen Saturdays', () => {
+    // March 2025: Saturdays fall on the 1st, 8th, 15th, 22nd and 29th.
+    expect(isWeeklyOff(date('2025-03-02'), policy)).toBe(true);
+    expect(isWeeklyOff(date('2025-03-01'), policy)).toBe(false);
+    expect(isWeeklyOff(date('2025-03-08'), policy)).toBe(true);
+    expect(isWeeklyOff(date('2025-03-15'), policy)).toBe(false);
+    expect(isWeeklyOff(date('2025-03-22'), policy)).toBe(true);
+    expect(isWeeklyOff(date('2025-03-03'), policy)).toBe(false);
+  });
+});
+
+describe('isOffDay', () => {
+  it('lets a compensatory working day override the weekly off', () => {
+    expect(isOffDay(date('2025-03-08'), policy)).toBe(true);
+    expect(isOffDay(date('2025-03-08'), policy, { compensatory: true })).toBe(false);
+  });
+});
+
+describe('describeWeeklyOffs', () => {
+  it('names the off weekdays and Saturdays', () => {
+    expect(describeWeeklyOffs(policy)).toBe('Sunday, 2nd and 4th Saturday');
+    expect(describeWeeklyOffs({ weeklyOffDays: [6, 0], offSaturdays: [2] })).toBe('Sunday, Saturday');
+    expect(describeWeeklyOffs({ weeklyOffDays: [], offSaturdays: [] })).toBe('None');
+  });
+});
@@ -0,0 +1,48 @@
+import { getDay } from 'date-fns';
+import type { AttendanceSettings, WorkingDay } from './types';
+
+/**
+ * The weekly off-days part of the attendance settings.
+ */
+export type WeeklyOffPolicy = Pick<AttendanceSettings, 'weeklyOffDays' | 'offSaturdays'>;
+
+export const weekdayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const weekOfMonthLabels = ['1st', '2nd', '3rd', '4th', '5th'];
+
+/**
+ * 1-based week of the month a date falls in, counted in blocks of seven days: the 2nd Saturday is always
+ * in week 2.
+ */
+export function getWeekOfMonth(date: Date) {
+  return Math.ceil(date.getDate() / 7);
+}
+
+/**
+ * True when the date is a weekly off: one of the off weekdays, or one of the off Saturdays of the month.
+ */
+export function isWeeklyOff(date: Date, policy: WeeklyOffPolicy) {
+  const weekday = getDay(date);
+  if (policy.weeklyOffDays.includes(weekday)) return true;
+  return weekday === 6 && policy.offSaturdays.includes(getWeekOfMonth(date));
+}
+
+/**
+ * True when the date is a weekly off that has not been marked as a compensatory working day on the calendar.
+ * Such days never count, whatever else the calendar says about them.
+ */
+export function isOffDay(date: Date, policy: WeeklyOffPolicy, calendarDay?: Pick<WorkingDay, 'compensatory'>) {
+  return isWeeklyOff(date, policy) && !calendarDay?.compensatory;
+}
+
+/**
+ * e.g. "Sunday, 2nd and 4th Saturday".
+ */
+export function describeWeeklyOffs(policy: WeeklyOffPolicy) {
+  const parts = [...policy.weeklyOffDays].sort((a, b) => a - b).map(day => weekdayNames[day]);
+  if (!policy.weeklyOffDays.includes(6) && policy.offSaturdays.length > 0) {
+    const weeks = [...policy.offSaturdays].sort((a, b) => a - b).map(week => weekOfMonthLabels[week - 1]);
+    parts.push(`${weeks.length > 1 ? `${weeks.slice(0, -1).join(', ')} and ${weeks[weeks.length - 1]}` : weeks[0]} Saturday`);
+  }
+  return parts.length > 0 ? parts.join(', ') : 'None';
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { getEnrolledClassId, getEnrolmentOn, getStudentsEnrolledOn } from './enrolment';
+import type { Class, EnrolmentEvent, Student } from './types';
+
+const event = (fields: Pick<EnrolmentEvent, 'type' | 'date'> & Partial<EnrolmentEvent>): EnrolmentEvent => ({
+  recordedBy: 'admin',
+  recordedByName: 'Admin',
+  recordedAt: new Date('2025-06-01T00:00:00Z'),
+  ...fields,
+});
+
+const student = (enrolmentHistory: EnrolmentEvent[] = [], classId = 'cse-2-a') =>
+  ({ id: 's1', name: 'Priya', classId, departmentId: 'cse', enrolmentHistory }) as Student;
+
+describe('getEnrolmentOn', () => {
+  it('counts a student without history as enrolled in their current class', () => {
+    expect(getEnrolmentOn(student(), '2025-06-02')).toEqual({ status: 'enrolled', classId: 'cse-2-a' });
+  });
+
+  it('keeps a late joiner off the roster until their joining date', () => {
+    const joiner = student([event({ type: 'joined', date: '2025-06-10', classId: 'cse-2-a' })]);
+
+    expect(getEnrolmentOn(joiner, '2025-06-09').status).toBe('notJoined');
+    expect(getEnrolmentOn(joiner, '2025-06-10').status).toBe('enrolled');
+  });
+
+  it('places a transferred student in their old class before the transfer', () => {
+    const moved = student([event({ type: 'transferred', date: '2025-06-04', fromClassId: 'ece-2-a', classId: 'cse-2-a' })]);
+
+    expect(getEnrolledClassId(moved, '2025-06-03')).toBe('ece-2-a');
+    expect(getEnrolledClassId(moved, '2025-06-04')).toBe('cse-2-a');
+  });
+
+  it('replays events in date order whatever order they were stored in', () => {
+    const history = [
+      event({ type: 'discontinued', date: '2025-07-01' }),
+      event({ type: 'joined', date: '2025-06-02', classId: 'cse-2-a' }),
+    ];
+
+    expect(getEnrolmentOn(student(history), '2025-06-15').status).toBe('enrolled');
+    expect(getEnrolmentOn(student(history), '2025-07-01').status).toBe('discontinued');
+  });
+
+  it('only covers the days of a long absence', () => {
+    const away = student([event({ type: 'longAbsence', date: '2025-06-05', endDate: '2025-06-06' })]);
+
+    expect(getEnrolmentOn(away, '2025-06-04').status).toBe('enrolled');
+    expect(getEnrolmentOn(away, '2025-06-06').status).toBe('longAbsence');
+    expect(getEnrolledClassId(away, '2025-06-06')).toBeNull();
+    expect(getEnrolmentOn(away, '2025-06-07').status).toBe('enrolled');
+  });
+});
+
+describe('getStudentsEnrolledOn', () => {
+  it('moves students into the class and department they were in on the date', () => {
+    const classes = [{ id: 'ece-2-a', name: 'II ECE A', departmentId: 'ece' }] as Class[];
+    const moved = student([event({ type: 'transferred', date: '2025-06-04', fromClassId: 'ece-2-a', classId: 'cse-2-a' })]);
+    const notJoined = { ...student([event({ type: 'joined', date: '2025-06-10' })]), id: 's2' };
+
+    expect(getStudentsEnrolledOn([moved, notJoined], classes, '2025-06-03')).toEqual([
+      { ...moved, classId: 'ece-2-a', departmentId: 'ece' },
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+import type { Class, EnrolmentEvent, EnrolmentEventType, Student } from './types';
+
+export type EnrolmentStatus = 'enrolled' | 'notJoined' | 'discontinued' | 'longAbsence';
+
+export const enrolmentEventLabels: Record<EnrolmentEventType, string> = {
+  joined: 'Joined',
+  transferred: 'Transferred',
+  discontinued: 'Discontinued',
+  longAbsence: 'Long Absence',
+};
+
+export const enrolmentStatusLabels: Record<EnrolmentStatus, string> = {
+  enrolled: 'Enrolled',
+  notJoined: 'Not Yet Joined',
+  discontinued: 'Discontinued',
+  longAbsence: 'On Long Absence',
+};
+
+export function sortEnrolmentEvents(events: EnrolmentEvent[]) {
+  return [...events].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Replays the student's enrolment history up to `dateKey`. Before the first event the student is in the class
+ * the first transfer moved them from (or their current class), and counts as enrolled unless their history
+ * starts with joining.
+ */
+export function getEnrolmentOn(student: Student, dateKey: string): { status: EnrolmentStatus; classId: string } {
+  const events = sortEnrolmentEvents(student.enrolmentHistory ?? []);
+  const firstChange = events.find(e => e.type === 'joined' || e.type === 'discontinued');
+  let status: EnrolmentStatus = firstChange?.type === 'joined' ? 'notJoined' : 'enrolled';
+  let classId = events.find(e => e.type === 'transferred')?.fromClassId || student.classId;
+
+  for (const event of events) {
+    if (event.date > dateKey) break;
+    if (event.type === 'joined') {
+      status = 'enrolled';
+      if (event.classId) classId = event.classId;
+    } else if (event.type === 'discontinued') {
+      status = 'discontinued';
+    } else if (event.type === 'transferred' && event.classId) {
+      classId = event.classId;
+    }
+  }
+
+  const isAway = events.some(e => e.type === 'longAbsence' && e.date <= dateKey && (!e.endDate || dateKey <= e.endDate));
+  if (status === 'enrolled' && isAway) status = 'longAbsence';
+  return { status, classId };
+}
+
+/**
+ * The class the student was enrolled in on the date, or null if they should not be counted that day.
+ */
+export function getEnrolledClassId(student: Student, dateKey: string) {
+  const enrolment = getEnrolmentOn(student, dateKey);
+  return enrolment.status === 'enrolled' ? enrolment.classId : null;
+}
+
+/**
+ * The students counted on the date, each placed in the class (and that class's department) they were in then.
+ */
+export function getStudentsEnrolledOn(students: Student[], classes: Class[], dateKey: string): Student[] {
+  return students.flatMap(student => {
+    const classId = getEnrolledClassId(student, dateKey);
+    if (!classId) return [];
+    if (classId === student.classId) return [student];
+    const departmentId = classes.find(c => c.id === classId)?.departmentId ?? student.departmentId;
+    return [{ ...student, classId, departmentId }];
+  });
+}
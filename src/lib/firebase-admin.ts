@@ -8,3 +8,7 @@ if (!admin.apps.length) {
 
 export const db = admin.firestore();
 export const auth = admin.auth();
+
+export async function getAdminServices() {
+  return { adminDb: db, adminAuth: auth };
+}
@@ -0,0 +1,43 @@
+// The feed is served from a server running in UTC; set before any dates are created.
+process.env.TZ = 'UTC';
+
+import { describe, expect, it } from 'vitest';
+import { buildIcsCalendar, toIcsEvents } from './ics';
+import type { WorkingDay } from './types';
+
+// What the working-days page saves from a browser in India: local midnight, 18:30 UTC the day before.
+const istDay = (date: string, day: Omit<WorkingDay, 'id' | 'timestamp'>): WorkingDay => ({
+  id: date,
+  timestamp: new Date(`${date}T00:00:00+05:30`),
+  ...day,
+});
+
+describe('toIcsEvents', () => {
+  it('dates events by the working day id, not the UTC timestamp', () => {
+    const events = toIcsEvents([
+      istDay('2025-01-26', { isWorkingDay: false, dayType: 'holiday', label: 'Republic Day' }),
+      istDay('2025-01-27', { isWorkingDay: true, dayType: 'instructional' }),
+    ]);
+
+    expect(events).toEqual([{ startDate: '2025-01-26', endDate: '2025-01-26', summary: 'Republic Day' }]);
+  });
+
+  it('joins consecutive days with the same label', () => {
+    const events = toIcsEvents(['2025-05-01', '2025-05-02', '2025-05-03'].map(date =>
+      istDay(date, { isWorkingDay: false, dayType: 'vacation', label: 'Summer Vacation' })));
+
+    expect(events).toEqual([{ startDate: '2025-05-01', endDate: '2025-05-03', summary: 'Summer Vacation' }]);
+  });
+});
+
+describe('buildIcsCalendar', () => {
+  it('writes all-day events on the stored dates', () => {
+    const feed = buildIcsCalendar('SVCET Holidays', toIcsEvents([
+      istDay('2025-08-15', { isWorkingDay: false, dayType: 'holiday', label: 'Independence Day' }),
+    ]), new Date('2025-08-01T00:00:00Z'));
+
+    expect(feed).toContain('DTSTART;VALUE=DATE:20250815\r\n');
+    expect(feed).toContain('DTEND;VALUE=DATE:20250816\r\n');
+    expect(feed).toContain('SUMMARY:Independence Day\r\n');
+  });
+});
@@ -0,0 +1,117 @@
+import { addDays, format, parseISO, subDays } from 'date-fns';
+import type { WorkingDay } from './types';
+import { dayTypeLabels, getCalendarDateKey, getDayType, isInstructionalDay } from './calendar';
+
+/**
+ * An all-day calendar event. Both dates are inclusive and in YYYY-MM-DD format.
+ */
+export interface IcsEvent {
+  startDate: string;
+  endDate: string;
+  summary: string;
+}
+
+function toDateKey(icsDate: string) {
+  return `${icsDate.slice(0, 4)}-${icsDate.slice(4, 6)}-${icsDate.slice(6, 8)}`;
+}
+
+function unescapeText(value: string) {
+  return value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+}
+
+function escapeText(value: string) {
+  return value.replace(/\\/g, '\\\\').replace(/([,;])/g, '\\$1').replace(/\n/g, '\\n');
+}
+
+/**
+ * Reads the events from an iCalendar file, such as a government holiday list exported from Google Calendar.
+ * Only the date part of DTSTART/DTEND is used; an all-day DTEND is exclusive, as the format defines.
+ */
+export function parseIcsEvents(text: string): IcsEvent[] {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: IcsEvent[] = [];
+  let current: { start?: string; end?: string; endIsExclusive?: boolean; summary?: string } | null = null;
+
+  lines.forEach(line => {
+    if (line === 'BEGIN:VEVENT') {
+      current = {};
+      return;
+    }
+    if (!current) return;
+    if (line === 'END:VEVENT') {
+      if (current.start) {
+        let endDate = current.end ?? current.start;
+        if (current.end && current.endIsExclusive && current.end > current.start) {
+          endDate = format(subDays(parseISO(current.end), 1), 'yyyy-MM-dd');
+        }
+        events.push({ startDate: current.start, endDate, summary: current.summary || '' });
+      }
+      current = null;
+      return;
+    }
+
+    const separator = line.indexOf(':');
+    if (separator === -1) return;
+    const [name, ...params] = line.slice(0, separator).toUpperCase().split(';');
+    const value = line.slice(separator + 1);
+    if (name === 'DTSTART' && /^\d{8}/.test(value)) {
+      current.start = toDateKey(value);
+    } else if (name === 'DTEND' && /^\d{8}/.test(value)) {
+      current.end = toDateKey(value);
+      current.endIsExclusive = params.includes('VALUE=DATE') || value.length === 8;
+    } else if (name === 'SUMMARY') {
+      current.summary = unescapeText(value);
+    }
+  });
+
+  return events;
+}
+
+/**
+ * Turns the marked non-instructional days into events, joining consecutive days with the same type and label
+ * (a week of vacation becomes one event).
+ */
+export function toIcsEvents(days: WorkingDay[]): IcsEvent[] {
+  const events: IcsEvent[] = [];
+  const sortedDays = days
+    .filter(day => !isInstructionalDay(day))
+    .map(day => ({ dateKey: getCalendarDateKey(day), summary: day.label || dayTypeLabels[getDayType(day)] }))
+    .sort((a, b) => a.dateKey.localeCompare(b.dateKey));
+
+  sortedDays.forEach(day => {
+    const last = events[events.length - 1];
+    if (last && last.summary === day.summary && format(addDays(parseISO(last.endDate), 1), 'yyyy-MM-dd') === day.dateKey) {
+      last.endDate = day.dateKey;
+    } else {
+      events.push({ startDate: day.dateKey, endDate: day.dateKey, summary: day.summary });
+    }
+  });
+  return events;
+}
+
+export function buildIcsCalendar(name: string, events: IcsEvent[], now: Date = new Date()) {
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//SVCET//Attendance//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+  events.forEach(event => {
+    const start = event.startDate.replace(/-/g, '');
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${start}-${event.summary.toLowerCase().replace(/[^a-z0-9]+/g, '-')}@svcet-attendance`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${start}`,
+      `DTEND;VALUE=DATE:${format(addDays(parseISO(event.endDate), 1), 'yyyyMMdd')}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+    );
+  });
+  lines.push('END:VCALENDAR');
+  return lines.join('\r\n') + '\r\n';
+}
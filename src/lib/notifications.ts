@@ -0,0 +1,57 @@
+import { appendFile } from 'fs/promises';
+import path from 'path';
+import type { NotificationChannel } from './types';
+
+export interface OutgoingMessage {
+  to: string;
+  channel: NotificationChannel;
+  body: string;
+}
+
+export interface SendResult {
+  ok: boolean;
+  error?: string;
+}
+
+/**
+ * A delivery backend for parent messages. An SMS gateway or the WhatsApp Business API
+ * would implement this; the console and file providers below stand in during development.
+ */
+export interface NotificationProvider {
+  name: string;
+  send(message: OutgoingMessage): Promise<SendResult>;
+}
+
+const consoleProvider: NotificationProvider = {
+  name: 'console',
+  async send(message) {
+    console.log(`[notification:${message.channel}] to ${message.to}: ${message.body}`);
+    return { ok: true };
+  },
+};
+
+const fileProvider: NotificationProvider = {
+  name: 'file',
+  async send(message) {
+    const logPath = process.env.NOTIFICATION_LOG_FILE || path.join(process.cwd(), 'notifications.log');
+    try {
+      const line = JSON.stringify({ ...message, at: new Date().toISOString() });
+      await appendFile(logPath, line + '\n');
+      return { ok: true };
+    } catch (error: any) {
+      return { ok: false, error: error.message };
+    }
+  },
+};
+
+const providers: Record<string, NotificationProvider> = {
+  console: consoleProvider,
+  file: fileProvider,
+};
+
+/**
+ * Picks the provider named by the NOTIFICATION_PROVIDER environment variable, defaulting to the console.
+ */
+export function getNotificationProvider(): NotificationProvider {
+  return providers[process.env.NOTIFICATION_PROVIDER || 'console'] || consoleProvider;
+}
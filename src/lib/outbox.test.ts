@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { addToOutbox, getOutbox, isNetworkError, removeFromOutbox, subscribeToOutbox, updateOutboxEntry, type OutboxEntry } from './outbox';
+
+// The tests run in Node, so give the module the parts of the browser it uses.
+beforeEach(() => {
+  const storage = new Map<string, string>();
+  vi.stubGlobal('window', new EventTarget());
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+  });
+  vi.stubGlobal('navigator', { onLine: true });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const entry = (id: string, fields: Partial<OutboxEntry> = {}): OutboxEntry => ({
+  id,
+  records: [],
+  submission: { classId: 'cse-2-a', departmentId: 'cse', date: '2025-06-02', submittedBy: 't1', presentCount: 60, absentCount: 0 },
+  queuedAt: '2025-06-02T04:00:00.000Z',
+  ...fields,
+});
+
+describe('outbox', () => {
+  it('keeps one entry per submission id, per staff member', () => {
+    addToOutbox('t1', entry('cse-2-a_2025-06-02'));
+    addToOutbox('t1', entry('cse-2-a_2025-06-02', { queuedAt: '2025-06-02T05:00:00.000Z' }));
+    addToOutbox('t1', entry('cse-2-a_2025-06-03'));
+
+    expect(getOutbox('t1').map(e => [e.id, e.queuedAt])).toEqual([
+      ['cse-2-a_2025-06-02', '2025-06-02T05:00:00.000Z'],
+      ['cse-2-a_2025-06-03', '2025-06-02T04:00:00.000Z'],
+    ]);
+    expect(getOutbox('t2')).toEqual([]);
+  });
+
+  it('updates and removes entries and tells subscribers', () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeToOutbox(listener);
+    addToOutbox('t1', entry('cse-2-a_2025-06-02'));
+    updateOutboxEntry('t1', 'cse-2-a_2025-06-02', { conflict: { submittedBy: 'Anita', submittedAt: '2025-06-02T04:30:00.000Z', presentCount: 59, absentCount: 1 } });
+
+    expect(getOutbox('t1')[0].conflict?.submittedBy).toBe('Anita');
+
+    removeFromOutbox('t1', 'cse-2-a_2025-06-02');
+    unsubscribe();
+    addToOutbox('t1', entry('cse-2-a_2025-06-03'));
+
+    expect(getOutbox('t1').map(e => e.id)).toEqual(['cse-2-a_2025-06-03']);
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+
+  it('treats unreadable storage as an empty outbox', () => {
+    localStorage.setItem('svcet-attendance-outbox-t1', '{not json');
+
+    expect(getOutbox('t1')).toEqual([]);
+  });
+});
+
+describe('isNetworkError', () => {
+  it('queues on connection errors and while offline, but not on other failures', () => {
+    expect(isNetworkError({ code: 'unavailable' })).toBe(true);
+    expect(isNetworkError({ code: 'permission-denied' })).toBe(false);
+
+    vi.stubGlobal('navigator', { onLine: false });
+    expect(isNetworkError(new Error('Failed'))).toBe(true);
+  });
+});
@@ -0,0 +1,69 @@
+import type { AttendanceRecord, AttendanceSubmission } from './types';
+
+/**
+ * An attendance submission captured while the device was offline, waiting to be written to Firestore.
+ * Record ids are generated when the entry is queued so the same ids are used when it syncs.
+ */
+export interface OutboxEntry {
+  id: string; // submission id, `${classId}_${date}` or `${classId}_${date}_P${period}`
+  records: (Omit<AttendanceRecord, 'timestamp'>)[];
+  submission: Omit<AttendanceSubmission, 'id' | 'submittedAt'>;
+  queuedAt: string; // ISO timestamp; used as the record and submission timestamp when synced
+  conflict?: {
+    submittedBy: string; // staff name, or id if the staff member could not be looked up
+    submittedAt: string; // ISO timestamp
+    presentCount: number;
+    absentCount: number;
+  };
+}
+
+const OUTBOX_EVENT = 'attendance-outbox-change';
+
+function getOutboxKey(staffId: string) {
+  return `svcet-attendance-outbox-${staffId}`;
+}
+
+export function getOutbox(staffId: string): OutboxEntry[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    return JSON.parse(localStorage.getItem(getOutboxKey(staffId)) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+function saveOutbox(staffId: string, entries: OutboxEntry[]) {
+  localStorage.setItem(getOutboxKey(staffId), JSON.stringify(entries));
+  window.dispatchEvent(new Event(OUTBOX_EVENT));
+}
+
+export function addToOutbox(staffId: string, entry: OutboxEntry) {
+  saveOutbox(staffId, [...getOutbox(staffId).filter(e => e.id !== entry.id), entry]);
+}
+
+export function updateOutboxEntry(staffId: string, id: string, changes: Partial<OutboxEntry>) {
+  saveOutbox(staffId, getOutbox(staffId).map(e => e.id === id ? { ...e, ...changes } : e));
+}
+
+export function removeFromOutbox(staffId: string, id: string) {
+  saveOutbox(staffId, getOutbox(staffId).filter(e => e.id !== id));
+}
+
+/**
+ * Calls the listener whenever the outbox changes in this tab, and returns the unsubscribe function.
+ */
+export function subscribeToOutbox(listener: () => void) {
+  window.addEventListener(OUTBOX_EVENT, listener);
+  window.addEventListener('storage', listener);
+  return () => {
+    window.removeEventListener(OUTBOX_EVENT, listener);
+    window.removeEventListener('storage', listener);
+  };
+}
+
+/**
+ * True when the error means Firestore could not reach the server, so the entry should be queued rather than dropped.
+ */
+export function isNetworkError(error: any) {
+  return error?.code === 'unavailable' || error?.code === 'deadline-exceeded' || (typeof navigator !== 'undefined' && !navigator.onLine);
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { GRADUATE, getRolloverBatches, getRolloverCounts, planRollover, suggestRolloverMapping } from './rollover';
+import type { Class, Student } from './types';
+
+const cls = (id: string, batch?: string) => ({ id, name: id, departmentId: 'cse', ...(batch && { batch }) }) as Class;
+const student = (id: string, classId: string, lastRollover?: string) =>
+  ({ id, name: id, classId, departmentId: 'cse', ...(lastRollover && { lastRollover }) }) as Student;
+
+const classes = [cls('cse-1-a', '2025-29'), cls('cse-2-a', '2024-28'), cls('cse-3-a', '2023-27'), cls('cse-4-a', '2022-26')];
+
+describe('suggestRolloverMapping', () => {
+  it('moves each class a year up and graduates the final year', () => {
+    expect(suggestRolloverMapping(classes)).toEqual({
+      'cse-1-a': 'cse-2-a',
+      'cse-2-a': 'cse-3-a',
+      'cse-3-a': 'cse-4-a',
+      'cse-4-a': GRADUATE,
+    });
+  });
+
+  it('leaves first years and unrecognised ids for the admin to map', () => {
+    expect(suggestRolloverMapping([cls('ece-1'), cls('library')])).toEqual({ 'ece-1': '', library: '' });
+  });
+});
+
+describe('planRollover', () => {
+  const mapping = { 'cse-2-a': 'cse-3-a', 'cse-4-a': GRADUATE, 'cse-1-a': '' };
+
+  it('splits students into moves and graduates and leaves unmapped classes alone', () => {
+    const plan = planRollover([student('a', 'cse-2-a'), student('b', 'cse-4-a'), student('c', 'cse-1-a')], classes, mapping, '2025-26');
+
+    expect(plan.moves.map(m => [m.student.id, m.target.id])).toEqual([['a', 'cse-3-a']]);
+    expect(plan.graduates.map(s => s.id)).toEqual(['b']);
+    expect(plan.alreadyMoved).toBe(0);
+  });
+
+  it('skips students an interrupted run already moved this year', () => {
+    const plan = planRollover([student('a', 'cse-3-a', '2025-26'), student('b', 'cse-2-a', '2024-25')], classes, { ...mapping, 'cse-3-a': 'cse-4-a' }, '2025-26');
+
+    expect(plan.moves.map(m => m.student.id)).toEqual(['b']);
+    expect(plan.alreadyMoved).toBe(1);
+  });
+});
+
+describe('getRolloverCounts', () => {
+  it('shows each class after students leave and arrive', () => {
+    const students = [student('a', 'cse-2-a'), student('b', 'cse-3-a'), student('c', 'cse-4-a')];
+    const { moves, graduates } = planRollover(students, classes, { 'cse-2-a': 'cse-3-a', 'cse-3-a': 'cse-4-a', 'cse-4-a': GRADUATE }, '2025-26');
+    const { before, after } = getRolloverCounts(students, moves, graduates);
+
+    expect(Object.fromEntries(before)).toEqual({ 'cse-2-a': 1, 'cse-3-a': 1, 'cse-4-a': 1 });
+    expect(Object.fromEntries(after)).toEqual({ 'cse-2-a': 0, 'cse-3-a': 1, 'cse-4-a': 1 });
+  });
+});
+
+describe('getRolloverBatches', () => {
+  it('carries batches up with their students and clears vacated classes', () => {
+    expect(getRolloverBatches(classes, suggestRolloverMapping(classes))).toEqual({
+      'cse-1-a': '',
+      'cse-2-a': '2025-29',
+      'cse-3-a': '2024-28',
+      'cse-4-a': '2023-27',
+    });
+    expect(getRolloverBatches(classes, { 'cse-4-a': GRADUATE })).toEqual({ 'cse-4-a': '' });
+  });
+});
@@ -0,0 +1,99 @@
+import type { Class, Student } from './types';
+
+export const GRADUATE = 'graduate';
+
+/**
+ * Where each source class's students go at the start of the year: a target classId, `GRADUATE`, or '' to leave
+ * them where they are.
+ */
+export type RolloverMapping = Record<string, string>;
+
+export interface RolloverMove {
+  student: Student;
+  target: Class;
+}
+
+/**
+ * Guesses the mapping from class ids like `cse-2-a` or `ece-3`: each class goes to the same id one year up.
+ * A class with no next year graduates, except first years, which are left for the admin to map.
+ */
+export function suggestRolloverMapping(classes: Class[]): RolloverMapping {
+  const classIds = new Set(classes.map(c => c.id));
+  return Object.fromEntries(classes.map(cls => {
+    const match = cls.id.match(/^(.+)-(\d)(-[^-]+)?$/);
+    if (!match) return [cls.id, ''];
+    const [, prefix, year, section = ''] = match;
+    const nextId = `${prefix}-${Number(year) + 1}${section}`;
+    if (classIds.has(nextId)) return [cls.id, nextId];
+    return [cls.id, Number(year) > 1 ? GRADUATE : ''];
+  }));
+}
+
+/**
+ * Works out who moves where. Students whose `lastRollover` is already this academic year were moved by an earlier,
+ * interrupted run and are skipped, so the rollover can simply be run again.
+ */
+export function planRollover(students: Student[], classes: Class[], mapping: RolloverMapping, academicYear: string) {
+  const classesById = new Map(classes.map(c => [c.id, c]));
+  const moves: RolloverMove[] = [];
+  const graduates: Student[] = [];
+  let alreadyMoved = 0;
+
+  students.forEach(student => {
+    const targetId = mapping[student.classId];
+    if (!targetId) return;
+    if (student.lastRollover === academicYear) {
+      alreadyMoved++;
+      return;
+    }
+    if (targetId === GRADUATE) {
+      graduates.push(student);
+      return;
+    }
+    const target = classesById.get(targetId);
+    if (target) moves.push({ student, target });
+  });
+
+  return { moves, graduates, alreadyMoved };
+}
+
+/**
+ * Student counts per class before and after the rollover, for the preview.
+ */
+export function getRolloverCounts(students: Student[], moves: RolloverMove[], graduates: Student[]) {
+  const before = new Map<string, number>();
+  students.forEach(s => before.set(s.classId, (before.get(s.classId) ?? 0) + 1));
+
+  const after = new Map(before);
+  const leaving = [...moves.map(m => m.student), ...graduates];
+  leaving.forEach(s => after.set(s.classId, (after.get(s.classId) ?? 0) - 1));
+  moves.forEach(m => after.set(m.target.id, (after.get(m.target.id) ?? 0) + 1));
+  return { before, after };
+}
+
+/**
+ * The batch each class should carry after the rollover: a target takes its source's batch when every class moving
+ * into it agrees, and a class that everyone leaves with nobody arriving loses its batch ('').
+ */
+export function getRolloverBatches(classes: Class[], mapping: RolloverMapping) {
+  const incoming = new Map<string, Class[]>();
+  classes.forEach(cls => {
+    const targetId = mapping[cls.id];
+    if (!targetId || targetId === GRADUATE) return;
+    incoming.set(targetId, [...(incoming.get(targetId) ?? []), cls]);
+  });
+
+  const batches: Record<string, string> = {};
+  classes.forEach(cls => {
+    const sources = incoming.get(cls.id);
+    const isVacated = !!mapping[cls.id];
+    if (sources) {
+      const sourceBatches = new Set(sources.map(s => s.batch || ''));
+      const [batch] = Array.from(sourceBatches);
+      if (sourceBatches.size === 1 && batch && batch !== (cls.batch || '')) batches[cls.id] = batch;
+    } else if (isVacated && cls.batch) {
+      batches[cls.id] = '';
+    }
+  });
+  return batches;
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { createRosterIndex, getRosterClassId, getRosterOnlyStudents, getStudentsOnDate } from './roster';
+import type { AttendanceSubmission, Class, RosterEntry, Student } from './types';
+
+const classes = [
+  { id: 'cse-2-a', name: 'II CSE A', departmentId: 'cse' },
+  { id: 'cse-2-b', name: 'II CSE B', departmentId: 'cse' },
+] as Class[];
+
+const entry = (id: string, fields: Partial<RosterEntry> = {}): RosterEntry => ({ id, name: id, registerNo: id, gender: 'FEMALE', ...fields });
+const submission = (classId: string, date: string, roster?: RosterEntry[], period?: number) =>
+  ({ id: `${classId}_${date}`, classId, departmentId: 'cse', date, period, roster }) as AttendanceSubmission;
+const student = (id: string, classId: string) => ({ ...entry(id), classId, departmentId: 'cse' }) as Student;
+
+describe('getStudentsOnDate', () => {
+  it('uses the snapshot for classes that submitted and live enrolment for the rest', () => {
+    const index = createRosterIndex([submission('cse-2-a', '2025-06-02', [entry('a1'), entry('gone')])]);
+    const students = [student('a1', 'cse-2-a'), student('a2', 'cse-2-a'), student('b1', 'cse-2-b')];
+
+    expect(getStudentsOnDate(students, classes, index, '2025-06-02').map(s => s.id)).toEqual(['a1', 'gone', 'b1']);
+  });
+
+  it('uses the first period snapshot of the day', () => {
+    const index = createRosterIndex([
+      submission('cse-2-a', '2025-06-02', [entry('a1')], 1),
+      submission('cse-2-a', '2025-06-02', [entry('a1'), entry('a2')], 2),
+    ]);
+
+    expect(getStudentsOnDate([], classes, index, '2025-06-02').map(s => s.id)).toEqual(['a1']);
+  });
+});
+
+describe('getRosterClassId', () => {
+  it('returns the class whose snapshot listed the student', () => {
+    const index = createRosterIndex([submission('cse-2-b', '2025-06-02', [entry('a1')])]);
+
+    expect(getRosterClassId(student('a1', 'cse-2-a'), '2025-06-02', index)).toBe('cse-2-b');
+  });
+
+  it('does not count a student left off their own class snapshot', () => {
+    const index = createRosterIndex([submission('cse-2-a', '2025-06-02', [entry('a1')])]);
+
+    expect(getRosterClassId(student('a2', 'cse-2-a'), '2025-06-02', index)).toBeNull();
+    expect(getRosterClassId(student('a2', 'cse-2-a'), '2025-06-03', index)).toBe('cse-2-a');
+  });
+});
+
+describe('getRosterOnlyStudents', () => {
+  it('lists students who have left since, once, with their snapshot fields', () => {
+    const index = createRosterIndex([
+      submission('cse-2-a', '2025-06-02', [entry('a1'), entry('gone', { mentor: 'Dr. Rao', admissionType: 'CENTAC' })]),
+      submission('cse-2-a', '2025-06-03', [entry('gone', { mentor: 'Dr. Rao', admissionType: 'CENTAC' })]),
+      submission('cse-2-a', '2025-07-01', [entry('later')]),
+    ]);
+
+    expect(getRosterOnlyStudents([student('a1', 'cse-2-a')], index, 'cse-2-a', '2025-06-01', '2025-06-30')).toEqual([
+      { ...entry('gone', { mentor: 'Dr. Rao', admissionType: 'CENTAC' }), classId: 'cse-2-a', departmentId: 'cse' },
+    ]);
+  });
+});
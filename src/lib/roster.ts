@@ -0,0 +1,67 @@
+import type { AttendanceSubmission, Class, Student } from './types';
+import { getEnrolledClassId, getStudentsEnrolledOn } from './enrolment';
+import { getStudentDayKey } from './attendance';
+
+/**
+ * The roster snapshots taken with submissions, looked up by class and date. Period-wise classes snapshot every
+ * period; the first one seen is used.
+ */
+export interface RosterIndex {
+  rosters: Map<string, Student[]>; // `${classId}_${date}` -> the students on the class's roster that day
+  classIds: Map<string, string>; // getStudentDayKey(studentId, date) -> the class whose roster listed them
+}
+
+const getRosterKey = (classId: string, date: string) => `${classId}_${date}`;
+
+export function createRosterIndex(submissions: AttendanceSubmission[]): RosterIndex {
+  const rosters = new Map<string, Student[]>();
+  const classIds = new Map<string, string>();
+  submissions.forEach(sub => {
+    const key = getRosterKey(sub.classId, sub.date);
+    if (!sub.roster || rosters.has(key)) return;
+    rosters.set(key, sub.roster.map(entry => ({ ...entry, classId: sub.classId, departmentId: sub.departmentId })));
+    sub.roster.forEach(entry => classIds.set(getStudentDayKey(entry.id, sub.date), sub.classId));
+  });
+  return { rosters, classIds };
+}
+
+/**
+ * The class the student was counted in on the date: the class whose snapshot listed them, or else their
+ * enrolled class as long as that class has no snapshot for the date (older submissions, or not submitted yet).
+ * Null when the student was not counted.
+ */
+export function getRosterClassId(student: Student, dateKey: string, index: RosterIndex) {
+  const listedIn = index.classIds.get(getStudentDayKey(student.id, dateKey));
+  if (listedIn) return listedIn;
+  const classId = getEnrolledClassId(student, dateKey);
+  return classId && !index.rosters.has(getRosterKey(classId, dateKey)) ? classId : null;
+}
+
+/**
+ * Every student counted on the date, in the class they were counted in. Classes that submitted that day
+ * use their snapshot, so students added or removed since do not change past totals; the rest fall back to
+ * the live enrolment.
+ */
+export function getStudentsOnDate(students: Student[], classes: Class[], index: RosterIndex, dateKey: string): Student[] {
+  const snapshotted = classes.flatMap(c => index.rosters.get(getRosterKey(c.id, dateKey)) ?? []);
+  const live = getStudentsEnrolledOn(students, classes, dateKey)
+    .filter(s => !index.rosters.has(getRosterKey(s.classId, dateKey)));
+  return [...snapshotted, ...live];
+}
+
+/**
+ * Students who appear on the class's snapshots between the dates but are no longer in `students`, such as
+ * graduated or deleted students, so reports for that period still list them.
+ */
+export function getRosterOnlyStudents(students: Student[], index: RosterIndex, classId: string, fromDate: string, toDate: string) {
+  const knownIds = new Set(students.map(s => s.id));
+  const missing = new Map<string, Student>();
+  index.rosters.forEach((roster, key) => {
+    const date = key.slice(classId.length + 1);
+    if (!key.startsWith(`${classId}_`) || date < fromDate || date > toDate) return;
+    roster.forEach(student => {
+      if (!knownIds.has(student.id) && !missing.has(student.id)) missing.set(student.id, student);
+    });
+  });
+  return Array.from(missing.values());
+}
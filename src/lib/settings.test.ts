@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { defaultNotificationSettings, omitPlaceholderSentence } from './settings';
+
+describe('omitPlaceholderSentence', () => {
+  it('drops the acknowledgement sentence from the default template', () => {
+    expect(omitPlaceholderSentence(defaultNotificationSettings.absenceTemplate, 'ackLink')).toBe(
+      'Dear Parent, your ward {studentName} ({registerNo}) of {className} was absent on {date}{session}.',
+    );
+  });
+
+  it('keeps the sentences around a link in the middle of the template', () => {
+    expect(omitPlaceholderSentence('{studentName} was absent. Reply at {ackLink} today. Thank you.', 'ackLink'))
+      .toBe('{studentName} was absent. Thank you.');
+  });
+});
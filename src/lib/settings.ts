@@ -0,0 +1,72 @@
+import { doc, getDoc, Firestore } from 'firebase/firestore';
+import type { AttendanceSettings, NotificationSettings } from './types';
+
+export const defaultAttendanceSettings: AttendanceSettings = {
+  periodsPerDay: 1,
+  minPeriodsForPresent: 1,
+  halfDaySessions: false,
+  countsAsPresent: {
+    'On Duty': true,
+    'Medical Leave': false,
+    'Late': true,
+  },
+  followUpDeadline: '17:00',
+  submissionCutoff: '10:00',
+  departmentCutoffs: {},
+  eligibilityPercentage: 75,
+  condonationPercentage: 65,
+  weeklyOffDays: [0],
+  offSaturdays: [],
+};
+
+/**
+ * Reads the institution-wide attendance settings from `settings/attendance`.
+ * Missing fields fall back to the defaults, so an empty database keeps the daily submission behaviour.
+ */
+export async function fetchAttendanceSettings(db: Firestore): Promise<AttendanceSettings> {
+  const snapshot = await getDoc(doc(db, 'settings', 'attendance'));
+  if (!snapshot.exists()) {
+    return defaultAttendanceSettings;
+  }
+  const data = snapshot.data();
+  return {
+    ...defaultAttendanceSettings,
+    ...data,
+    countsAsPresent: { ...defaultAttendanceSettings.countsAsPresent, ...data.countsAsPresent },
+  } as AttendanceSettings;
+}
+
+export const defaultNotificationSettings: NotificationSettings = {
+  enabled: false,
+  channel: 'sms',
+  absenceTemplate: 'Dear Parent, your ward {studentName} ({registerNo}) of {className} was absent on {date}{session}. Please confirm and share the reason here: {ackLink}',
+};
+
+/**
+ * Reads the parent notification settings from `settings/notifications`.
+ */
+export async function fetchNotificationSettings(db: Firestore): Promise<NotificationSettings> {
+  const snapshot = await getDoc(doc(db, 'settings', 'notifications'));
+  if (!snapshot.exists()) {
+    return defaultNotificationSettings;
+  }
+  return { ...defaultNotificationSettings, ...snapshot.data() } as NotificationSettings;
+}
+
+/**
+ * Fills `{placeholder}` tokens in a message template. Unknown placeholders are left as they are.
+ */
+export function renderTemplate(template: string, values: Record<string, string>) {
+  return template.replace(/\{(\w+)\}/g, (match, key) => values[key] ?? match);
+}
+
+/**
+ * Removes the sentence that contains `{placeholder}`, for when its value is missing and the sentence would
+ * otherwise end in a dangling "here: ".
+ */
+export function omitPlaceholderSentence(template: string, placeholder: string) {
+  const token = `{${placeholder}}`;
+  return template
+    .replace(new RegExp(`[^.!?]*${token.replace(/[{}]/g, '\\$&')}[^.!?]*[.!?]?`, 'g'), '')
+    .trim();
+}
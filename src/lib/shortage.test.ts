@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { getAttendanceSummaries, getEligibilityBucket, getEligibilityLabel } from './shortage';
+import { createCalendarResolver } from './calendar';
+import { defaultAttendanceSettings } from './settings';
+import type { AttendanceRecord, AttendanceSubmission, Class, CondonationRequest, Student, WorkingDay } from './types';
+
+const classes = [{ id: 'cse-2-a', name: 'II CSE A', departmentId: 'cse' }] as Class[];
+
+// Monday 2 June to Friday 6 June 2025; Friday is a holiday.
+const calendar = createCalendarResolver(
+  [
+    ...['2025-06-02', '2025-06-03', '2025-06-04', '2025-06-05'].map(date =>
+      ({ id: date, isWorkingDay: true, dayType: 'instructional', timestamp: new Date(`${date}T00:00:00`) }) as WorkingDay),
+    { id: '2025-06-06', isWorkingDay: false, dayType: 'holiday', label: 'Bakrid', timestamp: new Date('2025-06-06T00:00:00') } as WorkingDay,
+  ],
+  classes,
+  defaultAttendanceSettings,
+);
+
+const student = { id: 's1', name: 'Priya', classId: 'cse-2-a', departmentId: 'cse' } as Student;
+const submission = (date: string) => ({ id: `cse-2-a_${date}`, classId: 'cse-2-a', date }) as AttendanceSubmission;
+const absence = (date: string, fields: Partial<AttendanceRecord> = {}) =>
+  ({ studentId: 's1', classId: 'cse-2-a', date, status: 'Not Informed', ...fields }) as AttendanceRecord;
+
+describe('getAttendanceSummaries', () => {
+  it('counts submitted instructional days, with half-day absences worth half', () => {
+    const submissions = ['2025-06-02', '2025-06-03', '2025-06-04', '2025-06-06'].map(submission);
+    const records = [absence('2025-06-02'), absence('2025-06-03', { session: 'AN' })];
+    const summary = getAttendanceSummaries([student], records, submissions, calendar, defaultAttendanceSettings, '2025-06-02', '2025-06-06').get('s1');
+
+    // Thursday was not submitted and Friday is a holiday, so only Monday to Wednesday are conducted.
+    expect(summary).toEqual({ conducted: 3, attended: 1.5, percentage: 50 });
+  });
+
+  it('reports nothing conducted for a range that has not started', () => {
+    const summary = getAttendanceSummaries([student], [], [], calendar, defaultAttendanceSettings, '2999-01-01', '2999-01-31').get('s1');
+
+    expect(summary).toEqual({ conducted: 0, attended: 0, percentage: 0 });
+  });
+});
+
+describe('getEligibilityBucket', () => {
+  const bucket = (percentage: number, conducted = 10) => getEligibilityBucket({ conducted, attended: 0, percentage }, defaultAttendanceSettings);
+
+  it('splits percentages at the eligibility and condonation thresholds', () => {
+    expect(bucket(75)).toBe('Eligible');
+    expect(bucket(74.9)).toBe('Condonation');
+    expect(bucket(65)).toBe('Condonation');
+    expect(bucket(64.9)).toBe('Detained');
+  });
+
+  it('treats a student with no conducted days as eligible', () => {
+    expect(bucket(0, 0)).toBe('Eligible');
+  });
+});
+
+describe('getEligibilityLabel', () => {
+  it('reflects the condonation status for students in the condonation band', () => {
+    const condonation = (status: CondonationRequest['status']) => ({ status }) as CondonationRequest;
+
+    expect(getEligibilityLabel('Condonation', condonation('Approved'))).toBe('Eligible (Condoned)');
+    expect(getEligibilityLabel('Condonation', condonation('Pending'))).toBe('Condonation Pending');
+    expect(getEligibilityLabel('Condonation')).toBe('Not Eligible (Condonation)');
+    expect(getEligibilityLabel('Detained', condonation('Approved'))).toBe('Not Eligible (Detained)');
+  });
+});
@@ -0,0 +1,84 @@
+import { eachDayOfInterval, format, parseISO } from 'date-fns';
+import type { AttendanceRecord, AttendanceSettings, AttendanceSubmission, CondonationRequest, Student } from './types';
+import { getStudentDayAbsences, getStudentDayKey } from './attendance';
+import type { CalendarResolver } from './calendar';
+import { getEnrolledClassId } from './enrolment';
+
+export type EligibilityBucket = 'Eligible' | 'Condonation' | 'Detained';
+
+export interface StudentAttendanceSummary {
+  conducted: number; // Working days in the range, while enrolled, with a submission for the student's class
+  attended: number; // Days present, with half-day absences worth 0.5
+  percentage: number;
+}
+
+/**
+ * Works out each student's running attendance from `fromDate` to `toDate` (or today, if earlier), counting
+ * only instructional days in their class's calendar on which the class submitted attendance, the same way the
+ * student attendance grid does. Days the student was not enrolled are left out, and a transferred student is
+ * counted against whichever class they were in on each day.
+ */
+export function getAttendanceSummaries(
+  students: Student[],
+  records: AttendanceRecord[],
+  submissions: AttendanceSubmission[],
+  calendar: CalendarResolver,
+  settings: AttendanceSettings,
+  fromDate: string,
+  toDate: string,
+) {
+  const summaries = new Map<string, StudentAttendanceSummary>();
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const lastDate = toDate < today ? toDate : today;
+  if (fromDate > lastDate) {
+    students.forEach(s => summaries.set(s.id, { conducted: 0, attended: 0, percentage: 0 }));
+    return summaries;
+  }
+
+  const days = eachDayOfInterval({ start: parseISO(fromDate), end: parseISO(lastDate) }).map(day => format(day, 'yyyy-MM-dd'));
+
+  const submittedDaysByClass = new Map<string, Set<string>>();
+  submissions.forEach(sub => {
+    if (sub.date < fromDate || sub.date > lastDate) return;
+    const daysForClass = submittedDaysByClass.get(sub.classId) ?? new Set<string>();
+    daysForClass.add(sub.date);
+    submittedDaysByClass.set(sub.classId, daysForClass);
+  });
+
+  const absences = getStudentDayAbsences(records.filter(r => r.date >= fromDate && r.date <= lastDate), submissions, settings);
+
+  students.forEach(student => {
+    let conducted = 0;
+    let attended = 0;
+    days.forEach(date => {
+      const classId = getEnrolledClassId(student, date);
+      if (!classId || !submittedDaysByClass.get(classId)?.has(date) || !calendar.isInstructional({ classId }, date)) return;
+      conducted++;
+      attended += 1 - (absences.get(getStudentDayKey(student.id, date)) ?? 0);
+    });
+    summaries.set(student.id, { conducted, attended, percentage: conducted > 0 ? (attended / conducted) * 100 : 0 });
+  });
+  return summaries;
+}
+
+/**
+ * Buckets a percentage against the university rules: eligible, condonation-eligible or detained.
+ * A student with no conducted days yet is treated as eligible.
+ */
+export function getEligibilityBucket(summary: StudentAttendanceSummary, settings: AttendanceSettings): EligibilityBucket {
+  if (summary.conducted === 0 || summary.percentage >= settings.eligibilityPercentage) return 'Eligible';
+  if (summary.percentage >= settings.condonationPercentage) return 'Condonation';
+  return 'Detained';
+}
+
+/**
+ * The wording printed on the eligibility list, taking an approved or pending condonation into account.
+ */
+export function getEligibilityLabel(bucket: EligibilityBucket, condonation?: CondonationRequest) {
+  if (bucket === 'Condonation') {
+    if (condonation?.status === 'Approved') return 'Eligible (Condoned)';
+    if (condonation?.status === 'Pending') return 'Condonation Pending';
+    return 'Not Eligible (Condonation)';
+  }
+  return bucket === 'Eligible' ? 'Eligible' : 'Not Eligible (Detained)';
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { guessColumnMapping, validateStudentRows } from './student-import';
+import type { Class, Department, Student } from './types';
+
+const departments = [{ id: 'cse', name: 'Computer Science' }, { id: 'ece', name: 'Electronics' }] as Department[];
+const classes = [
+  { id: 'cse-2-a', name: 'II A', departmentId: 'cse' },
+  { id: 'ece-2-a', name: 'II A', departmentId: 'ece' },
+] as Class[];
+
+const mapping = guessColumnMapping(['Student Name', 'Reg. No', 'Sex', 'Quota', 'Dept', 'Section']);
+const validate = (rows: Record<string, unknown>[], existingStudents: Student[] = [], defaultClassId?: string) =>
+  validateStudentRows(rows, mapping, { classes, departments, existingStudents, defaultClassId });
+
+describe('guessColumnMapping', () => {
+  it('recognises common header spellings and leaves missing fields empty', () => {
+    expect(mapping).toEqual({
+      name: 'Student Name',
+      registerNo: 'Reg. No',
+      gender: 'Sex',
+      admissionType: 'Quota',
+      parentPhoneNumber: '',
+      mentor: '',
+      department: 'Dept',
+      class: 'Section',
+    });
+  });
+});
+
+describe('validateStudentRows', () => {
+  it('builds a student from a valid row', () => {
+    const [row] = validate([{ 'Student Name': 'Priya S', 'Reg. No': '23CS001', Sex: 'F', Quota: 'Mgmt', Dept: 'cse', Section: 'II A' }]);
+
+    expect(row).toEqual({
+      rowNumber: 2,
+      errors: [],
+      student: { name: 'Priya S', registerNo: '23CS001', gender: 'FEMALE', classId: 'cse-2-a', departmentId: 'cse', admissionType: 'Management' },
+    });
+  });
+
+  it('needs a department to tell apart classes that share a name', () => {
+    const [row] = validate([{ 'Student Name': 'Priya S', 'Reg. No': '23CS001', Sex: 'F', Section: 'II A' }]);
+
+    expect(row.student).toBeUndefined();
+    expect(row.errors).toEqual(['Unknown class "II A".']);
+  });
+
+  it('puts rows without a class into the default class', () => {
+    const [row] = validate([{ 'Student Name': 'Priya S', 'Reg. No': '23CS001', Sex: 'F' }], [], 'ece-2-a');
+
+    expect(row.student?.classId).toBe('ece-2-a');
+  });
+
+  it('rejects register numbers already in use or repeated in the file', () => {
+    const existing = [{ id: 's1', registerNo: '23cs001' }] as Student[];
+    const rows = validate([
+      { 'Student Name': 'Priya S', 'Reg. No': '23CS001', Sex: 'F', Dept: 'cse', Section: 'II A' },
+      { 'Student Name': 'Arun K', 'Reg. No': '23CS002', Sex: 'M', Dept: 'cse', Section: 'II A' },
+      { 'Student Name': 'Arun K', 'Reg. No': '23cs002', Sex: 'M', Dept: 'cse', Section: 'II A' },
+    ], existing);
+
+    expect(rows.map(r => r.errors)).toEqual([
+      ['Register number 23CS001 already belongs to a student.'],
+      [],
+      ['Register number 23cs002 is repeated from row 3.'],
+    ]);
+  });
+
+  it('reports every problem in a row', () => {
+    const [row] = validate([{ 'Reg. No': '23CS009', Sex: 'X', Quota: 'NRI', Dept: 'mech', Section: 'II A' }]);
+
+    expect(row.errors).toEqual([
+      'Name is missing.',
+      'Unknown gender "X".',
+      'Unknown admission type "NRI"; use CENTAC or Management.',
+      'Unknown department "mech".',
+      'Unknown class "II A".',
+    ]);
+  });
+});
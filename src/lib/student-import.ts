@@ -0,0 +1,151 @@
+import type { Class, Department, Student } from './types';
+
+export type StudentImportField = 'name' | 'registerNo' | 'gender' | 'admissionType' | 'parentPhoneNumber' | 'mentor' | 'department' | 'class';
+
+/**
+ * File column chosen for each field; '' when the file has no such column.
+ */
+export type StudentColumnMapping = Record<StudentImportField, string>;
+
+export const studentImportFields: { field: StudentImportField; label: string; required?: boolean }[] = [
+  { field: 'name', label: 'Name', required: true },
+  { field: 'registerNo', label: 'Register No.', required: true },
+  { field: 'gender', label: 'Gender', required: true },
+  { field: 'admissionType', label: 'Admission Type' },
+  { field: 'parentPhoneNumber', label: 'Parent Phone' },
+  { field: 'mentor', label: 'Mentor' },
+  { field: 'department', label: 'Department' },
+  { field: 'class', label: 'Class' },
+];
+
+// Header names each field is recognised by, compared without case, spaces or punctuation.
+const fieldAliases: Record<StudentImportField, string[]> = {
+  name: ['name', 'studentname', 'fullname'],
+  registerNo: ['registerno', 'regno', 'registernumber', 'registrationno', 'rollno', 'rollnumber'],
+  gender: ['gender', 'sex'],
+  admissionType: ['admissiontype', 'admission', 'quota'],
+  parentPhoneNumber: ['parentphonenumber', 'parentphone', 'parentmobile', 'phone', 'mobile', 'contact'],
+  mentor: ['mentor', 'mentorname'],
+  department: ['department', 'dept', 'branch'],
+  class: ['class', 'classname', 'section', 'classid'],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export function guessColumnMapping(headers: string[]): StudentColumnMapping {
+  return Object.fromEntries(studentImportFields.map(({ field }) => {
+    const header = headers.find(h => fieldAliases[field].includes(normalizeHeader(h)));
+    return [field, header ?? ''];
+  })) as StudentColumnMapping;
+}
+
+function parseGender(value: string): Student['gender'] | null {
+  const text = value.toLowerCase();
+  if (['m', 'male', 'boy'].includes(text)) return 'MALE';
+  if (['f', 'female', 'girl'].includes(text)) return 'FEMALE';
+  return null;
+}
+
+function parseAdmissionType(value: string): Student['admissionType'] | null {
+  const text = normalizeHeader(value);
+  if (text.startsWith('centac')) return 'CENTAC';
+  if (text.startsWith('management') || text === 'mgmt' || text === 'mq') return 'Management';
+  return null;
+}
+
+export interface StudentImportRow {
+  rowNumber: number; // As shown in the spreadsheet, counting the header as row 1
+  student?: Omit<Student, 'id'>;
+  errors: string[];
+}
+
+/**
+ * Checks every row against the mapping and builds the student it would create. A row without a class column
+ * goes into `defaultClassId`. Register numbers must be new to the institution and appear once in the file.
+ */
+export function validateStudentRows(
+  rows: Record<string, unknown>[],
+  mapping: StudentColumnMapping,
+  { classes, departments, existingStudents, defaultClassId }: {
+    classes: Class[];
+    departments: Department[];
+    existingStudents: Student[];
+    defaultClassId?: string;
+  },
+): StudentImportRow[] {
+  const existingRegisterNos = new Set(existingStudents.map(s => s.registerNo?.trim().toUpperCase()).filter(Boolean));
+  const seenRegisterNos = new Map<string, number>();
+
+  const findDepartment = (value: string) => {
+    const text = value.toLowerCase();
+    return departments.find(d => d.id.toLowerCase() === text || d.name.toLowerCase() === text);
+  };
+  const findClass = (value: string, department?: Department) => {
+    const text = value.toLowerCase();
+    const byId = classes.find(c => c.id.toLowerCase() === text);
+    if (byId) return byId;
+    const byName = classes.filter(c => c.name.toLowerCase() === text && (!department || c.departmentId === department.id));
+    return byName.length === 1 ? byName[0] : undefined;
+  };
+
+  return rows.map((row, index) => {
+    const read = (field: StudentImportField) => {
+      const column = mapping[field];
+      return column ? String(row[column] ?? '').trim() : '';
+    };
+    const errors: string[] = [];
+
+    const name = read('name');
+    if (!name) errors.push('Name is missing.');
+
+    const registerNo = read('registerNo');
+    const registerKey = registerNo.toUpperCase();
+    if (!registerNo) {
+      errors.push('Register number is missing.');
+    } else if (existingRegisterNos.has(registerKey)) {
+      errors.push(`Register number ${registerNo} already belongs to a student.`);
+    } else if (seenRegisterNos.has(registerKey)) {
+      errors.push(`Register number ${registerNo} is repeated from row ${seenRegisterNos.get(registerKey)}.`);
+    }
+    if (registerNo && !seenRegisterNos.has(registerKey)) seenRegisterNos.set(registerKey, index + 2);
+
+    const genderValue = read('gender');
+    const gender = parseGender(genderValue);
+    if (!gender) errors.push(genderValue ? `Unknown gender "${genderValue}".` : 'Gender is missing.');
+
+    const admissionValue = read('admissionType');
+    const admissionType = admissionValue ? parseAdmissionType(admissionValue) : undefined;
+    if (admissionType === null) errors.push(`Unknown admission type "${admissionValue}"; use CENTAC or Management.`);
+
+    const departmentValue = read('department');
+    const department = departmentValue ? findDepartment(departmentValue) : undefined;
+    if (departmentValue && !department) errors.push(`Unknown department "${departmentValue}".`);
+
+    const classValue = read('class');
+    const cls = classValue ? findClass(classValue, department) : classes.find(c => c.id === defaultClassId);
+    if (!cls) {
+      errors.push(classValue ? `Unknown class "${classValue}"${department ? ` in ${department.name}` : ''}.` : 'No class given; choose one for rows without a class.');
+    } else if (department && cls.departmentId !== department.id) {
+      errors.push(`Class "${cls.name}" is not in ${department.name}.`);
+    }
+
+    const parentPhoneNumber = read('parentPhoneNumber');
+    const mentor = read('mentor');
+
+    if (errors.length > 0 || !cls || !gender) return { rowNumber: index + 2, errors };
+    return {
+      rowNumber: index + 2,
+      errors,
+      student: {
+        name,
+        registerNo,
+        gender,
+        classId: cls.id,
+        departmentId: cls.departmentId,
+        ...(admissionType && { admissionType }),
+        ...(parentPhoneNumber && { parentPhoneNumber }),
+        ...(mentor && { mentor }),
+      },
+    };
+  });
+}
@@ -9,6 +9,7 @@ export interface Class {
   departmentId: string;
   name: string;
   teacherId?: string;
+  batch?: string; // Admission batch, e.g. "2025-2029"; classes in a batch can share a calendar
 }
 
 export interface Student {
@@ -21,17 +22,64 @@ export interface Student {
   parentPhoneNumber?: string;
   mentor?: string;
   admissionType?: 'CENTAC' | 'Management';
+  lastRollover?: string; // Academic year of the rollover that last moved the student, e.g. "2026-27"
+  enrolmentHistory?: EnrolmentEvent[];
+  isActive?: boolean; // false once deactivated in the student directory; missing means active
+}
+
+export type EnrolmentEventType = 'joined' | 'transferred' | 'discontinued' | 'longAbsence';
+
+/**
+ * A change to a student's enrolment, effective from `date`. A student with no history counts as enrolled in
+ * their current class on every day.
+ */
+export interface EnrolmentEvent {
+  type: EnrolmentEventType;
+  date: string; // yyyy-MM-dd, the first day the event applies
+  classId?: string; // joined: the class joined; transferred: the class moved to
+  fromClassId?: string; // transferred: the class moved from
+  endDate?: string; // longAbsence: the last day away; open-ended when missing
+  note?: string;
+  recordedBy: string;
+  recordedByName: string;
+  recordedAt: Date;
+}
+
+/**
+ * One academic-year rollover run, stored in `rollovers`. Graduated students are moved to `graduatedStudents`.
+ */
+export interface Rollover {
+  id: string;
+  academicYear: string; // e.g. "2026-27"
+  mapping: Record<string, string>; // source classId -> target classId or 'graduate'
+  movedCount: number;
+  graduatedCount: number;
+  performedBy: string; // staffId
+  performedByName: string;
+  performedAt: any; // Firestore Timestamp
 }
 
 export interface Staff {
   id: string; // This can be a generated ID
   name: string;
   email: string;
-  role: 'admin' | 'viewer' | 'teacher' | 'dean';
-  classId?: string; // Only for teachers
+  role: 'admin' | 'viewer' | 'teacher' | 'dean' | 'hod';
+  classId?: string; // Only for teachers; their own class, treated as a 'Class Teacher' assignment
+  departmentId?: string; // Only for HODs
   password?: string; 
 }
 
+export type ClassAssignmentRole = 'Class Teacher' | 'Co-Class Teacher' | 'Substitute';
+
+export interface ClassAssignment {
+  id: string;
+  staffId: string;
+  classId: string;
+  role: ClassAssignmentRole;
+  startDate?: string; // format YYYY-MM-DD; required for substitutes
+  endDate?: string; // format YYYY-MM-DD, inclusive; required for substitutes
+}
+
 export type FeeCategory = 'tuition' | 'exam' | 'transport' | 'hostel' | 'registration';
 
 export interface FeeItem {
@@ -73,6 +121,30 @@ export interface FeeTransaction {
 }
 
 
+export type AttendanceSession = 'FN' | 'AN';
+
+export type SpecialAttendanceStatus = 'On Duty' | 'Medical Leave' | 'Late';
+
+export type ContactOutcome = 'Reached' | 'No Answer' | 'Switched Off' | 'Wrong Number';
+
+export type NotificationChannel = 'sms' | 'whatsapp';
+
+export interface NotificationDelivery {
+  status: 'queued' | 'sent' | 'failed' | 'skipped';
+  channel: NotificationChannel;
+  provider: string; // e.g. 'console', 'file'
+  to?: string;
+  sentAt: any; // Firestore Timestamp; when the message was queued, then when it was attempted
+  error?: string; // Why the message failed or was skipped
+}
+
+export interface ContactAttempt {
+  time: any; // Firestore Timestamp
+  calledBy: string; // staff name
+  outcome: ContactOutcome;
+  note?: string;
+}
+
 export interface AttendanceRecord {
   id: string;
   studentId: string;
@@ -81,26 +153,198 @@ export interface AttendanceRecord {
   gender: 'MALE' | 'FEMALE';
   departmentName: string;
   className: string;
+  classId?: string; // Not present on older records
   date: string;
+  period?: number; // Only for period-wise attendance (1-based)
+  session?: AttendanceSession; // Only for half-day absences; missing means the whole day
   time: string;
   markedBy: string;
-  status: 'Informed' | 'Not Informed' | 'Letter Given';
+  status: 'Informed' | 'Not Informed' | 'Letter Given' | SpecialAttendanceStatus;
+  reason?: string; // Why the student was absent, as told by the parent
+  contactLog?: ContactAttempt[];
+  followedUpAt?: any; // Firestore Timestamp of the first follow-up action
+  followedUpBy?: string; // staff name
+  notification?: NotificationDelivery; // Parent absence message, once one has been attempted
+  leaveId?: string; // Approved leave application the absence was pre-filled from
+  parentAcknowledgedAt?: any; // Firestore Timestamp; set when the parent confirms through the acknowledgement link
   timestamp: any;
 }
 
+export type DayType = 'instructional' | 'exam' | 'holiday' | 'event' | 'vacation';
+
+export type CalendarScope = 'department' | 'batch' | 'class';
+
 export interface WorkingDay {
-    id: string;
-    isWorkingDay: boolean;
+    id: string; // format YYYY-MM-DD; `${scope}_${scopeId}_${date}` for overrides
+    isWorkingDay: boolean; // True only for instructional days; older entries have no dayType and use this alone
+    dayType?: DayType;
+    label?: string; // e.g. "Pongal", "Model Exam I"
+    scope?: CalendarScope; // Only on overrides (calendarOverrides collection); missing means the institution default
+    scopeId?: string; // departmentId, Class.batch or classId
+    compensatory?: boolean; // An instructional day on a weekly off, e.g. a working Sunday; weekly offs only count with this
     timestamp: Date;
 }
 
+export interface Semester {
+  id: string;
+  name: string; // e.g. "Odd Semester"
+  academicYear: string; // e.g. "2025-26"
+  startDate: string; // format YYYY-MM-DD
+  endDate: string; // format YYYY-MM-DD
+}
+
+export type AttendanceReconcileAction = 'archive' | 'keep' | 'delete';
+
+/**
+ * A calendar change that turned days on which attendance was already taken into non-instructional days,
+ * and what was done with that attendance. Stored in `calendarAuditLog`.
+ */
+export interface CalendarAuditEntry {
+  id: string;
+  dates: string[]; // format YYYY-MM-DD
+  scope?: CalendarScope; // Missing for the institution calendar
+  scopeId?: string;
+  dayType?: DayType; // The new type; missing when an override was removed
+  label?: string;
+  action: AttendanceReconcileAction; // Archived copies go to archivedAttendanceSubmissions / archivedAttendanceRecords
+  submissionIds: string[];
+  recordCount: number;
+  changedBy: string; // staffId
+  changedByName: string;
+  changedAt: any; // Firestore Timestamp
+}
+
 export interface AttendanceSubmission {
-  id:string; // Composite key like `${classId}_${date}`
+  id:string; // Composite key like `${classId}_${date}` or `${classId}_${date}_P${period}`
   classId: string;
   departmentId: string;
   date: string; // format YYYY-MM-DD
+  period?: number; // Only for period-wise attendance (1-based)
   submittedBy: string; // staffId
   submittedAt: any; // Firestore Timestamp
   presentCount: number;
-  absentCount: number;
+  absentCount: number; // Every student with a record, including On Duty, Medical Leave and Late
+  sessionAbsentCounts?: Record<AttendanceSession, number>; // Only when half-day sessions are enabled
+  isLate?: boolean; // Submitted after the department's cut-off time on the attendance date
+  assignmentId?: string; // ClassAssignment the teacher submitted under ('primary' for Staff.classId)
+  assignmentRole?: ClassAssignmentRole;
+  roster?: RosterEntry[]; // The students the attendance was taken for; missing on older submissions
+}
+
+/**
+ * A student as they stood on a class's roster when its attendance was submitted, including the fields reports
+ * filter by so those filters follow the student as they were that day.
+ */
+export type RosterEntry = Pick<Student, 'id' | 'name' | 'registerNo' | 'gender' | 'mentor' | 'admissionType'>;
+
+export interface AttendanceSettings {
+  periodsPerDay: number; // 1 means a single daily submission
+  minPeriodsForPresent: number; // Periods a student must attend to be counted present for the day
+  halfDaySessions: boolean; // Allows forenoon/afternoon-only absences worth half a day
+  countsAsPresent: Record<SpecialAttendanceStatus, boolean>; // Whether each status counts as present in percentages
+  followUpDeadline: string; // HH:mm; absentees not followed up by then are flagged as overdue
+  submissionCutoff: string; // HH:mm; attendance submitted after this on the day is flagged late
+  departmentCutoffs: Record<string, string>; // departmentId -> HH:mm, overriding submissionCutoff
+  eligibilityPercentage: number; // Students at or above this are eligible for exams
+  condonationPercentage: number; // Students from this up to eligibilityPercentage may be condoned; below it they are detained
+  weeklyOffDays: number[]; // 0 = Sunday ... 6 = Saturday
+  offSaturdays: number[]; // 1-based weeks of the month whose Saturday is also off, e.g. [2, 4]
+}
+
+export interface NotificationSettings {
+  enabled: boolean;
+  channel: NotificationChannel;
+  absenceTemplate: string; // Supports {studentName}, {registerNo}, {className}, {date}, {session} and {ackLink}
+}
+
+export type LeaveType = 'Medical' | 'Family Function' | 'Personal' | 'Other';
+
+export interface LeaveApplication {
+  id: string;
+  studentId: string;
+  studentName: string;
+  registerNo: string;
+  classId: string;
+  departmentId: string;
+  fromDate: string; // format YYYY-MM-DD
+  toDate: string; // format YYYY-MM-DD, inclusive
+  type: LeaveType;
+  reason: string;
+  attachmentUrl?: string; // Link to the leave letter or medical certificate
+  appliedBy: string; // staffId
+  appliedByName: string;
+  appliedAt: any; // Firestore Timestamp
+  status: 'Pending' | 'Approved' | 'Rejected';
+  reviewedBy?: string; // staff name
+  reviewedAt?: any; // Firestore Timestamp
+  reviewNote?: string;
+}
+
+export interface CondonationRequest {
+  id: string;
+  studentId: string;
+  studentName: string;
+  registerNo: string;
+  classId: string;
+  departmentId: string;
+  fromDate: string; // format YYYY-MM-DD; the semester range the percentage was worked out for
+  toDate: string; // format YYYY-MM-DD
+  percentage: number; // Attendance percentage when the request was raised
+  reason: string;
+  requestedBy: string; // staffId
+  requestedByName: string;
+  requestedAt: any; // Firestore Timestamp
+  status: 'Pending' | 'Approved' | 'Rejected';
+  fee?: number; // Condonation fee charged on approval
+  remarks?: string;
+  reviewedBy?: string; // staff name
+  reviewedAt?: any; // Firestore Timestamp
+}
+
+export type AbsenceAlertType = 'Consecutive' | 'Monday' | 'After Holiday';
+
+export interface AbsenceAlert {
+  id: string; // `${studentId}_${type}_${first date}`, so re-running the alert engine updates rather than duplicates
+  type: AbsenceAlertType;
+  studentId: string;
+  studentName: string;
+  registerNo: string;
+  classId: string;
+  departmentId: string;
+  mentor: string; // Student.mentor when the alert was raised
+  dates: string[]; // format YYYY-MM-DD; the absences that triggered the alert
+  raisedAt: any; // Firestore Timestamp
+  status: 'Open' | 'Acknowledged' | 'Closed';
+  acknowledgedBy?: string; // staff name
+  acknowledgedAt?: any; // Firestore Timestamp
+  closedBy?: string; // staff name
+  closedAt?: any; // Firestore Timestamp
+  notes?: string; // What the mentor found out or did
+}
+
+export type CorrectionType = 'add-absentee' | 'remove-absentee' | 'change-status';
+
+export interface AttendanceCorrection {
+  id: string;
+  submissionId: string;
+  classId: string;
+  departmentId: string;
+  date: string; // format YYYY-MM-DD
+  period?: number;
+  type: CorrectionType;
+  studentId: string;
+  studentName: string;
+  registerNo: string;
+  gender: 'MALE' | 'FEMALE';
+  recordId?: string; // The record being removed or changed
+  newStatus?: AttendanceRecord['status']; // Only for 'change-status'
+  session?: AttendanceSession; // Only for 'add-absentee' on a half-day submission; missing means the whole day
+  reason: string;
+  requestedBy: string; // staffId
+  requestedByName: string;
+  requestedAt: any; // Firestore Timestamp
+  status: 'Pending' | 'Approved' | 'Rejected';
+  reviewedBy?: string; // staff name
+  reviewedAt?: any; // Firestore Timestamp
+  reviewNote?: string;
 }
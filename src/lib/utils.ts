@@ -1,6 +1,7 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
 import * as XLSX from 'xlsx';
+import { Timestamp } from 'firebase/firestore';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -65,3 +66,8 @@ export function exportToCsv(filename: string, rows: any[]) {
     document.body.removeChild(link);
   }
 }
+
+/** Converts a date as stored in Firestore (a Timestamp), kept in state (a Date) or serialized (a string). */
+export function toDate(value: Date | Timestamp | string): Date {
+  return value instanceof Timestamp ? value.toDate() : new Date(value);
+}